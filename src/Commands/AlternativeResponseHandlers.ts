@@ -0,0 +1,192 @@
+import { Editor, MarkdownView, Notice } from "obsidian";
+import { ServiceContainer } from "src/core/ServiceContainer";
+import {
+  HORIZONTAL_LINE_MD,
+  NEXT_ALTERNATIVE_COMMAND_ID,
+  PLUGIN_PREFIX,
+  PROMOTE_ALTERNATIVE_COMMAND_ID,
+  REGENERATE_RESPONSE_COMMAND_ID,
+  ROLE_ASSISTANT,
+} from "src/Constants";
+import {
+  AlternativeResponse,
+  AssistantSection,
+  formatAssistantSection,
+  parseAssistantSection,
+  promoteAlternative,
+} from "src/Utilities/AlternativeResponseHelpers";
+import { getMessageSectionRole, getMessageSections } from "src/Utilities/MessageHelpers";
+import { AlternativeResponseSuggestModal } from "src/Views/AlternativeResponseSuggestModal";
+import { CommandMetadata, EditorCommandHandler, EditorViewCommandHandler } from "./CommandHandler";
+import { ChatHandler } from "./ChatHandler";
+
+type MessageRange = ReturnType<typeof getMessageSections>[number];
+
+/**
+ * Get the assistant messages of the chat in the editor
+ */
+function getAssistantSections(text: string): MessageRange[] {
+  return getMessageSections(text).filter((section) => getMessageSectionRole(section.text) === ROLE_ASSISTANT);
+}
+
+/**
+ * Find the assistant message under the cursor, falling back to the last assistant message
+ */
+function findTargetAssistantSection(editor: Editor): MessageRange | undefined {
+  const sections = getAssistantSections(editor.getValue());
+  const cursor = editor.posToOffset(editor.getCursor());
+  return sections.find((section) => cursor >= section.start && cursor <= section.end) ?? sections[sections.length - 1];
+}
+
+/**
+ * Replace an assistant message in the editor
+ */
+function replaceAssistantSection(editor: Editor, range: MessageRange, section: AssistantSection): void {
+  editor.replaceRange(formatAssistantSection(section), editor.offsetToPos(range.start), editor.offsetToPos(range.end));
+}
+
+/**
+ * Handler for regenerating the last assistant response
+ * Previous versions are kept as collapsed alternatives below the new response
+ */
+export class RegenerateResponseHandler implements EditorViewCommandHandler {
+  constructor(
+    private services: ServiceContainer,
+    private chatHandler: ChatHandler
+  ) {}
+
+  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+    const { messageService } = this.services;
+    const text = editor.getValue();
+    const sections = getMessageSections(text);
+    const lastIndex = sections.map((section) => getMessageSectionRole(section.text)).lastIndexOf(ROLE_ASSISTANT);
+    if (lastIndex === -1) {
+      new Notice(`${PLUGIN_PREFIX} No assistant response to regenerate`);
+      return;
+    }
+
+    const hasLaterMessages = sections
+      .slice(lastIndex + 1)
+      .some((section) => messageService.extractRoleAndMessage(section.text).content.trim() !== "");
+    if (hasLaterMessages) {
+      new Notice(`${PLUGIN_PREFIX} Only the last response can be regenerated, remove the messages after it first`);
+      return;
+    }
+
+    const previous = parseAssistantSection(sections[lastIndex].text);
+    const alternatives = [{ model: previous.model, content: previous.content }, ...previous.alternatives];
+
+    // Remove the response and the empty user heading after it, then run the chat again
+    const cutOffset = text.substring(0, sections[lastIndex].start - HORIZONTAL_LINE_MD.length).trimEnd().length;
+    editor.replaceRange("", editor.offsetToPos(cutOffset), editor.offsetToPos(text.length));
+    editor.setCursor(editor.offsetToPos(cutOffset));
+
+    const answered = await this.chatHandler.execute(editor, view);
+    if (answered) {
+      this.attachAlternatives(editor, text, cutOffset, alternatives);
+    } else {
+      this.restoreResponse(editor, text, cutOffset);
+    }
+  }
+
+  /**
+   * Add the previous versions to the new response, or restore the previous response if none was added
+   */
+  private attachAlternatives(
+    editor: Editor,
+    originalText: string,
+    cutOffset: number,
+    alternatives: AlternativeResponse[]
+  ): void {
+    const current = editor.getValue();
+    const responses = getAssistantSections(current);
+    const response = responses[responses.length - 1];
+
+    if (!response || response.start < cutOffset) {
+      this.restoreResponse(editor, originalText, cutOffset);
+      return;
+    }
+
+    replaceAssistantSection(editor, response, { ...parseAssistantSection(response.text), alternatives });
+    editor.setCursor(editor.offsetToPos(editor.getValue().length));
+  }
+
+  /**
+   * Put the previous response back in place of a failed rerun, such as a declined budget or an API error
+   * Left alone when the text before the response has changed meanwhile
+   */
+  private restoreResponse(editor: Editor, originalText: string, cutOffset: number): void {
+    const current = editor.getValue();
+    if (current.substring(0, cutOffset) !== originalText.substring(0, cutOffset)) {
+      return;
+    }
+
+    editor.replaceRange(
+      originalText.substring(cutOffset),
+      editor.offsetToPos(cutOffset),
+      editor.offsetToPos(current.length)
+    );
+    editor.setCursor(editor.offsetToPos(editor.getValue().length));
+    new Notice(`${PLUGIN_PREFIX} The response could not be regenerated, the previous response was kept`);
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: REGENERATE_RESPONSE_COMMAND_ID,
+      name: "Regenerate response",
+      icon: "refresh-cw",
+    };
+  }
+}
+
+/**
+ * Handler for cycling through the alternatives of the response under the cursor (or the last response)
+ */
+export class NextAlternativeHandler implements EditorCommandHandler {
+  execute(editor: Editor): void {
+    const range = findTargetAssistantSection(editor);
+    const section = range && parseAssistantSection(range.text);
+    if (!range || !section || section.alternatives.length === 0) {
+      new Notice(`${PLUGIN_PREFIX} This response has no alternatives, regenerate it first`);
+      return;
+    }
+
+    replaceAssistantSection(editor, range, promoteAlternative(section, 0));
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: NEXT_ALTERNATIVE_COMMAND_ID,
+      name: "Show next alternative response",
+      icon: "arrow-right-left",
+    };
+  }
+}
+
+/**
+ * Handler for choosing an alternative to become the canonical response
+ */
+export class PromoteAlternativeHandler implements EditorCommandHandler {
+  constructor(private services: ServiceContainer) {}
+
+  execute(editor: Editor): void {
+    const range = findTargetAssistantSection(editor);
+    const section = range && parseAssistantSection(range.text);
+    if (!range || !section || section.alternatives.length === 0) {
+      new Notice(`${PLUGIN_PREFIX} This response has no alternatives, regenerate it first`);
+      return;
+    }
+
+    new AlternativeResponseSuggestModal(this.services.app, section.alternatives, (index) => {
+      replaceAssistantSection(editor, range, promoteAlternative(section, index));
+    }).open();
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: PROMOTE_ALTERNATIVE_COMMAND_ID,
+      name: "Promote alternative response",
+      icon: "badge-check",
+    };
+  }
+}
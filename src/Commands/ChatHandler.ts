@@ -1,9 +1,19 @@
-import { Editor, MarkdownView, Notice, Platform } from "obsidian";
+import { Editor, EditorPosition, MarkdownView, Notice, parseYaml, Platform, TFile } from "obsidian";
 import { ServiceContainer } from "src/core/ServiceContainer";
 import { getHeadingPrefix } from "src/Utilities/TextHelpers";
+import { appendToAssistantHeader } from "src/Utilities/ResponseHelpers";
+import { formatUsageLabel } from "src/Utilities/UsageHelpers";
+import { formatFallbackLabel } from "src/Utilities/FallbackHelpers";
+import { aiProviderFromUrl } from "src/Utilities/ProviderHelpers";
+import { getCustomProviderNames } from "src/Utilities/CustomProviderHelpers";
+import { ErrorMessages } from "src/Utilities/ErrorMessageFormatter";
+import { createResponseFormat, extractSchemaSource, getSchemaLinkTarget } from "src/Utilities/StructuredOutputHelpers";
 import { getDefaultModelForService, isTitleTimestampFormat } from "src/Utilities/FrontmatterHelpers";
 import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
-import { Message } from "src/Models/Message";
+import { TokenUsage } from "src/Models/Usage";
+import { ResponseFormat } from "src/Models/StructuredOutput";
+import { AiProviderService } from "src/Services/AiProviderService";
+import { AiApiResponse } from "src/Types/AiTypes";
 import {
   AI_SERVICE_OPENROUTER,
   CALL_CHATGPT_API_COMMAND_ID,
@@ -11,9 +21,16 @@ import {
   NOTICE_DURATION_LONG_MS,
   NOTICE_DURATION_SHORT_MS,
   PLUGIN_PREFIX,
+  RESPONSE_FORMAT_JSON,
 } from "src/Constants";
 // DEFAULT_*_CONFIG imports removed - using getDefaultModelForService instead
-import { getAiApiUrls } from "./CommandUtilities";
+import {
+  buildSystemMessages,
+  checkBudgets,
+  fitToContextWindow,
+  getAiApiUrls,
+  recordRequestUsage,
+} from "./CommandUtilities";
 
 /**
  * Handler for the main chat command
@@ -39,24 +56,33 @@ export class ChatHandler {
 
   /**
    * Execute the chat command
+   * @returns Whether the model answered, false when the request was declined, failed or came back empty
    */
-  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+  async execute(editor: Editor, view: MarkdownView): Promise<boolean> {
     const { editorService, settingsService, apiAuthService, toolService } = this.services;
     const settings = settingsService.getSettings();
     const frontmatter: MergedFrontmatterConfig = await editorService.getFrontmatter(view, settings, this.services.app);
 
     const aiService = this.services.aiProviderService();
     this.stopStreamingHandler.setCurrentAiService(aiService);
+    aiService.setStatusCallback((text) => this.updateStatusBar(text));
+    let answered = false;
 
     try {
+      // Stop before calling the API when a spending budget is exceeded and not overridden
+      if (!(await checkBudgets(this.services, editor, frontmatter, settings))) {
+        return false;
+      }
+
       // Get messages from editor
       const { messagesWithRole: messagesWithRoleAndMessage, messages } = await editorService.getMessagesFromEditor(
         editor,
-        settings
+        settings,
+        frontmatter
       );
 
       // Prepend system messages (agent body + system_commands)
-      const systemMessages = this.buildSystemMessages(frontmatter);
+      const systemMessages = buildSystemMessages(frontmatter);
       if (systemMessages.length > 0) {
         messagesWithRoleAndMessage.unshift(...systemMessages);
       }
@@ -65,6 +91,7 @@ export class ChatHandler {
       if (!settings.generateAtCursor) {
         editorService.moveCursorToEnd(editor);
       }
+      const responseStart = editor.getCursor();
 
       if (Platform.isMobile) {
         new Notice(`${PLUGIN_PREFIX} Calling ${frontmatter.model}`);
@@ -78,9 +105,20 @@ export class ChatHandler {
       // Get tool service if tools are enabled
       const toolServiceToUse = settings.enableToolCalling ? toolService : undefined;
 
-      const response = await aiService.callAiAPI(
+      // Keep the request within the model's context window
+      const contextMessages = await fitToContextWindow(
+        this.services,
         messagesWithRoleAndMessage,
         frontmatter,
+        aiService,
+        settings,
+        apiKeyToUse,
+        view.file
+      );
+
+      const response = await aiService.callAiAPI(
+        contextMessages,
+        { ...frontmatter, response_format: await this.resolveResponseFormat(frontmatter) },
         getHeadingPrefix(settings.headingLevel),
         getAiApiUrls(frontmatter)[frontmatter.aiService],
         editor,
@@ -91,35 +129,17 @@ export class ChatHandler {
       );
 
       editorService.processResponse(editor, response, settings);
+      answered = !response.error && response.fullString.trim() !== "";
+
+      const answeredBy = this.annotateFallback(editor, responseStart, response, frontmatter, settings);
+      await this.recordUsage(editor, view.file, responseStart, response.usage, answeredBy, aiService, settings);
 
       if (
         settings.autoInferTitle &&
         isTitleTimestampFormat(view?.file?.basename, settings.dateFormat) &&
         messagesWithRoleAndMessage.length > MIN_AUTO_INFER_MESSAGES
       ) {
-        // Create a settings object with the correct API key and model
-        const settingsWithApiKey: ChatGPT_MDSettings & { url?: string; model?: string } = {
-          ...settings,
-          ...frontmatter,
-          // Use the utility function to get the correct API key
-          openrouterApiKey: apiAuthService.getApiKey(settings, AI_SERVICE_OPENROUTER),
-          // Use the centralized method for URL
-          url: getAiApiUrls(frontmatter)[frontmatter.aiService],
-        };
-
-        // Ensure model is set for title inference
-        if (!settingsWithApiKey.model) {
-          settingsWithApiKey.model = getDefaultModelForService(frontmatter.aiService);
-          if (!settingsWithApiKey.model) {
-            new Notice(
-              `Auto title inference skipped: No model configured for ${frontmatter.aiService}. Please set a model in settings.`,
-              NOTICE_DURATION_SHORT_MS
-            );
-            return;
-          }
-        }
-
-        await aiService.inferTitle(view, settingsWithApiKey as ChatGPT_MDSettings, messages, editorService);
+        await this.autoInferTitle(view, frontmatter, messages, aiService, settings);
       }
     } catch (err) {
       if (Platform.isMobile) {
@@ -129,30 +149,145 @@ export class ChatHandler {
     }
 
     this.updateStatusBar("");
+    return answered;
   }
 
   /**
-   * Build system messages from agent body and system_commands frontmatter
+   * Infer the title of a new chat after the first exchanges
+   * Skipped when a spending budget is exceeded, as the title is not worth asking for an override
    */
-  private buildSystemMessages(frontmatter: MergedFrontmatterConfig): Message[] {
-    const systemMessages: Message[] = [];
-
-    // Agent body as system message
-    const agentBody = frontmatter._agentSystemMessage as string | undefined;
-    if (agentBody) {
-      systemMessages.push({ role: "system", content: agentBody });
+  private async autoInferTitle(
+    view: MarkdownView,
+    frontmatter: MergedFrontmatterConfig,
+    messages: string[],
+    aiService: AiProviderService,
+    settings: ChatGPT_MDSettings
+  ): Promise<void> {
+    const { apiAuthService, editorService, usageService } = this.services;
+    const statuses = await usageService.getBudgetStatuses(frontmatter, settings);
+    if (statuses.some((status) => status.state === "exceeded")) {
+      return;
     }
 
-    // system_commands from frontmatter as system messages
-    if (frontmatter.system_commands && Array.isArray(frontmatter.system_commands)) {
-      for (const cmd of frontmatter.system_commands) {
-        if (typeof cmd === "string" && cmd.trim()) {
-          systemMessages.push({ role: "system", content: cmd });
-        }
+    // Create a settings object with the correct API key and model
+    const settingsWithApiKey: ChatGPT_MDSettings & { url?: string; model?: string } = {
+      ...settings,
+      ...frontmatter,
+      // Use the utility function to get the correct API key
+      openrouterApiKey: apiAuthService.getApiKey(settings, AI_SERVICE_OPENROUTER),
+      // Use the centralized method for URL
+      url: getAiApiUrls(frontmatter)[frontmatter.aiService],
+    };
+
+    // Ensure model is set for title inference
+    if (!settingsWithApiKey.model) {
+      settingsWithApiKey.model = getDefaultModelForService(frontmatter.aiService);
+      if (!settingsWithApiKey.model) {
+        new Notice(
+          `Auto title inference skipped: No model configured for ${frontmatter.aiService}. Please set a model in settings.`,
+          NOTICE_DURATION_SHORT_MS
+        );
+        return;
       }
     }
 
-    return systemMessages;
+    const { usage } = await aiService.inferTitle(
+      view,
+      settingsWithApiKey as ChatGPT_MDSettings,
+      messages,
+      editorService
+    );
+    const answeredBy = { ...frontmatter, model: settingsWithApiKey.model };
+    await recordRequestUsage(this.services, view.file, usage, answeredBy, aiService, settings);
+  }
+
+  /**
+   * Resolve the response_format frontmatter: json, an inline JSON Schema or a link to a note containing one
+   * Schema notes may hold the schema as JSON or YAML, in a code block or as the whole note
+   * @returns The response format, or undefined for regular text responses
+   */
+  private async resolveResponseFormat(frontmatter: MergedFrontmatterConfig): Promise<ResponseFormat | undefined> {
+    const value = frontmatter.response_format;
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+    if (typeof value === "string" && value.trim().toLowerCase() === RESPONSE_FORMAT_JSON) {
+      return {};
+    }
+
+    const link = getSchemaLinkTarget(value);
+    if (!link) {
+      return createResponseFormat(value);
+    }
+
+    const content = await this.services.linkContentService.getLinkContent(link);
+    if (content === null) {
+      throw new Error(ErrorMessages.STRUCTURED_OUTPUT.SCHEMA_NOT_FOUND(link));
+    }
+
+    // YAML is a superset of JSON, so one parser handles both
+    const name = link.split("/").pop()?.replace(/\.md$/, "");
+    return createResponseFormat(parseYaml(extractSchemaSource(content)), name);
+  }
+
+  /**
+   * Label the assistant header when a fallback model answered
+   * @returns The frontmatter with the model that answered, for usage tracking
+   */
+  private annotateFallback(
+    editor: Editor,
+    responseStart: EditorPosition,
+    response: AiApiResponse,
+    frontmatter: MergedFrontmatterConfig,
+    settings: ChatGPT_MDSettings
+  ): MergedFrontmatterConfig {
+    if (!response.fallback) {
+      return frontmatter;
+    }
+
+    const { model, failures } = response.fallback;
+    appendToAssistantHeader(editor, responseStart, formatFallbackLabel(model, failures));
+    const aiService = aiProviderFromUrl(undefined, model, getCustomProviderNames(settings)) ?? frontmatter.aiService;
+    return { ...frontmatter, model, aiService };
+  }
+
+  /**
+   * Record the token usage and cost of a response in the frontmatter and the usage ledger
+   * The assistant header is annotated first, as updating the frontmatter can shift the lines below it
+   */
+  private async recordUsage(
+    editor: Editor,
+    file: TFile | null,
+    responseStart: EditorPosition,
+    usage: TokenUsage | undefined,
+    frontmatter: MergedFrontmatterConfig,
+    aiService: AiProviderService,
+    settings: ChatGPT_MDSettings
+  ): Promise<void> {
+    const { usageService, modelCatalogService } = this.services;
+    if (!usage || !file) {
+      return;
+    }
+
+    try {
+      const cost = usageService.getCost(
+        frontmatter.model,
+        usage,
+        settings,
+        aiService.getModelPricing(frontmatter.model) ?? modelCatalogService.getModel(frontmatter.model)?.pricing
+      );
+
+      if (settings.showUsageInHeader) {
+        appendToAssistantHeader(editor, responseStart, formatUsageLabel(usage, cost));
+      }
+
+      await usageService.recordUsage(
+        { file, provider: frontmatter.aiService, model: frontmatter.model, usage, cost },
+        settings
+      );
+    } catch (error) {
+      console.error("[ChatGPT MD] Error recording token usage:", error);
+    }
   }
 
   /**
@@ -1,20 +1,31 @@
-import { Notice } from "obsidian";
-import { isValidApiKey } from "src/Services/ApiAuthService";
-import { ChatGPT_MDSettings } from "src/Models/Config";
-import { IAiApiService } from "src/Types/AiTypes";
+import { Editor, Notice, TFile } from "obsidian";
+import { ServiceContainer } from "src/core/ServiceContainer";
+import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
+import { Message } from "src/Models/Message";
+import { TokenUsage } from "src/Models/Usage";
+import { AiProviderService } from "src/Services/AiProviderService";
+import { BudgetOverrideModal } from "src/Views/BudgetOverrideModal";
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
   AI_SERVICE_OPENAI,
   AI_SERVICE_OPENROUTER,
   AI_SERVICE_ZAI,
-  FETCH_MODELS_TIMEOUT_MS,
+  NOTICE_DURATION_LONG_MS,
+  PLUGIN_PREFIX,
 } from "src/Constants";
 import { getApiUrlsFromFrontmatter } from "src/Utilities/FrontmatterHelpers";
+import { getHeadingPrefix } from "src/Utilities/TextHelpers";
+import { formatBudgetStatus } from "src/Utilities/UsageHelpers";
+import { ErrorMessages } from "src/Utilities/ErrorMessageFormatter";
+import { getCustomProviderNames, getCustomProviders } from "src/Utilities/CustomProviderHelpers";
+import { aiProviderFromUrl } from "src/Utilities/ProviderHelpers";
 import {
   DEFAULT_ANTHROPIC_CONFIG,
+  DEFAULT_AZURE_CONFIG,
   DEFAULT_GEMINI_CONFIG,
   DEFAULT_LMSTUDIO_CONFIG,
   DEFAULT_OLLAMA_CONFIG,
@@ -32,137 +43,186 @@ export function getAiApiUrls(frontmatter: any): { [key: string]: string } {
 }
 
 /**
- * Get default API URLs for all services from settings
+ * Build system messages from agent body and system_commands frontmatter
  */
-export function getDefaultApiUrls(settings: ChatGPT_MDSettings): { [key: string]: string } {
-  return {
-    [AI_SERVICE_OPENAI]: settings.openaiUrl || DEFAULT_OPENAI_CONFIG.url,
-    [AI_SERVICE_OPENROUTER]: settings.openrouterUrl || DEFAULT_OPENROUTER_CONFIG.url,
-    [AI_SERVICE_OLLAMA]: settings.ollamaUrl || DEFAULT_OLLAMA_CONFIG.url,
-    [AI_SERVICE_LMSTUDIO]: settings.lmstudioUrl || DEFAULT_LMSTUDIO_CONFIG.url,
-    [AI_SERVICE_ANTHROPIC]: settings.anthropicUrl || DEFAULT_ANTHROPIC_CONFIG.url,
-    [AI_SERVICE_GEMINI]: settings.geminiUrl || DEFAULT_GEMINI_CONFIG.url,
-    [AI_SERVICE_ZAI]: settings.zaiUrl || DEFAULT_ZAI_CONFIG.url,
-  };
+export function buildSystemMessages(frontmatter: MergedFrontmatterConfig): Message[] {
+  const systemMessages: Message[] = [];
+
+  // Agent body as system message
+  const agentBody = frontmatter._agentSystemMessage as string | undefined;
+  if (agentBody) {
+    systemMessages.push({ role: "system", content: agentBody });
+  }
+
+  // system_commands from frontmatter as system messages
+  if (frontmatter.system_commands && Array.isArray(frontmatter.system_commands)) {
+    for (const cmd of frontmatter.system_commands) {
+      if (typeof cmd === "string" && cmd.trim()) {
+        systemMessages.push({ role: "system", content: cmd });
+      }
+    }
+  }
+
+  return systemMessages;
 }
 
 /**
- * Fetch available models from all services
+ * Send a summarization request to the chat model without streaming into the editor
+ * Used for context window summaries and the compact chat command. Summaries are plain text, even in chats
+ * with a response_format. Their usage is added to the chat's totals and the usage ledger.
  */
-export async function fetchAvailableModels(
-  aiService: IAiApiService,
-  urls: { [key: string]: string },
+export async function requestSummary(
+  services: ServiceContainer,
+  aiService: AiProviderService,
+  summaryRequest: Message[],
+  frontmatter: MergedFrontmatterConfig,
+  settings: ChatGPT_MDSettings,
   apiKey: string,
-  openrouterApiKey: string,
-  apiAuthService: { getApiKey(settings: ChatGPT_MDSettings, serviceType: string): string },
-  settingsService: { getSettings(): ChatGPT_MDSettings }
-): Promise<string[]> {
-  function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
-    return Promise.race([promise, new Promise<T>((resolve) => setTimeout(() => resolve(fallback), ms))]);
+  file: TFile | null
+): Promise<string> {
+  const response = await aiService.callAiAPI(
+    summaryRequest,
+    { ...frontmatter, stream: false, response_format: undefined },
+    getHeadingPrefix(settings.headingLevel),
+    getAiApiUrls(frontmatter)[frontmatter.aiService],
+    undefined,
+    false,
+    apiKey,
+    settings
+  );
+
+  const model = response.fallback?.model;
+  const aiServiceName = model && aiProviderFromUrl(undefined, model, getCustomProviderNames(settings));
+  const answeredBy = model ? { ...frontmatter, model, aiService: aiServiceName || frontmatter.aiService } : frontmatter;
+  await recordRequestUsage(services, file, response.usage, answeredBy, aiService, settings);
+  return response.fullString;
+}
+
+/**
+ * Record the token usage and cost of a request besides the chat response (summaries, titles, tool support probes)
+ * The usage is added to the chat's totals in the frontmatter and to the usage ledger, so budgets include it
+ * @param file - Chat note, null for requests outside a chat, which are only added to the ledger
+ * @param frontmatter - Chat frontmatter with the model and AI service that answered
+ */
+export async function recordRequestUsage(
+  services: ServiceContainer,
+  file: TFile | null,
+  usage: TokenUsage | undefined,
+  frontmatter: Pick<MergedFrontmatterConfig, "model" | "aiService">,
+  aiService: AiProviderService,
+  settings: ChatGPT_MDSettings
+): Promise<void> {
+  const { usageService, modelCatalogService } = services;
+  if (!usage) {
+    return;
   }
 
   try {
-    const promises: Promise<string[]>[] = [];
-
-    // Add Ollama promise (always fetched)
-    promises.push(
-      withTimeout(
-        aiService.fetchAvailableModels(urls[AI_SERVICE_OLLAMA], undefined, settingsService.getSettings(), "ollama"),
-        FETCH_MODELS_TIMEOUT_MS,
-        []
-      )
-    );
+    const { model, aiService: provider } = frontmatter;
+    const pricing = aiService.getModelPricing(model) ?? modelCatalogService.getModel(model)?.pricing;
+    const cost = usageService.getCost(model, usage, settings, pricing);
+    await usageService.recordUsage({ file, provider, model, usage, cost }, settings);
+  } catch (error) {
+    console.error("[ChatGPT MD] Error recording token usage:", error);
+  }
+}
 
-    // Add LM Studio promise (always fetched, no API key required)
-    promises.push(
-      withTimeout(
-        aiService.fetchAvailableModels(urls[AI_SERVICE_LMSTUDIO], undefined, settingsService.getSettings(), "lmstudio"),
-        FETCH_MODELS_TIMEOUT_MS,
-        []
-      )
-    );
+/**
+ * Fit messages into the model's context window according to the context_strategy frontmatter
+ * The summarize strategy sends a non-streaming summarization request to the chat model
+ */
+export function fitToContextWindow(
+  services: ServiceContainer,
+  messages: Message[],
+  frontmatter: MergedFrontmatterConfig,
+  aiService: AiProviderService,
+  settings: ChatGPT_MDSettings,
+  apiKey: string,
+  file: TFile | null
+): Promise<Message[]> {
+  const { contextService, modelCatalogService } = services;
 
-    // Conditionally add OpenAI promise
-    if (isValidApiKey(apiKey)) {
-      promises.push(
-        withTimeout(
-          aiService.fetchAvailableModels(urls[AI_SERVICE_OPENAI], apiKey, settingsService.getSettings(), "openai"),
-          FETCH_MODELS_TIMEOUT_MS,
-          []
-        )
-      );
-    }
+  return contextService.fitToContextWindow(messages, {
+    model: frontmatter.model,
+    // The catalog keeps context lengths reported by providers across restarts
+    contextLength:
+      aiService.getContextLength(frontmatter.model) ?? modelCatalogService.getModel(frontmatter.model)?.contextLength,
+    maxOutputTokens: Number(frontmatter.max_tokens) || 0,
+    strategy: contextService.parseStrategy(frontmatter.context_strategy),
+    summarize: (summaryRequest) =>
+      requestSummary(services, aiService, summaryRequest, frontmatter, settings, apiKey, file),
+  });
+}
 
-    // Conditionally add OpenRouter promise
-    if (isValidApiKey(openrouterApiKey)) {
-      promises.push(
-        withTimeout(
-          aiService.fetchAvailableModels(
-            urls[AI_SERVICE_OPENROUTER],
-            openrouterApiKey,
-            settingsService.getSettings(),
-            "openrouter"
-          ),
-          FETCH_MODELS_TIMEOUT_MS,
-          []
-        )
-      );
-    }
+/**
+ * Check the spending budgets of a chat
+ * Shows a warning for budgets near their limit and for budgets that need the disabled usage ledger.
+ * When a budget is exceeded the user can confirm an override, otherwise an error is written to the note.
+ * @param providers - AI services the request goes to, the chat's AI service by default
+ * @returns Whether the request may be sent
+ */
+export async function checkBudgets(
+  services: ServiceContainer,
+  editor: Editor,
+  frontmatter: MergedFrontmatterConfig,
+  settings: ChatGPT_MDSettings,
+  providers?: string[]
+): Promise<boolean> {
+  const { usageService, editorService, app } = services;
+  const statuses = await usageService.getBudgetStatuses(frontmatter, settings, new Date(), providers);
 
-    // Conditionally add Anthropic promise
-    const anthropicApiKey = apiAuthService.getApiKey(settingsService.getSettings(), AI_SERVICE_ANTHROPIC);
-    if (isValidApiKey(anthropicApiKey)) {
-      promises.push(
-        withTimeout(
-          aiService.fetchAvailableModels(
-            urls[AI_SERVICE_ANTHROPIC],
-            anthropicApiKey,
-            settingsService.getSettings(),
-            "anthropic"
-          ),
-          FETCH_MODELS_TIMEOUT_MS,
-          []
-        )
-      );
-    }
+  const unavailable = statuses.filter((status) => status.state === "unavailable");
+  if (unavailable.length > 0) {
+    new Notice(
+      `${PLUGIN_PREFIX} ${unavailable.map((status) => status.name).join(", ")} not checked, ` +
+        "set a Usage Ledger in settings to track spending across chats",
+      NOTICE_DURATION_LONG_MS
+    );
+  }
 
-    // Conditionally add Gemini promise
-    const geminiApiKey = apiAuthService.getApiKey(settingsService.getSettings(), AI_SERVICE_GEMINI);
-    if (isValidApiKey(geminiApiKey)) {
-      promises.push(
-        withTimeout(
-          aiService.fetchAvailableModels(
-            urls[AI_SERVICE_GEMINI],
-            geminiApiKey,
-            settingsService.getSettings(),
-            "gemini"
-          ),
-          FETCH_MODELS_TIMEOUT_MS,
-          []
-        )
-      );
-    }
+  const warnings = statuses.filter((status) => status.state === "warning");
+  if (warnings.length > 0) {
+    new Notice(
+      `${PLUGIN_PREFIX} Approaching spending budget: ${warnings.map(formatBudgetStatus).join(", ")}`,
+      NOTICE_DURATION_LONG_MS
+    );
+  }
 
-    // Conditionally add Z.AI promise
-    const zaiApiKey = apiAuthService.getApiKey(settingsService.getSettings(), AI_SERVICE_ZAI);
-    if (isValidApiKey(zaiApiKey)) {
-      promises.push(
-        withTimeout(
-          aiService.fetchAvailableModels(urls[AI_SERVICE_ZAI], zaiApiKey, settingsService.getSettings(), "zai"),
-          FETCH_MODELS_TIMEOUT_MS,
-          []
-        )
-      );
-    }
+  const exceeded = statuses.filter((status) => status.state === "exceeded");
+  if (exceeded.length === 0) {
+    return true;
+  }
 
-    // Fetch all models in parallel and flatten the results
-    const results = await Promise.all(promises);
-    return results.flat();
-  } catch (error) {
-    // Handle potential errors during fetch or Promise.all
-    new Notice("Error fetching models: " + (error instanceof Error ? error.message : String(error)));
-    console.error("Error fetching models:", error);
-    // Depending on desired behavior, you might return [] or rethrow
-    return []; // Return empty array on error to avoid breaking the modal
+  const modal = new BudgetOverrideModal(app, exceeded);
+  modal.open();
+  if (await modal.waitForModalValue()) {
+    return true;
+  }
+
+  if (!settings.generateAtCursor) {
+    editorService.moveCursorToEnd(editor);
   }
+  editorService.processResponse(
+    editor,
+    { fullString: ErrorMessages.BUDGET.EXCEEDED(exceeded.map(formatBudgetStatus).join(", ")), mode: "non-streaming" },
+    settings
+  );
+  return false;
+}
+
+/**
+ * Get default API URLs for all services from settings
+ */
+export function getDefaultApiUrls(settings: ChatGPT_MDSettings): { [key: string]: string } {
+  return {
+    [AI_SERVICE_OPENAI]: settings.openaiUrl || DEFAULT_OPENAI_CONFIG.url,
+    [AI_SERVICE_OPENROUTER]: settings.openrouterUrl || DEFAULT_OPENROUTER_CONFIG.url,
+    [AI_SERVICE_OLLAMA]: settings.ollamaUrl || DEFAULT_OLLAMA_CONFIG.url,
+    [AI_SERVICE_LMSTUDIO]: settings.lmstudioUrl || DEFAULT_LMSTUDIO_CONFIG.url,
+    [AI_SERVICE_ANTHROPIC]: settings.anthropicUrl || DEFAULT_ANTHROPIC_CONFIG.url,
+    [AI_SERVICE_GEMINI]: settings.geminiUrl || DEFAULT_GEMINI_CONFIG.url,
+    [AI_SERVICE_ZAI]: settings.zaiUrl || DEFAULT_ZAI_CONFIG.url,
+    [AI_SERVICE_AZURE]: settings.azureUrl || DEFAULT_AZURE_CONFIG.url,
+    ...Object.fromEntries(getCustomProviders(settings).map((provider) => [provider.name, provider.url])),
+  };
 }
@@ -0,0 +1,205 @@
+import { Editor, MarkdownView, Notice, TFile } from "obsidian";
+import { ServiceContainer } from "src/core/ServiceContainer";
+import { COMPARE_MODELS_COMMAND_ID, NEWLINE, PLUGIN_PREFIX, ROLE_ASSISTANT, ROLE_USER } from "src/Constants";
+import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
+import { Message } from "src/Models/Message";
+import { TokenUsage } from "src/Models/Usage";
+import { AiProviderService } from "src/Services/AiProviderService";
+import { aiProviderFromUrl } from "src/Utilities/ProviderHelpers";
+import { getCustomProviderNames } from "src/Utilities/CustomProviderHelpers";
+import { getHeaderRole, getHeadingPrefix } from "src/Utilities/TextHelpers";
+import { formatComparisonLabel } from "src/Utilities/UsageHelpers";
+import { ModelMultiSelectModal } from "src/Views/ModelMultiSelectModal";
+import { CommandMetadata, EditorViewCommandHandler, StatusBarManager } from "./CommandHandler";
+import { buildSystemMessages, checkBudgets, fitToContextWindow, getAiApiUrls } from "./CommandUtilities";
+import { ModelSelectHandler } from "./ModelSelectHandler";
+
+/**
+ * Answer of one model in a comparison
+ */
+interface ComparisonResult {
+  model: string;
+  aiService: string;
+  content: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+/**
+ * Handler for sending the conversation to several models at once
+ * Each answer is written under its own assistant header, labeled with its latency, tokens and cost
+ */
+export class CompareModelsHandler implements EditorViewCommandHandler {
+  private statusBarManager: StatusBarManager;
+
+  constructor(
+    private services: ServiceContainer,
+    private modelSelectHandler: ModelSelectHandler
+  ) {
+    this.statusBarManager = new StatusBarManager(services.plugin);
+  }
+
+  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+    const { editorService, settingsService } = this.services;
+    const settings = settingsService.getSettings();
+
+    const availableModels = this.modelSelectHandler.getAvailableModels();
+    if (availableModels.length === 0) {
+      new Notice(`${PLUGIN_PREFIX} No models available yet, try again once the model list has loaded`);
+      return;
+    }
+
+    const modal = new ModelMultiSelectModal(this.services.app, availableModels);
+    modal.open();
+    const models = await modal.waitForModalValue();
+    if (models.length === 0) return;
+
+    try {
+      const frontmatter = await editorService.getFrontmatter(view, settings, this.services.app);
+      const providers = models.map((model) => this.getAiService(model, frontmatter, settings));
+      if (!(await checkBudgets(this.services, editor, frontmatter, settings, providers))) {
+        return;
+      }
+
+      const { messagesWithRole } = await editorService.getMessagesFromEditor(editor, settings, frontmatter);
+      const messages = [...buildSystemMessages(frontmatter), ...messagesWithRole];
+
+      this.statusBarManager.setText(`Comparing ${models.length} models`);
+      const results = await Promise.all(
+        models.map((model) => this.callModel(model, messages, frontmatter, settings, view.file))
+      );
+
+      if (!settings.generateAtCursor) {
+        editorService.moveCursorToEnd(editor);
+      }
+      this.writeResults(editor, results, settings);
+
+      if (view.file) {
+        await this.recordUsage(view.file, results, settings);
+      }
+    } catch (err) {
+      this.services.errorService.handleApiError(err, "CompareModelsHandler.execute", { showNotification: true });
+    } finally {
+      this.statusBarManager.clear();
+    }
+  }
+
+  /**
+   * Get the AI service of a model from its provider prefix, the chat's AI service for models without one
+   */
+  private getAiService(model: string, frontmatter: MergedFrontmatterConfig, settings: ChatGPT_MDSettings): string {
+    return aiProviderFromUrl(undefined, model, getCustomProviderNames(settings)) ?? frontmatter.aiService;
+  }
+
+  /**
+   * Send the conversation to one model with its own AiProviderService instance
+   * The conversation is fitted into the model's context window first.
+   * Errors are returned as the answer so the other models' answers are still written
+   */
+  private async callModel(
+    model: string,
+    messages: Message[],
+    frontmatter: MergedFrontmatterConfig,
+    settings: ChatGPT_MDSettings,
+    file: TFile | null
+  ): Promise<ComparisonResult> {
+    const aiService = this.getAiService(model, frontmatter, settings);
+    const config = { ...frontmatter, model, aiService, stream: false, response_format: undefined };
+    const url = getAiApiUrls(config)[aiService];
+    const apiKey = this.services.apiAuthService.getApiKey(settings, aiService);
+    const aiProviderService = this.services.aiProviderService();
+    const startedAt = Date.now();
+
+    try {
+      const context = await fitToContextWindow(
+        this.services,
+        messages,
+        config,
+        aiProviderService,
+        settings,
+        apiKey,
+        file
+      );
+      const response = await aiProviderService.callAiAPI(
+        context,
+        config,
+        getHeadingPrefix(settings.headingLevel),
+        url,
+        undefined,
+        false,
+        apiKey,
+        settings
+      );
+      const latencyMs = Date.now() - startedAt;
+      const cost = response.usage ? this.getCost(model, response.usage, aiProviderService, settings) : undefined;
+
+      return { model, aiService, content: response.fullString, latencyMs, usage: response.usage, cost };
+    } catch (err) {
+      const content = this.services.errorService.handleApiError(err, "CompareModelsHandler.callModel", {
+        showNotification: false,
+        logToConsole: true,
+        returnForChat: true,
+        context: { model, url },
+      });
+      return { model, aiService, content, latencyMs: Date.now() - startedAt };
+    }
+  }
+
+  /**
+   * Calculate the cost of an answer, with prices reported by the provider or kept in the model catalog
+   */
+  private getCost(
+    model: string,
+    usage: TokenUsage,
+    aiProviderService: AiProviderService,
+    settings: ChatGPT_MDSettings
+  ): number | undefined {
+    const pricing =
+      aiProviderService.getModelPricing(model) ?? this.services.modelCatalogService.getModel(model)?.pricing;
+    return this.services.usageService.getCost(model, usage, settings, pricing);
+  }
+
+  /**
+   * Write the answers under labeled assistant headers, followed by a user header for the next message
+   */
+  private writeResults(editor: Editor, results: ComparisonResult[], settings: ChatGPT_MDSettings): void {
+    const headingPrefix = getHeadingPrefix(settings.headingLevel);
+    const sections = results.map((result) => {
+      const header = getHeaderRole(headingPrefix, ROLE_ASSISTANT, result.model).trimEnd();
+      const label = formatComparisonLabel(result.latencyMs, result.usage, result.cost);
+      return `${header}${label}${NEWLINE}${result.content.trim()}${NEWLINE}`;
+    });
+    const content = `${sections.join("")}${getHeaderRole(headingPrefix, ROLE_USER)}`;
+
+    const cursor = editor.getCursor();
+    editor.replaceRange(content, cursor);
+    editor.setCursor(editor.offsetToPos(editor.posToOffset(cursor) + content.length));
+  }
+
+  /**
+   * Add the usage of every answer to the chat totals and the usage ledger
+   */
+  private async recordUsage(file: TFile, results: ComparisonResult[], settings: ChatGPT_MDSettings): Promise<void> {
+    for (const result of results) {
+      if (!result.usage) continue;
+
+      try {
+        await this.services.usageService.recordUsage(
+          { file, provider: result.aiService, model: result.model, usage: result.usage, cost: result.cost },
+          settings
+        );
+      } catch (error) {
+        console.error("[ChatGPT MD] Error recording token usage:", error);
+      }
+    }
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: COMPARE_MODELS_COMMAND_ID,
+      name: "Compare models",
+      icon: "git-compare",
+    };
+  }
+}
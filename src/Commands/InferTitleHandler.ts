@@ -1,7 +1,7 @@
 import { Editor, MarkdownView, Notice } from "obsidian";
 import { ServiceContainer } from "src/core/ServiceContainer";
 import { AI_SERVICE_OPENROUTER, INFER_TITLE_COMMAND_ID } from "src/Constants";
-import { getAiApiUrls } from "./CommandUtilities";
+import { checkBudgets, getAiApiUrls, recordRequestUsage } from "./CommandUtilities";
 import { CommandMetadata, EditorViewCommandHandler, StatusBarManager } from "./CommandHandler";
 
 /**
@@ -34,6 +34,10 @@ export class InferTitleHandler implements EditorViewCommandHandler {
       return;
     }
 
+    if (!(await checkBudgets(this.services, editor, frontmatter, settings))) {
+      return;
+    }
+
     this.statusBarManager.setText(`Calling ${frontmatter.model}`);
     const { messages } = await editorService.getMessagesFromEditor(editor, settings);
 
@@ -45,7 +49,8 @@ export class InferTitleHandler implements EditorViewCommandHandler {
       url: getAiApiUrls(frontmatter)[frontmatter.aiService],
     };
 
-    await aiService.inferTitle(view, settingsWithApiKey, messages, editorService);
+    const { usage } = await aiService.inferTitle(view, settingsWithApiKey, messages, editorService);
+    await recordRequestUsage(this.services, view.file, usage, frontmatter, aiService, settings);
     this.statusBarManager.clear();
   }
 
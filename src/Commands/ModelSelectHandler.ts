@@ -1,17 +1,20 @@
-import { Editor, MarkdownView } from "obsidian";
+import { Editor, MarkdownView, Notice } from "obsidian";
 import { ServiceContainer } from "src/core/ServiceContainer";
 import { AiModelSuggestModal } from "src/Views/AiModelSuggestModel";
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
   AI_SERVICE_OPENAI,
   AI_SERVICE_OPENROUTER,
   AI_SERVICE_ZAI,
+  REFRESH_MODELS_COMMAND_ID,
 } from "src/Constants";
 import { DEFAULT_ZAI_CONFIG } from "src/Services/DefaultConfigs";
-import { fetchAvailableModels, getAiApiUrls } from "./CommandUtilities";
+import { getAiApiUrls, getDefaultApiUrls } from "./CommandUtilities";
+import { CallbackCommandHandler, CommandMetadata } from "./CommandHandler";
 
 /**
  * Handler for the model selection command
@@ -33,25 +36,16 @@ export class ModelSelectHandler {
    * Execute the model selection command
    */
   async execute(editor: Editor, view: MarkdownView | any): Promise<void> {
-    const { editorService, settingsService, apiAuthService } = this.services;
+    const { editorService, settingsService, modelCatalogService } = this.services;
     const settings = settingsService.getSettings();
 
     // --- Step 1: Open modal immediately with cached models ---
-    const initialModal = new AiModelSuggestModal(
-      this.services.app,
-      editor,
-      editorService,
-      this.availableModels, // Use potentially stale but instantly available models
-      settings
-    );
-    initialModal.open();
+    const initialModal = this.openModal(editor, this.availableModels); // Potentially stale but instantly available
 
     // --- Step 2: Fetch fresh models asynchronously ---
     void (async () => {
       try {
         const frontmatter = await editorService.getFrontmatter(view, settings, this.services.app);
-        const openAiKey = apiAuthService.getApiKey(settings, AI_SERVICE_OPENAI);
-        const openRouterKey = apiAuthService.getApiKey(settings, AI_SERVICE_OPENROUTER);
 
         // Use the same URL structure as initializeAvailableModels
         const currentUrls: { [key: string]: string } = {
@@ -70,17 +64,11 @@ export class ModelSelectHandler {
           [AI_SERVICE_ZAI]: String(
             frontmatter.zaiUrl || settings.zaiUrl || getAiApiUrls(frontmatter).zai || DEFAULT_ZAI_CONFIG.url
           ),
+          [AI_SERVICE_AZURE]: String(frontmatter.azureUrl || settings.azureUrl || getAiApiUrls(frontmatter).azure),
         };
 
-        const aiService = this.services.aiProviderService();
-        const freshModels = await fetchAvailableModels(
-          aiService,
-          currentUrls,
-          openAiKey,
-          openRouterKey,
-          apiAuthService,
-          settingsService
-        );
+        // Fetches the model lists that are older than their refresh interval
+        const freshModels = await modelCatalogService.refresh(currentUrls);
 
         // --- Step 3: Compare and potentially update modal ---
         // Basic comparison: Check if lengths differ or if sets of models differ
@@ -96,7 +84,7 @@ export class ModelSelectHandler {
 
           // Close the initial modal and open a new one with fresh data
           initialModal.close();
-          new AiModelSuggestModal(this.services.app, editor, editorService, this.availableModels, settings).open();
+          this.openModal(editor, this.availableModels);
         }
       } catch (e) {
         // Don't close the initial modal here, as it might still be useful
@@ -106,6 +94,24 @@ export class ModelSelectHandler {
     })(); // Self-invoking async function to run in background
   }
 
+  /**
+   * Open the model picker with the given models
+   */
+  private openModal(editor: Editor, modelNames: string[]): AiModelSuggestModal {
+    const { app, editorService, settingsService, modelCatalogService } = this.services;
+    const modal = new AiModelSuggestModal(
+      app,
+      editor,
+      editorService,
+      modelNames,
+      settingsService.getSettings(),
+      settingsService,
+      modelCatalogService
+    );
+    modal.open();
+    return modal;
+  }
+
   /**
    * Get the cached available models list
    */
@@ -115,37 +121,55 @@ export class ModelSelectHandler {
 
   /**
    * Initialize available models on plugin startup
+   * The cached model catalog is available immediately, stale model lists are fetched in the background
    */
   async initializeAvailableModels(): Promise<void> {
     try {
-      const { settingsService, apiAuthService } = this.services;
-      const settings = settingsService.getSettings();
-      const openAiKey = apiAuthService.getApiKey(settings, AI_SERVICE_OPENAI);
-      const openRouterKey = apiAuthService.getApiKey(settings, AI_SERVICE_OPENROUTER);
+      const { settingsService, modelCatalogService } = this.services;
 
       // Use default URLs for initialization, assuming frontmatter isn't available yet
-      const defaultUrls = {
-        [AI_SERVICE_OPENAI]: settings.openaiUrl || getAiApiUrls({}).openai,
-        [AI_SERVICE_OPENROUTER]: settings.openrouterUrl || getAiApiUrls({}).openrouter,
-        [AI_SERVICE_OLLAMA]: settings.ollamaUrl || getAiApiUrls({}).ollama,
-        [AI_SERVICE_LMSTUDIO]: settings.lmstudioUrl || getAiApiUrls({}).lmstudio,
-        [AI_SERVICE_ANTHROPIC]: settings.anthropicUrl || getAiApiUrls({}).anthropic,
-        [AI_SERVICE_GEMINI]: settings.geminiUrl || getAiApiUrls({}).gemini,
-        [AI_SERVICE_ZAI]: settings.zaiUrl || getAiApiUrls({}).zai || DEFAULT_ZAI_CONFIG.url,
-      };
-
-      const aiService = this.services.aiProviderService();
-      this.availableModels = await fetchAvailableModels(
-        aiService,
-        defaultUrls,
-        openAiKey,
-        openRouterKey,
-        apiAuthService,
-        settingsService
-      );
+      const defaultUrls = getDefaultApiUrls(settingsService.getSettings());
+
+      this.availableModels = modelCatalogService.getModelIds(defaultUrls);
+      this.availableModels = await modelCatalogService.refresh(defaultUrls);
     } catch (error) {
       console.error("[ChatGPT MD] Error initializing available models:", error);
-      this.availableModels = []; // Ensure it's an empty array on error
     }
   }
+
+  /**
+   * Fetch the model lists of all providers, regardless of their refresh interval
+   * @returns Number of available models
+   */
+  async refreshAvailableModels(): Promise<number> {
+    const { settingsService, modelCatalogService } = this.services;
+    this.availableModels = await modelCatalogService.refresh(getDefaultApiUrls(settingsService.getSettings()), true);
+    return this.availableModels.length;
+  }
+}
+
+/**
+ * Handler for refreshing the model catalog
+ */
+export class RefreshModelsHandler implements CallbackCommandHandler {
+  constructor(private modelSelectHandler: ModelSelectHandler) {}
+
+  async execute(): Promise<void> {
+    new Notice("Refreshing model list...");
+    try {
+      const count = await this.modelSelectHandler.refreshAvailableModels();
+      new Notice(`Model list refreshed: ${count} models`);
+    } catch (error) {
+      console.error("[ChatGPT MD] Error refreshing models:", error);
+      new Notice("Error refreshing model list. See the console for details.");
+    }
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: REFRESH_MODELS_COMMAND_ID,
+      name: "Refresh model list",
+      icon: "refresh-cw",
+    };
+  }
 }
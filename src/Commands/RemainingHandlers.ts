@@ -1,7 +1,35 @@
-import { Editor, Notice } from "obsidian";
+import { Editor, MarkdownView, Notice, TFile } from "obsidian";
 import { ServiceContainer } from "src/core/ServiceContainer";
-import { CHOOSE_CHAT_TEMPLATE_COMMAND_ID, CLEAR_CHAT_COMMAND_ID, MOVE_TO_CHAT_COMMAND_ID } from "src/Constants";
-import { CallbackCommandHandler, CommandMetadata, EditorCommandHandler } from "./CommandHandler";
+import {
+  CHAT_FOLDER_TYPE,
+  CHOOSE_CHAT_TEMPLATE_COMMAND_ID,
+  CLEAR_CHAT_COMMAND_ID,
+  COMPACT_CHAT_COMMAND_ID,
+  DEFAULT_COMPACT_KEEP_EXCHANGES,
+  FORK_CHAT_COMMAND_ID,
+  MOVE_TO_CHAT_COMMAND_ID,
+  PLUGIN_PREFIX,
+  ROLE_ASSISTANT,
+  ROLE_USER,
+} from "src/Constants";
+import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
+import {
+  buildSummaryBlock,
+  getMessageEndOffset,
+  getMessageSectionRole,
+  splitChatForCompaction,
+  splitMessages,
+} from "src/Utilities/MessageHelpers";
+import { getHeaderRole, getHeadingPrefix } from "src/Utilities/TextHelpers";
+import { getYAMLFrontMatterEnd } from "src/Utilities/YamlHelpers";
+import {
+  CallbackCommandHandler,
+  CommandMetadata,
+  EditorCommandHandler,
+  EditorViewCommandHandler,
+  StatusBarManager,
+} from "./CommandHandler";
+import { checkBudgets, requestSummary } from "./CommandUtilities";
 
 /**
  * Handler for creating a new chat with highlighted text
@@ -75,3 +103,216 @@ export class ClearChatHandler implements EditorCommandHandler {
     };
   }
 }
+
+/**
+ * Handler for compacting a long chat
+ * Replaces all but the last exchanges with a summary and moves the originals to an archive note
+ */
+export class CompactChatHandler implements EditorViewCommandHandler {
+  private statusBarManager: StatusBarManager;
+
+  constructor(private services: ServiceContainer) {
+    this.statusBarManager = new StatusBarManager(services.plugin);
+  }
+
+  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+    const { editorService, settingsService } = this.services;
+    const settings = settingsService.getSettings();
+    const file = view.file;
+    if (!file) return;
+
+    if (!settings.chatFolder || settings.chatFolder.trim() === "") {
+      new Notice(`${PLUGIN_PREFIX} No chat folder value found. Please set one in settings.`);
+      return;
+    }
+
+    const frontmatter = await editorService.getFrontmatter(view, settings, this.services.app);
+    if (!(await checkBudgets(this.services, editor, frontmatter, settings))) return;
+
+    const text = editor.getValue();
+    const bodyStart = getYAMLFrontMatterEnd(text);
+    const keepExchanges = this.getKeepExchanges(frontmatter);
+    const parts = splitChatForCompaction(text.substring(bodyStart), keepExchanges);
+    if (!parts) {
+      new Notice(`${PLUGIN_PREFIX} Nothing to compact before the last ${keepExchanges} exchanges`);
+      return;
+    }
+
+    this.statusBarManager.setText(`Compacting chat with ${frontmatter.model}`);
+    try {
+      const summary = await this.summarize(parts.compacted, frontmatter, settings, file);
+
+      // The summary request is slow; don't overwrite edits made in the meantime
+      if (editor.getValue() !== text) {
+        new Notice(`${PLUGIN_PREFIX} The chat changed while compacting, nothing was replaced`);
+        return;
+      }
+
+      const archive = await this.archiveMessages(file, parts.compacted, settings);
+      if (!archive) return;
+
+      const archiveLink = this.services.app.fileManager.generateMarkdownLink(archive, file.path);
+      const messageCount = splitMessages(parts.compacted).length;
+      const summaryBlock = buildSummaryBlock(summary, `${messageCount} earlier messages, originals in ${archiveLink}`);
+      editor.replaceRange(
+        `${summaryBlock}\n${parts.kept}`,
+        editor.offsetToPos(bodyStart),
+        editor.offsetToPos(text.length)
+      );
+      new Notice(`${PLUGIN_PREFIX} Compacted ${messageCount} messages into a summary`);
+    } catch (err) {
+      this.services.errorService.handleApiError(err, "CompactChatHandler.execute", { showNotification: true });
+    } finally {
+      this.statusBarManager.clear();
+    }
+  }
+
+  /**
+   * Get the number of exchanges kept as they are
+   * The compact_keep_exchanges frontmatter value must be a whole number of 0 or more, otherwise the default is used
+   */
+  private getKeepExchanges(frontmatter: MergedFrontmatterConfig): number {
+    const exchanges = Number(frontmatter.compact_keep_exchanges ?? DEFAULT_COMPACT_KEEP_EXCHANGES);
+    return Number.isInteger(exchanges) && exchanges >= 0 ? exchanges : DEFAULT_COMPACT_KEEP_EXCHANGES;
+  }
+
+  /**
+   * Summarize the compacted messages with the chat model
+   */
+  private async summarize(
+    compacted: string,
+    frontmatter: MergedFrontmatterConfig,
+    settings: ChatGPT_MDSettings,
+    file: TFile
+  ): Promise<string> {
+    const { messageService, contextService, apiAuthService } = this.services;
+    const messages = messageService.cleanMessages(compacted).map((msg) => messageService.extractRoleAndMessage(msg));
+    const apiKey = apiAuthService.getApiKey(settings, frontmatter.aiService);
+
+    const summary = await requestSummary(
+      this.services,
+      this.services.aiProviderService(),
+      contextService.buildSummaryRequest(messages),
+      frontmatter,
+      settings,
+      apiKey,
+      file
+    );
+    if (!summary.trim()) {
+      throw new Error("The model returned an empty summary");
+    }
+    return summary;
+  }
+
+  /**
+   * Save the original messages to a new note in the chat folder
+   * @returns The archive note, or null if the chat folder is not available
+   */
+  private async archiveMessages(file: TFile, compacted: string, settings: ChatGPT_MDSettings): Promise<TFile | null> {
+    const { fileService } = this.services;
+    if (!(await fileService.ensureFolderExists(settings.chatFolder, CHAT_FOLDER_TYPE))) {
+      return null;
+    }
+
+    const date = fileService.formatDate(new Date(), settings.dateFormat);
+    const archivePath = await fileService.getAvailableFilePath(
+      settings.chatFolder,
+      fileService.sanitizeFileName(`${file.basename} archive ${date}`)
+    );
+    const sourceLink = this.services.app.fileManager.generateMarkdownLink(file, archivePath);
+
+    return fileService.createNewFile(archivePath, `---\narchived_from: "${sourceLink}"\n---\n\n${compacted.trim()}\n`);
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: COMPACT_CHAT_COMMAND_ID,
+      name: "Compact chat (summarize older messages)",
+      icon: "fold-vertical",
+    };
+  }
+}
+
+/**
+ * Handler for forking a chat at the message under the cursor
+ * The fork is a new note in the chat folder; parent and fork are linked via forked_from and forks frontmatter
+ */
+export class ForkChatHandler implements EditorViewCommandHandler {
+  constructor(private services: ServiceContainer) {}
+
+  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+    const settings = this.services.settingsService.getSettings();
+    const file = view.file;
+    if (!file) return;
+
+    if (!settings.chatFolder || settings.chatFolder.trim() === "") {
+      new Notice(`${PLUGIN_PREFIX} No chat folder value found. Please set one in settings.`);
+      return;
+    }
+
+    const text = editor.getValue();
+    const bodyStart = getYAMLFrontMatterEnd(text);
+    const cursorOffset = editor.posToOffset(editor.getCursor());
+    if (cursorOffset < bodyStart) {
+      new Notice(`${PLUGIN_PREFIX} Place the cursor in the message to fork the chat from`);
+      return;
+    }
+
+    // Frontmatter and all messages up to and including the one under the cursor
+    const forkEnd = bodyStart + getMessageEndOffset(text.substring(bodyStart), cursorOffset - bodyStart);
+
+    try {
+      const fork = await this.createFork(file, text.substring(0, forkEnd), settings);
+      if (!fork) return;
+
+      await this.linkFork(file, fork);
+      await this.services.app.workspace.openLinkText(fork.path, "", true, { state: { mode: "source" } });
+    } catch (err) {
+      console.error(`[ChatGPT MD] Error in Fork chat`, err);
+      new Notice(`[ChatGPT MD] Error in Fork chat, check console`);
+    }
+  }
+
+  /**
+   * Create the fork note, ending with a user heading when the last message is an assistant response
+   */
+  private async createFork(file: TFile, content: string, settings: ChatGPT_MDSettings): Promise<TFile | null> {
+    const { fileService } = this.services;
+    if (!(await fileService.ensureFolderExists(settings.chatFolder, CHAT_FOLDER_TYPE))) {
+      return null;
+    }
+
+    const forkPath = await fileService.getAvailableFilePath(
+      settings.chatFolder,
+      fileService.sanitizeFileName(`${file.basename} fork`)
+    );
+
+    const lastRole = getMessageSectionRole(splitMessages(content).pop() ?? "");
+    const ending =
+      lastRole === ROLE_ASSISTANT ? getHeaderRole(getHeadingPrefix(settings.headingLevel), ROLE_USER) : "\n";
+
+    return fileService.createNewFile(forkPath, `${content.trimEnd()}${ending}`);
+  }
+
+  /**
+   * Link parent and fork: forked_from on the fork, forks list on the parent
+   */
+  private async linkFork(parent: TFile, fork: TFile): Promise<void> {
+    const { app, frontmatterManager } = this.services;
+    const linkTo = (target: TFile, source: TFile) =>
+      `[[${app.metadataCache.fileToLinktext(target, source.path, true)}]]`;
+
+    // The fork starts without the parent's own branch links
+    await frontmatterManager.removeFrontmatterField(fork, "forks");
+    await frontmatterManager.updateFrontmatterField(fork, "forked_from", linkTo(parent, fork));
+    await frontmatterManager.appendToFrontmatterList(parent, "forks", linkTo(fork, parent));
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: FORK_CHAT_COMMAND_ID,
+      name: "Fork chat here",
+      icon: "git-fork",
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { Editor, MarkdownView, Notice } from "obsidian";
+import { ServiceContainer } from "src/core/ServiceContainer";
+import {
+  COMMENT_BLOCK_END,
+  COMMENT_BLOCK_START,
+  PLUGIN_PREFIX,
+  RESEND_MESSAGE_COMMAND_ID,
+  ROLE_USER,
+} from "src/Constants";
+import { formatArchivedMessages, getMessageSectionRole, getMessageSections } from "src/Utilities/MessageHelpers";
+import { getYAMLFrontMatterEnd } from "src/Utilities/YamlHelpers";
+import { CommandMetadata, EditorViewCommandHandler } from "./CommandHandler";
+import { ChatHandler } from "./ChatHandler";
+
+/**
+ * Handler for resending the user message under the cursor
+ * Removes all later messages (or archives them in a comment block) and runs the chat again from that message
+ */
+export class ResendMessageHandler implements EditorViewCommandHandler {
+  constructor(
+    private services: ServiceContainer,
+    private chatHandler: ChatHandler
+  ) {}
+
+  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+    const settings = this.services.settingsService.getSettings();
+    const text = editor.getValue();
+    const cursor = editor.posToOffset(editor.getCursor());
+
+    const message = getMessageSections(text).find((section) => cursor >= section.start && cursor <= section.end);
+    if (!message || cursor < getYAMLFrontMatterEnd(text) || getMessageSectionRole(message.text) !== ROLE_USER) {
+      new Notice(`${PLUGIN_PREFIX} Place the cursor in a user message to resend it`);
+      return;
+    }
+
+    const cutOffset = text.substring(0, message.end).trimEnd().length;
+    const removed = text.substring(cutOffset);
+    const archive =
+      settings.archiveOnResend && removed.trim()
+        ? `\n\n${COMMENT_BLOCK_START}${formatArchivedMessages(removed)}\n${COMMENT_BLOCK_END}`
+        : "";
+
+    editor.replaceRange(archive, editor.offsetToPos(cutOffset), editor.offsetToPos(text.length));
+    editor.setCursor(editor.offsetToPos(editor.getValue().length));
+
+    await this.chatHandler.execute(editor, view);
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: RESEND_MESSAGE_COMMAND_ID,
+      name: "Resend message (remove later messages)",
+      icon: "send",
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { Editor, MarkdownView, Notice } from "obsidian";
+import { ServiceContainer } from "src/core/ServiceContainer";
+import { PLUGIN_PREFIX, PROBE_ALL_TOOL_SUPPORT_COMMAND_ID, PROBE_TOOL_SUPPORT_COMMAND_ID } from "src/Constants";
+import { ChatGPT_MDSettings } from "src/Models/Config";
+import { ToolProbeResult } from "src/Models/ToolProbe";
+import { TokenUsage } from "src/Models/Usage";
+import { formatToolProbeSummary, getUnprobedModels } from "src/Utilities/ToolProbeHelpers";
+import { ToolProbeConfirmModal } from "src/Views/ToolProbeConfirmModal";
+import { CallbackCommandHandler, CommandMetadata, EditorViewCommandHandler, StatusBarManager } from "./CommandHandler";
+import { getAiApiUrls, getDefaultApiUrls, recordRequestUsage } from "./CommandUtilities";
+import { ModelSelectHandler } from "./ModelSelectHandler";
+
+/**
+ * Describe a probe result for a notice
+ */
+function formatProbeResult(model: string, result: ToolProbeResult): string {
+  switch (result.status) {
+    case "supported":
+      return `${model} supports tools`;
+    case "unsupported":
+      return `${model} does not support tools`;
+    case "error":
+      return `Could not probe ${model}: ${result.error}`;
+  }
+}
+
+/**
+ * Record the token usage of probes in the usage ledger, so spending budgets include them
+ */
+function recordProbeUsage(
+  services: ServiceContainer,
+  settings: ChatGPT_MDSettings
+): (model: string, usage: TokenUsage) => Promise<void> {
+  const aiService = services.aiProviderService();
+  return (model, usage) =>
+    recordRequestUsage(
+      services,
+      null,
+      usage,
+      { model, aiService: services.toolProbeService.getProvider(model) },
+      aiService,
+      settings
+    );
+}
+
+/**
+ * Handler for probing the note's model for tool support
+ */
+export class ProbeToolSupportHandler implements EditorViewCommandHandler {
+  constructor(private services: ServiceContainer) {}
+
+  async execute(editor: Editor, view: MarkdownView): Promise<void> {
+    const { editorService, settingsService, toolProbeService } = this.services;
+    const settings = settingsService.getSettings();
+    const frontmatter = await editorService.getFrontmatter(view, settings, this.services.app);
+
+    new Notice(`${PLUGIN_PREFIX} Probing tool support of ${frontmatter.model}...`);
+    const [result] = await toolProbeService.probe([frontmatter.model], getAiApiUrls(frontmatter), {
+      onUsage: recordProbeUsage(this.services, settings),
+    });
+    new Notice(`${PLUGIN_PREFIX} ${formatProbeResult(frontmatter.model, result)}`);
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: PROBE_TOOL_SUPPORT_COMMAND_ID,
+      name: "Probe tool support of current model",
+      icon: "wrench",
+    };
+  }
+}
+
+/**
+ * Handler for probing all models in the model list for tool support
+ * Models with a supported or unsupported result are skipped, so running it again continues where it stopped.
+ * Running it while probes are in progress stops them.
+ */
+export class ProbeAllToolSupportHandler implements CallbackCommandHandler {
+  private statusBarManager: StatusBarManager;
+  private abortController: AbortController | null = null;
+
+  constructor(
+    private services: ServiceContainer,
+    private modelSelectHandler: ModelSelectHandler
+  ) {
+    this.statusBarManager = new StatusBarManager(services.plugin);
+  }
+
+  async execute(): Promise<void> {
+    const { settingsService, toolProbeService } = this.services;
+    const settings = settingsService.getSettings();
+
+    if (this.abortController) {
+      this.abortController.abort();
+      new Notice(`${PLUGIN_PREFIX} Stopping tool support probes...`);
+      return;
+    }
+
+    const models = getUnprobedModels(this.modelSelectHandler.getAvailableModels(), settings.toolProbeResults);
+    if (models.length === 0) {
+      new Notice(`${PLUGIN_PREFIX} All models in the model list have been probed`);
+      return;
+    }
+
+    if (!(await this.confirm(models, settings))) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    new Notice(`${PLUGIN_PREFIX} Probing tool support of ${models.length} models...`);
+    try {
+      const results = await toolProbeService.probe(models, getDefaultApiUrls(settings), {
+        onProgress: (model, index) => this.statusBarManager.setText(`Probing ${model} (${index + 1}/${models.length})`),
+        onUsage: recordProbeUsage(this.services, settings),
+        abortSignal: abortController.signal,
+      });
+      const outcome = abortController.signal.aborted ? "Tool support probes stopped" : "Tool support probed";
+      new Notice(`${PLUGIN_PREFIX} ${outcome}: ${formatToolProbeSummary(results)}`);
+    } finally {
+      this.abortController = null;
+      this.statusBarManager.clear();
+    }
+  }
+
+  /**
+   * Ask before sending a request to each model, showing the spending budgets near or over their limit
+   */
+  private async confirm(models: string[], settings: ChatGPT_MDSettings): Promise<boolean> {
+    const { usageService, toolProbeService, app } = this.services;
+    const providers = models.map((model) => toolProbeService.getProvider(model));
+    const statuses = await usageService.getBudgetStatuses({}, settings, new Date(), providers);
+    const budgets = statuses.filter((status) => status.state === "warning" || status.state === "exceeded");
+
+    const modal = new ToolProbeConfirmModal(app, models.length, budgets);
+    modal.open();
+    return modal.waitForModalValue();
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: PROBE_ALL_TOOL_SUPPORT_COMMAND_ID,
+      name: "Probe tool support of all models",
+      icon: "wrench",
+    };
+  }
+}
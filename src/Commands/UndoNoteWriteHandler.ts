@@ -0,0 +1,27 @@
+import { ServiceContainer } from "src/core/ServiceContainer";
+import { UNDO_NOTE_WRITE_COMMAND_ID } from "src/Constants";
+import { CallbackCommandHandler, CommandMetadata } from "./CommandHandler";
+
+/**
+ * Handler for undoing the last note written by the note_create or note_append tool
+ */
+export class UndoNoteWriteHandler implements CallbackCommandHandler {
+  constructor(private services: ServiceContainer) {}
+
+  async execute(): Promise<void> {
+    const { toolService, notificationService } = this.services;
+    try {
+      notificationService.showSuccess(await toolService.undoLastNoteWrite());
+    } catch (error) {
+      notificationService.showWarning(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  getCommand(): CommandMetadata {
+    return {
+      id: UNDO_NOTE_WRITE_COMMAND_ID,
+      name: "Undo last note change",
+      icon: "undo-2",
+    };
+  }
+}
@@ -10,6 +10,7 @@ export const AI_SERVICE_LMSTUDIO = "lmstudio" as const;
 export const AI_SERVICE_ANTHROPIC = "anthropic" as const;
 export const AI_SERVICE_GEMINI = "gemini" as const;
 export const AI_SERVICE_ZAI = "zai" as const;
+export const AI_SERVICE_AZURE = "azure" as const;
 
 // Array of all AI services
 export const AI_SERVICES = [
@@ -20,11 +21,21 @@ export const AI_SERVICES = [
   AI_SERVICE_ANTHROPIC,
   AI_SERVICE_GEMINI,
   AI_SERVICE_ZAI,
+  AI_SERVICE_AZURE,
 ] as const;
 
 // Type derived from AI service constants
 export type AiServiceType = (typeof AI_SERVICES)[number];
 
+// Custom OpenAI-compatible providers
+export const DEFAULT_CUSTOM_PROVIDER_PATH_SUFFIX = "/v1";
+export const DEFAULT_CUSTOM_PROVIDER_MODELS_ENDPOINT = "/v1/models";
+export const RESERVED_PROVIDER_NAMES = ["local"]; // Legacy model prefix of Ollama
+
+// Azure OpenAI
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+export const AZURE_DEPLOYMENTS_API_VERSION = "2022-12-01"; // Last GA version with the deployment list endpoint
+
 // API endpoints for each service
 export const API_ENDPOINTS = {
   [AI_SERVICE_OPENAI]: "/v1/chat/completions",
@@ -43,6 +54,17 @@ export const MOVE_TO_CHAT_COMMAND_ID = "move-to-chat";
 export const INFER_TITLE_COMMAND_ID = "infer-title";
 export const CHOOSE_CHAT_TEMPLATE_COMMAND_ID = "choose-chat-template";
 export const CLEAR_CHAT_COMMAND_ID = "clear-chat";
+export const COMPACT_CHAT_COMMAND_ID = "compact-chat";
+export const FORK_CHAT_COMMAND_ID = "fork-chat";
+export const REGENERATE_RESPONSE_COMMAND_ID = "regenerate-response";
+export const NEXT_ALTERNATIVE_COMMAND_ID = "next-alternative-response";
+export const PROMOTE_ALTERNATIVE_COMMAND_ID = "promote-alternative-response";
+export const RESEND_MESSAGE_COMMAND_ID = "resend-message";
+export const COMPARE_MODELS_COMMAND_ID = "compare-models";
+export const REFRESH_MODELS_COMMAND_ID = "refresh-models";
+export const PROBE_TOOL_SUPPORT_COMMAND_ID = "probe-tool-support";
+export const PROBE_ALL_TOOL_SUPPORT_COMMAND_ID = "probe-tool-support-all";
+export const UNDO_NOTE_WRITE_COMMAND_ID = "undo-note-write";
 
 export const CHAT_ERROR_MESSAGE_401 =
   "I am sorry. There was an authorization issue with the external API (Status 401).\nPlease check your API key in the settings or set your default model in the settings if you use Ollama or LM Studio";
@@ -63,6 +85,34 @@ export const CREATE_AGENT_COMMAND_ID = "create-agent";
 export const NEWLINE = "\n\n";
 export const WIKI_LINKS_REGEX = /\[\[([^\][]+)\]\]/g;
 export const MARKDOWN_LINKS_REGEX = /\[([^\]]+)\]\(([^()]+)\)/g;
+export const WIKI_EMBEDS_REGEX = /!\[\[([^\][]+)\]\]/g;
+export const MARKDOWN_EMBEDS_REGEX = /!\[[^\]]*\]\(([^()]+)\)/g;
+
+// Image embeds sent to vision models as image parts
+export const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+export const DEFAULT_MAX_IMAGE_SIZE_MB = 20; // Per-chat cap for all embedded images combined
+
+// Linked file extraction limits
+export const CSV_MAX_ROWS = 100; // Data rows rendered from linked CSV files
+export const DEFAULT_LINK_DEPTH = 1; // Only links written in the chat are expanded
+export const DEFAULT_LINK_TOKEN_BUDGET = 100000; // Estimated tokens of linked content per request
+
+// Context window strategies (context_strategy frontmatter)
+export const CONTEXT_STRATEGY_TRUNCATE = "truncate";
+export const CONTEXT_STRATEGY_ERROR = "error";
+export const CONTEXT_STRATEGY_SUMMARIZE = "summarize";
+export const CONTEXT_STRATEGIES = [
+  CONTEXT_STRATEGY_TRUNCATE,
+  CONTEXT_STRATEGY_ERROR,
+  CONTEXT_STRATEGY_SUMMARIZE,
+] as const;
+export type ContextStrategy = (typeof CONTEXT_STRATEGIES)[number];
 
 export const COMMENT_BLOCK_START = `=begin-chatgpt-md-comment${NEWLINE}`;
 export const COMMENT_BLOCK_END = `=end-chatgpt-md-comment`;
@@ -133,6 +183,53 @@ Create a comprehensive system prompt that includes:
 
 The prompt should be thorough (200-500 words), well-structured, and immediately usable without modification. Use clear language and avoid vague instructions.`;
 
+// Prompt used to summarize older chat messages
+export const SUMMARIZE_CONVERSATION_PROMPT = `Summarize the following conversation so it can replace the original messages as context for continuing the chat. Keep all facts, decisions, open questions, names, numbers and code identifiers that later messages may depend on. Write the summary as concise Markdown bullet points, without any introduction.`;
+export const CONVERSATION_SUMMARY_PREFIX = "Summary of the earlier conversation:";
+
+// Alternative responses kept by the regenerate command (excluded from the chat context)
+export const ALTERNATIVES_CALLOUT_TYPE = "alternatives";
+export const ALTERNATIVE_CALLOUT_TYPE = "alternative";
+
+// Reasoning streamed into a collapsed callout above the answer (excluded from the chat context)
+export const THINKING_CALLOUT_TYPE = "thinking";
+// Thinking budgets in tokens for providers that only accept a budget, by reasoning_effort
+export const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+  minimal: 1024,
+  low: 2048,
+  medium: 8192,
+  high: 16384,
+};
+
+// Tool calls persisted in assistant messages
+export const TOOL_CALL_CALLOUT_TYPE = "tool";
+export const DEFAULT_MAX_TOOL_STEPS = 5; // Rounds of tool calls per response
+export const TOOL_PROBE_DELAY_MS = 2000; // Pause between tool support probes, to stay within rate limits
+export const TOOL_PROBE_TOOL_NAME = "get_current_time";
+export const TOOL_PROBE_PROMPT = `What time is it? Call the ${TOOL_PROBE_TOOL_NAME} tool to find out.`;
+
+// Structured output
+export const RESPONSE_FORMAT_JSON = "json"; // response_format value for JSON without a schema
+
+// Token usage and cost tracking
+export const DEFAULT_USAGE_LEDGER_PATH = "ChatGPT_MD/usage-ledger.json";
+export const DEFAULT_BUDGET_WARNING_THRESHOLD = 80; // Percentage of a spending budget at which to warn
+
+// Retrying rate-limited and failed requests
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3; // Attempts per model, including the first request
+export const DEFAULT_RETRY_BASE_DELAY = 2; // Seconds before the first retry, doubled for each further retry
+export const DEFAULT_RETRY_MAX_DELAY = 60; // Longest wait in seconds; longer Retry-After values are not waited for
+export const RETRY_JITTER = 0.2; // Random spread of backoff delays (±20%)
+
+// Model catalog
+export const DEFAULT_MODEL_CATALOG_TTL_HOURS = 24; // Hours before a provider's model list is fetched again
+export const DEFAULT_MODEL_CATALOG_PROVIDER_TTLS = "ollama: 0\nlmstudio: 0"; // Local servers are fetched every time
+export const MAX_RECENT_MODELS = 5; // Recently selected models pinned at the top of the model picker
+
+// Compact chat command
+export const CONVERSATION_SUMMARY_MARKER = "chatgpt-md-summary"; // First line of the summary comment block
+export const DEFAULT_COMPACT_KEEP_EXCHANGES = 2; // Exchanges kept verbatim below the summary
+
 // Truncation error messages
 export const TRUNCATION_ERROR_FULL =
   "⚠️ **Response was truncated due to token limit.** Please increase the `max_tokens` setting in ChatGPT MD plugin settings to get the complete response.";
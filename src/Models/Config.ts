@@ -1,11 +1,21 @@
 import {
+  DEFAULT_AZURE_API_VERSION,
+  DEFAULT_BUDGET_WARNING_THRESHOLD,
   DEFAULT_DATE_FORMAT,
   DEFAULT_HEADING_LEVEL,
   DEFAULT_INFER_TITLE_LANGUAGE,
+  DEFAULT_MAX_TOOL_STEPS,
+  DEFAULT_MODEL_CATALOG_PROVIDER_TTLS,
+  DEFAULT_MODEL_CATALOG_TTL_HOURS,
+  DEFAULT_RETRY_BASE_DELAY,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY,
+  DEFAULT_USAGE_LEDGER_PATH,
   PLUGIN_SYSTEM_MESSAGE,
 } from "../Constants";
 import {
   DEFAULT_ANTHROPIC_CONFIG,
+  DEFAULT_AZURE_CONFIG,
   DEFAULT_GEMINI_CONFIG,
   DEFAULT_LMSTUDIO_CONFIG,
   DEFAULT_OLLAMA_CONFIG,
@@ -14,6 +24,8 @@ import {
   DEFAULT_ZAI_CONFIG,
 } from "src/Services/DefaultConfigs";
 import { getDefaultToolWhitelist } from "src/Services/ToolSupportDetector";
+import { ModelCatalog } from "./ModelCatalog";
+import { ToolProbeResults } from "./ToolProbe";
 
 /**
  * Generate default chat front matter using service provider defaults
@@ -40,6 +52,7 @@ temperature: ${DEFAULT_OPENAI_CONFIG.temperature}
  * - openrouterApiKey: Used for OpenRouter API authentication
  * - anthropicApiKey: Used for Anthropic API authentication (x-api-key header)
  * - geminiApiKey: Used for Gemini API authentication (x-goog-api-key header)
+ * - azureApiKey: Used for Azure OpenAI authentication (api-key header)
  */
 export interface ApiKeySettings {
   /** API Key for OpenAI - used for OpenAI API calls */
@@ -52,6 +65,8 @@ export interface ApiKeySettings {
   geminiApiKey: string;
   /** API Key for Z.AI - used for GLM models (both Standard API and Coding Plan) */
   zaiApiKey: string;
+  /** API Key for Azure OpenAI - used for deployments of the Azure OpenAI resource */
+  azureApiKey: string;
 }
 
 /**
@@ -76,10 +91,26 @@ export interface ChatBehaviorSettings {
   generateAtCursor: boolean;
   /** Whether to automatically infer title after 4 messages have been exchanged */
   autoInferTitle: boolean;
+  /** Whether resending a message keeps the removed later messages in a comment block */
+  archiveOnResend: boolean;
+  /** Comma-separated models tried in order when a request fails, overridden by fallback_models in frontmatter */
+  fallbackModels: string;
+  /** Attempts per model for network errors, rate limits and server errors, including the first request */
+  retryMaxAttempts: number;
+  /** Seconds before the first retry, doubled for each further retry */
+  retryBaseDelay: number;
+  /** Longest wait before a retry in seconds */
+  retryMaxDelay: number;
   /** Whether to enable AI tool calling (vault search, file read) */
   enableToolCalling: boolean;
+  /** Whether the AI may create notes and append to notes (note_create, note_append), each write needs approval */
+  enableNoteWriteTools: boolean;
   /** Whitelist of model patterns that can use tools - supports wildcards like gpt-4* */
   toolEnabledModels: string;
+  /** Tool support measured by probing models, consulted before toolEnabledModels */
+  toolProbeResults: ToolProbeResults;
+  /** Maximum rounds of tool calls per response, overridden by max_tool_steps in frontmatter */
+  maxToolSteps: number;
   /** Enable debug mode for detailed logging */
   debugMode: boolean;
   /** System message that provides context about the Obsidian/ChatGPT MD plugin environment */
@@ -171,6 +202,18 @@ export interface ZaiFrontmatterSettings {
   zaiDefaultMaxTokens: number;
 }
 
+/**
+ * Provider-specific frontmatter settings for Azure OpenAI
+ */
+export interface AzureFrontmatterSettings {
+  /** Default model (deployment) for Azure OpenAI chats */
+  azureDefaultModel: string;
+  /** Default temperature for Azure OpenAI chats */
+  azureDefaultTemperature: number;
+  /** Default max tokens for Azure OpenAI chats */
+  azureDefaultMaxTokens: number;
+}
+
 /**
  * Chat template settings
  */
@@ -197,6 +240,45 @@ export interface ServiceUrlSettings {
   geminiUrl: string;
   /** URL for Z.AI API (Standard: /api/paas/v4, Coding Plan: /api/anthropic) */
   zaiUrl: string;
+  /** URL of the Azure OpenAI resource (https://<resource>.openai.azure.com) */
+  azureUrl: string;
+}
+
+/**
+ * Azure OpenAI settings
+ */
+export interface AzureSettings {
+  /** api-version query parameter of Azure OpenAI requests */
+  azureApiVersion: string;
+  /** Models behind the deployments, one "deployment: model" entry per line */
+  azureDeployments: string;
+}
+
+/**
+ * A user-defined OpenAI-compatible provider (e.g., a vLLM gateway, Groq, DeepSeek or Mistral)
+ * Its models are addressed as name@model
+ */
+export interface CustomProviderConfig {
+  /** Provider name, used as model prefix (lowercase letters, digits, - and _) */
+  name: string;
+  /** Base URL of the API */
+  url: string;
+  /** Path appended to the base URL for API requests (e.g., /v1) */
+  pathSuffix: string;
+  /** API key, sent as Bearer token when set */
+  apiKey: string;
+  /** Extra request headers, one "Name: value" entry per line */
+  headers: string;
+  /** Path of the model list endpoint relative to the base URL, empty to not list models */
+  modelsEndpoint: string;
+}
+
+/**
+ * Custom provider settings
+ */
+export interface CustomProviderSettings {
+  /** OpenAI-compatible providers defined in the settings */
+  customProviders: CustomProviderConfig[];
 }
 
 /**
@@ -213,6 +295,46 @@ export interface WebSearchSettings {
   maxWebSearchResults: number;
 }
 
+/**
+ * Token usage and cost tracking settings
+ */
+export interface UsageSettings {
+  /** Whether assistant headers show the tokens and cost of the response */
+  showUsageInHeader: boolean;
+  /** Vault path of the JSON usage ledger, empty to disable the ledger */
+  usageLedgerPath: string;
+  /** Prices in USD per million tokens, one "model-pattern: input, output" entry per line */
+  modelPrices: string;
+  /** Spending limit in USD per calendar day across all chats, 0 to disable */
+  dailyBudget: number;
+  /** Spending limits in USD per calendar month, one "provider: amount" entry per line */
+  providerBudgets: string;
+  /** Percentage of a budget at which a warning is shown */
+  budgetWarningThreshold: number;
+}
+
+/**
+ * Model catalog settings
+ */
+export interface ModelCatalogSettings {
+  /** Cached model lists with metadata, keyed by provider */
+  modelCatalog: ModelCatalog;
+  /** Hours before a provider's model list is fetched again */
+  modelCatalogTtlHours: number;
+  /** Hours per provider overriding modelCatalogTtlHours, one "provider: hours" entry per line */
+  modelCatalogProviderTtls: string;
+}
+
+/**
+ * Model picker settings, changed from the model picker
+ */
+export interface ModelPickerSettings {
+  /** Starred model IDs, listed first */
+  favoriteModels: string[];
+  /** Recently selected model IDs, most recent first */
+  recentModels: string[];
+}
+
 /**
  * Combined settings interface
  */
@@ -224,14 +346,20 @@ export interface ChatGPT_MDSettings
     FormattingSettings,
     TemplateSettings,
     ServiceUrlSettings,
+    CustomProviderSettings,
+    AzureSettings,
     WebSearchSettings,
+    UsageSettings,
+    ModelCatalogSettings,
+    ModelPickerSettings,
     OpenAIFrontmatterSettings,
     AnthropicFrontmatterSettings,
     GeminiFrontmatterSettings,
     OpenRouterFrontmatterSettings,
     OllamaFrontmatterSettings,
     LmStudioFrontmatterSettings,
-    ZaiFrontmatterSettings {}
+    ZaiFrontmatterSettings,
+    AzureFrontmatterSettings {}
 
 /**
  * Merged frontmatter configuration type
@@ -253,6 +381,15 @@ export interface MergedFrontmatterConfig {
   top_p?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
+  max_image_size_mb?: number;
+  link_depth?: number;
+  link_token_budget?: number;
+  context_strategy?: string;
+  response_format?: unknown;
+  fallback_models?: string | string[];
+  compact_keep_exchanges?: number;
+  budget_usd?: number;
+  cost_usd?: number;
 
   // Allow additional frontmatter properties
   [key: string]: unknown;
@@ -268,6 +405,7 @@ export const DEFAULT_SETTINGS: ChatGPT_MDSettings = {
   anthropicApiKey: "",
   geminiApiKey: "",
   zaiApiKey: "",
+  azureApiKey: "",
 
   // Service URLs
   openaiUrl: DEFAULT_OPENAI_CONFIG.url,
@@ -277,6 +415,14 @@ export const DEFAULT_SETTINGS: ChatGPT_MDSettings = {
   anthropicUrl: DEFAULT_ANTHROPIC_CONFIG.url,
   geminiUrl: DEFAULT_GEMINI_CONFIG.url,
   zaiUrl: DEFAULT_ZAI_CONFIG.url,
+  azureUrl: DEFAULT_AZURE_CONFIG.url,
+
+  // Custom Providers
+  customProviders: [],
+
+  // Azure OpenAI
+  azureApiVersion: DEFAULT_AZURE_API_VERSION,
+  azureDeployments: "",
 
   // Folders
   chatFolder: "ChatGPT_MD/chats",
@@ -287,8 +433,16 @@ export const DEFAULT_SETTINGS: ChatGPT_MDSettings = {
   stream: true,
   generateAtCursor: false,
   autoInferTitle: false,
+  archiveOnResend: false,
+  fallbackModels: "",
+  retryMaxAttempts: DEFAULT_RETRY_MAX_ATTEMPTS,
+  retryBaseDelay: DEFAULT_RETRY_BASE_DELAY,
+  retryMaxDelay: DEFAULT_RETRY_MAX_DELAY,
   enableToolCalling: false,
+  enableNoteWriteTools: false,
   toolEnabledModels: getDefaultToolWhitelist(),
+  toolProbeResults: {},
+  maxToolSteps: DEFAULT_MAX_TOOL_STEPS,
   debugMode: false,
   pluginSystemMessage: PLUGIN_SYSTEM_MESSAGE,
 
@@ -298,6 +452,23 @@ export const DEFAULT_SETTINGS: ChatGPT_MDSettings = {
   webSearchApiUrl: "",
   maxWebSearchResults: 5,
 
+  // Usage
+  showUsageInHeader: false,
+  usageLedgerPath: DEFAULT_USAGE_LEDGER_PATH,
+  modelPrices: "",
+  dailyBudget: 0,
+  providerBudgets: "",
+  budgetWarningThreshold: DEFAULT_BUDGET_WARNING_THRESHOLD,
+
+  // Model Catalog
+  modelCatalog: {},
+  modelCatalogTtlHours: DEFAULT_MODEL_CATALOG_TTL_HOURS,
+  modelCatalogProviderTtls: DEFAULT_MODEL_CATALOG_PROVIDER_TTLS,
+
+  // Model Picker
+  favoriteModels: [],
+  recentModels: [],
+
   // Formatting
   dateFormat: DEFAULT_DATE_FORMAT,
   headingLevel: DEFAULT_HEADING_LEVEL,
@@ -347,4 +518,9 @@ export const DEFAULT_SETTINGS: ChatGPT_MDSettings = {
   zaiDefaultModel: DEFAULT_ZAI_CONFIG.model,
   zaiDefaultTemperature: DEFAULT_ZAI_CONFIG.temperature,
   zaiDefaultMaxTokens: DEFAULT_ZAI_CONFIG.max_tokens,
+
+  // Azure OpenAI Defaults
+  azureDefaultModel: DEFAULT_AZURE_CONFIG.model,
+  azureDefaultTemperature: DEFAULT_AZURE_CONFIG.temperature,
+  azureDefaultMaxTokens: DEFAULT_AZURE_CONFIG.max_tokens,
 };
@@ -1,10 +1,44 @@
+/**
+ * An image embedded in a message, read from the vault
+ *
+ * @property type - Content part discriminator
+ * @property image - Base64-encoded image data
+ * @property mediaType - IANA media type (e.g., "image/png")
+ * @property path - Vault path of the embedded file
+ */
+export interface ImagePart {
+  type: "image";
+  image: string;
+  mediaType: string;
+  path: string;
+}
+
+/**
+ * A tool call made by the assistant together with its result, as persisted in the note
+ *
+ * @property id - Tool call ID from the provider
+ * @property name - Tool name (e.g., "vault_search")
+ * @property input - Arguments the tool was called with
+ * @property output - Result text shared with the model
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: unknown;
+  output: string;
+}
+
 /**
  * Represents a single message in a conversation
  *
  * @property role - The message role (e.g., "user", "assistant", "system", "developer")
  * @property content - The text content of the message
+ * @property images - Optional images sent alongside the text as content parts
+ * @property toolCalls - Optional tool calls the assistant made after the text, with their results
  */
 export interface Message {
   role: string;
   content: string;
+  images?: ImagePart[];
+  toolCalls?: ToolCallRecord[];
 }
@@ -0,0 +1,42 @@
+import { ModelPricing } from "./Usage";
+
+/**
+ * Input a model accepts besides text
+ */
+export type ModelModality = "text" | "image";
+
+/**
+ * A model in the model catalog
+ *
+ * @property id - Model ID with provider prefix (e.g., "openai@gpt-4o")
+ * @property provider - AI service or custom provider name (e.g., "openai")
+ * @property contextLength - Context window size in tokens, omitted if unknown
+ * @property pricing - Prices in USD per million tokens, omitted if unknown
+ * @property modalities - Accepted inputs
+ * @property supportsTools - Whether tools are sent to the model
+ * @property lastSeen - ISO date and time the provider last listed the model
+ */
+export interface ModelInfo {
+  id: string;
+  provider: string;
+  contextLength?: number;
+  pricing?: ModelPricing;
+  modalities: ModelModality[];
+  supportsTools: boolean;
+  lastSeen: string;
+}
+
+/**
+ * Models of one provider in the model catalog
+ *
+ * @property fetchedAt - ISO date and time of the last successful model list request
+ */
+export interface ProviderModelList {
+  fetchedAt: string;
+  models: ModelInfo[];
+}
+
+/**
+ * Model lists keyed by provider, persisted in plugin data
+ */
+export type ModelCatalog = Record<string, ProviderModelList>;
@@ -0,0 +1,10 @@
+/**
+ * Structured output requested with the response_format frontmatter
+ *
+ * @property schema - JSON Schema the response must match, undefined when any JSON value is accepted
+ * @property name - Name of the schema (e.g., the schema note), sent to providers that support it
+ */
+export interface ResponseFormat {
+  schema?: Record<string, unknown>;
+  name?: string;
+}
@@ -37,6 +37,8 @@ export interface AiToolCall {
 export interface ToolExecutionResult {
   toolCallId: string;
   result: unknown;
+  /** Arguments the tool ran with, as approved and possibly edited by the user */
+  args?: Record<string, unknown>;
 }
 
 /**
@@ -137,3 +139,42 @@ export interface WebSearchApprovalDecision {
   approved: boolean;
   approvedResults: WebSearchResult[];
 }
+
+/**
+ * How a note write tool changes the vault
+ * - create: note_create writes a new note
+ * - append: note_append adds text to the end of an existing note
+ */
+export type NoteWriteMode = "create" | "append";
+
+/**
+ * User's decision on a note write, with the path and content as edited in the approval modal
+ */
+export interface NoteWriteApprovalDecision {
+  approved: boolean;
+  path: string;
+  content: string;
+}
+
+/**
+ * Result from the note_create and note_append tools
+ */
+export interface NoteWriteResult {
+  path: string;
+  mode: NoteWriteMode;
+  /** Characters written */
+  size: number;
+}
+
+/**
+ * A note write that can be undone
+ *
+ * @property previousContent - Content of the note before text was appended, undefined for created notes
+ * @property writtenContent - Content of the note after the write, to detect later edits
+ */
+export interface NoteWriteUndoEntry {
+  mode: NoteWriteMode;
+  path: string;
+  previousContent?: string;
+  writtenContent: string;
+}
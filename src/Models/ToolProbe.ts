@@ -0,0 +1,35 @@
+import { TokenUsage } from "./Usage";
+
+/**
+ * Outcome of a tool support probe
+ * - supported: the model called the probe tool
+ * - unsupported: the model answered without calling it, or the provider rejected the tool
+ * - error: the probe failed for another reason (network, authentication, rate limit), so the whitelist decides
+ */
+export type ToolProbeStatus = "supported" | "unsupported" | "error";
+
+/**
+ * Result of probing a model for tool support
+ *
+ * @property status - Outcome of the probe
+ * @property probedAt - ISO date and time of the probe
+ * @property error - Error message of failed probes
+ */
+export interface ToolProbeResult {
+  status: ToolProbeStatus;
+  probedAt: string;
+  error?: string;
+}
+
+/**
+ * Result of a probe with the tokens its request used, which are recorded in the usage ledger but not persisted
+ */
+export interface ToolProbeOutcome {
+  result: ToolProbeResult;
+  usage?: TokenUsage;
+}
+
+/**
+ * Probe results keyed by model ID with provider prefix, persisted in plugin data
+ */
+export type ToolProbeResults = Record<string, ToolProbeResult>;
@@ -0,0 +1,70 @@
+/**
+ * Tokens used by a response
+ *
+ * @property inputTokens - Prompt tokens, summed over all requests of the response (e.g., tool steps)
+ * @property outputTokens - Completion tokens, including reasoning tokens
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * A price table entry from the Model Prices setting
+ *
+ * @property pattern - Model ID or pattern ending in "*" (e.g., "gpt-4o", "claude-*", "openrouter@openai/*")
+ */
+export interface PriceTableEntry {
+  pattern: string;
+  pricing: ModelPricing;
+}
+
+/**
+ * A response recorded in the usage ledger
+ *
+ * @property timestamp - ISO date and time of the response
+ * @property chat - Vault path of the chat note, omitted for requests outside a chat (tool support probes)
+ * @property provider - AI service (e.g., "openai")
+ * @property model - Model ID as written in the frontmatter
+ * @property cost_usd - Cost in USD, omitted if the model has no known price
+ */
+export interface UsageLedgerEntry {
+  timestamp: string;
+  chat?: string;
+  provider: string;
+  model: string;
+  tokens_in: number;
+  tokens_out: number;
+  cost_usd?: number;
+}
+
+/**
+ * State of a spending budget
+ * - ok: below the warning threshold
+ * - warning: at or above the warning threshold
+ * - exceeded: spending reached the limit, requests are blocked unless the user confirms an override
+ * - unavailable: the budget is based on the usage ledger, which is disabled
+ */
+export type BudgetState = "ok" | "warning" | "exceeded" | "unavailable";
+
+/**
+ * Spending against a budget
+ *
+ * @property name - Budget label shown to the user (e.g., "Daily budget")
+ * @property spent - Cost in USD so far in the budget period
+ * @property limit - Budget in USD
+ */
+export interface BudgetStatus {
+  name: string;
+  spent: number;
+  limit: number;
+  state: BudgetState;
+}
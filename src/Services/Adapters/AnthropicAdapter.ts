@@ -1,6 +1,14 @@
 import { requestUrl } from "obsidian";
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderModelData, ProviderType } from "./ProviderAdapter";
+import {
+  AiCallSettings,
+  AiProviderConfig,
+  CallSettingName,
+  CallSettingsResult,
+  ProviderModelData,
+  ProviderType,
+  ReasoningSettings,
+} from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -74,4 +82,51 @@ export class AnthropicAdapter extends BaseProviderAdapter {
   supportsSystemField(): boolean {
     return true; // Anthropic supports system field in payload
   }
+
+  supportsImageInput(modelName: string): boolean {
+    // Every Claude model since Claude 3 accepts images
+    return !/^claude-(2|instant)/.test(modelName);
+  }
+
+  supportsStructuredOutput(_modelName: string): boolean {
+    return true;
+  }
+
+  getRateLimitResetHeaders(): string[] {
+    // RFC 3339 timestamps
+    return [
+      "anthropic-ratelimit-requests-reset",
+      "anthropic-ratelimit-tokens-reset",
+      "anthropic-ratelimit-input-tokens-reset",
+      "anthropic-ratelimit-output-tokens-reset",
+    ];
+  }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["presencePenalty", "frequencyPenalty", "seed"];
+  }
+
+  /**
+   * Extended thinking takes a token budget, reasoning_effort is mapped to one
+   */
+  protected override buildReasoningOptions(reasoning: ReasoningSettings): AiCallSettings["providerOptions"] {
+    const budgetTokens = this.getThinkingBudget(reasoning);
+    return budgetTokens ? { anthropic: { thinking: { type: "enabled", budgetTokens } } } : undefined;
+  }
+
+  /**
+   * Newer Claude models reject requests that set both temperature and top_p,
+   * so top_p is dropped whenever a temperature is configured
+   */
+  override buildCallSettings(config: Partial<AiProviderConfig>): CallSettingsResult {
+    const result = super.buildCallSettings(config);
+    const { callSettings, droppedSettings } = result;
+
+    if (callSettings.temperature !== undefined && callSettings.topP !== undefined) {
+      delete callSettings.topP;
+      droppedSettings.push("topP");
+    }
+
+    return result;
+  }
 }
@@ -0,0 +1,143 @@
+import { AzureSettings, ChatGPT_MDSettings } from "src/Models/Config";
+import { AZURE_DEPLOYMENTS_API_VERSION, DEFAULT_AZURE_API_VERSION } from "src/Constants";
+import { DEFAULT_AZURE_CONFIG } from "../DefaultConfigs";
+import { CallSettingName, ProviderModelData, ProviderType } from "./ProviderAdapter";
+import { BaseProviderAdapter } from "./BaseProviderAdapter";
+
+/**
+ * Deployment data from the Azure OpenAI deployments endpoint
+ */
+interface AzureDeployment extends ProviderModelData {
+  /** Deployment name */
+  id: string;
+  /** Model behind the deployment (e.g., gpt-4o) */
+  model?: string;
+  status?: string;
+}
+
+/**
+ * Models behind deployments as reported by the deployments endpoint, shared across adapter instances
+ */
+const reportedDeploymentModels = new Map<string, string>();
+
+/**
+ * Parse the deployment mapping, one "deployment: model" entry per line
+ */
+function parseDeployments(text: string | undefined): Map<string, string> {
+  const deployments = new Map<string, string>();
+
+  for (const line of (text ?? "").split("\n")) {
+    const [deployment, model] = line.split(":").map((part) => part.trim());
+    if (deployment && !deployment.startsWith("#")) {
+      deployments.set(deployment, model || deployment);
+    }
+  }
+
+  return deployments;
+}
+
+/**
+ * Adapter for Azure OpenAI
+ * Encapsulates Azure-specific logic and configuration
+ *
+ * Models are addressed by deployment name (azure@my-gpt4o-deployment). Requests go to
+ * {resource}/openai/deployments/{deployment} with an api-version query parameter and an api-key header.
+ * Capabilities (tools, vision, context length) are looked up for the model behind the deployment,
+ * from the Deployments setting or the deployments endpoint.
+ */
+export class AzureAdapter extends BaseProviderAdapter {
+  readonly type: ProviderType = "azure";
+  readonly displayName = "Azure OpenAI";
+
+  private readonly apiVersion: string;
+  private readonly deployments: Map<string, string>;
+
+  constructor(settings: Partial<AzureSettings> = {}) {
+    super();
+    this.apiVersion = settings.azureApiVersion?.trim() || DEFAULT_AZURE_API_VERSION;
+    this.deployments = parseDeployments(settings.azureDeployments);
+  }
+
+  getDefaultBaseUrl(): string {
+    return DEFAULT_AZURE_CONFIG.url; // Resource-specific, set in the settings
+  }
+
+  getAuthHeaders(apiKey: string): Record<string, string> {
+    return {
+      "api-key": apiKey,
+      "Content-Type": "application/json",
+    };
+  }
+
+  /**
+   * List the deployments of the resource, together with the deployments from the settings
+   * The deployments endpoint is only available in older API versions, so it is called with
+   * AZURE_DEPLOYMENTS_API_VERSION. When it fails, the configured deployments are listed.
+   */
+  async fetchModels(
+    url: string,
+    apiKey: string | undefined,
+    _settings: ChatGPT_MDSettings | undefined,
+    makeGetRequest: (url: string, headers: Record<string, string>, provider: string) => Promise<any>
+  ): Promise<string[]> {
+    if (!this.validateApiKey(apiKey)) {
+      return [];
+    }
+
+    const deploymentNames = new Set(this.deployments.keys());
+
+    try {
+      const headers = this.getAuthHeaders(apiKey!); // Non-null assertion: validated above
+      const response = await makeGetRequest(
+        `${url}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`,
+        headers,
+        this.type
+      );
+
+      for (const deployment of (response?.data ?? []) as AzureDeployment[]) {
+        if (!deployment.id || (deployment.status && deployment.status !== "succeeded")) continue;
+        deploymentNames.add(deployment.id);
+        if (deployment.model) {
+          reportedDeploymentModels.set(deployment.id, deployment.model);
+        }
+      }
+    } catch (error) {
+      this.handleFetchError(error, "Error fetching Azure OpenAI deployments");
+    }
+
+    return [...deploymentNames].sort().map((deployment) => this.prefixModelId(deployment));
+  }
+
+  /**
+   * Model behind a deployment: the Deployments setting wins over the deployments endpoint
+   * Deployments that are not known are assumed to be named after their model
+   */
+  resolveModelName(deployment: string): string {
+    return this.deployments.get(deployment) ?? reportedDeploymentModels.get(deployment) ?? deployment;
+  }
+
+  /**
+   * Each deployment has its own endpoint
+   * e.g., https://my-resource.openai.azure.com + /openai/deployments/my-gpt4o, the AI SDK appends /chat/completions
+   */
+  override getApiPathSuffix(_url?: string, modelName?: string): string {
+    return `/openai/deployments/${encodeURIComponent(modelName ?? "")}`;
+  }
+
+  getQueryParams(): Record<string, string> {
+    return { "api-version": this.apiVersion };
+  }
+
+  supportsImageInput(modelName: string): boolean {
+    // Same models as OpenAI, Azure writes GPT-3.5 as gpt-35
+    return !/^(gpt-3\.?5|o1-mini|o3-mini)/.test(this.resolveModelName(modelName));
+  }
+
+  override getContextLength(modelName: string): number | undefined {
+    return super.getContextLength(this.resolveModelName(modelName));
+  }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["topK"]; // Chat Completions API has no top_k parameter
+  }
+}
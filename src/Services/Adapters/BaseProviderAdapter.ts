@@ -1,5 +1,31 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderAdapter, ProviderType } from "./ProviderAdapter";
+import { ModelPricing } from "src/Models/Usage";
+import { REASONING_EFFORT_BUDGETS } from "src/Constants";
+import { getKnownContextLength } from "../ContextLengthDetector";
+import {
+  AiCallSettings,
+  AiProviderConfig,
+  CallSettingName,
+  CallSettingsResult,
+  ProviderAdapter,
+  ProviderType,
+  ReasoningSettings,
+} from "./ProviderAdapter";
+
+/**
+ * Numeric frontmatter parameters and the AI SDK call settings they map to
+ */
+const NUMERIC_CALL_SETTINGS: Array<
+  [keyof AiProviderConfig, Exclude<CallSettingName, "stopSequences" | "providerOptions">]
+> = [
+  ["max_tokens", "maxOutputTokens"],
+  ["temperature", "temperature"],
+  ["top_p", "topP"],
+  ["top_k", "topK"],
+  ["presence_penalty", "presencePenalty"],
+  ["frequency_penalty", "frequencyPenalty"],
+  ["seed", "seed"],
+];
 
 /**
  * Abstract base class for provider adapters
@@ -53,6 +79,70 @@ export abstract class BaseProviderAdapter implements ProviderAdapter {
     return true;
   }
 
+  /**
+   * Whether a model accepts image input
+   * Default: false (vision-capable providers override)
+   */
+  supportsImageInput(_modelName: string): boolean {
+    return false;
+  }
+
+  /**
+   * Whether the provider supports structured outputs
+   * Default: false (providers with native JSON Schema support override)
+   */
+  supportsStructuredOutput(_modelName: string): boolean {
+    return false;
+  }
+
+  /**
+   * Response headers telling when the provider's rate limits reset
+   * Default: none (providers with rate limit headers override)
+   */
+  getRateLimitResetHeaders(): string[] {
+    return [];
+  }
+
+  /**
+   * Headers sent with every request in addition to the authentication headers
+   * Default: none (custom providers override)
+   */
+  getExtraHeaders(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Query parameters sent with every request
+   * Default: none (Azure OpenAI overrides)
+   */
+  getQueryParams(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Name of the model behind a model name
+   * Default: the model name itself (Azure OpenAI maps deployments to models)
+   */
+  resolveModelName(modelName: string): string {
+    return modelName;
+  }
+
+  /**
+   * Context window size of a model in tokens
+   * Default: local context length table (providers reporting model metadata override)
+   */
+  getContextLength(modelName: string): number | undefined {
+    return getKnownContextLength(modelName);
+  }
+
+  /**
+   * Prices of a model as reported by the provider
+   * Default: unknown (providers reporting model metadata override)
+   */
+  getModelPricing(_modelName: string): ModelPricing | undefined {
+    return undefined;
+  }
+
   /**
    * Whether this provider requires an API key
    * Default: true (Ollama and LM Studio override to false)
@@ -106,8 +196,108 @@ export abstract class BaseProviderAdapter implements ProviderAdapter {
    * Default API path suffix for chat completions
    * Most OpenAI-compatible providers use "/v1"
    * @param url - Optional URL parameter (ignored by most providers)
+   * @param modelName - Optional model name (ignored by most providers)
    */
-  getApiPathSuffix(_url?: string): string {
+  getApiPathSuffix(_url?: string, _modelName?: string): string {
     return "/v1";
   }
+
+  /**
+   * Call settings this provider does not accept
+   * Default: none (adapters override to drop unsupported parameters)
+   */
+  protected getUnsupportedCallSettings(): CallSettingName[] {
+    return [];
+  }
+
+  /**
+   * Map reasoning settings to provider options
+   * Default: reasoning_effort of OpenAI-compatible APIs (providers with their own reasoning options override)
+   * @returns Provider options, or undefined if the provider cannot apply the settings
+   */
+  protected buildReasoningOptions(reasoning: ReasoningSettings): AiCallSettings["providerOptions"] {
+    return reasoning.effort ? { [this.type]: { reasoningEffort: reasoning.effort } } : undefined;
+  }
+
+  /**
+   * Thinking budget in tokens for providers that only accept a budget
+   * An explicit thinking_budget wins, otherwise the effort is mapped to a budget
+   */
+  protected getThinkingBudget(reasoning: ReasoningSettings): number | undefined {
+    return reasoning.budget ?? (reasoning.effort ? REASONING_EFFORT_BUDGETS[reasoning.effort] : undefined);
+  }
+
+  /**
+   * Map frontmatter generation parameters to AI SDK call settings
+   * Common implementation for all providers, filtered by getUnsupportedCallSettings()
+   */
+  buildCallSettings(config: Partial<AiProviderConfig>): CallSettingsResult {
+    const mapped: AiCallSettings = {};
+
+    for (const [configKey, settingName] of NUMERIC_CALL_SETTINGS) {
+      const value = this.parseNumericSetting(config[configKey]);
+      if (value !== undefined) {
+        mapped[settingName] = value;
+      }
+    }
+
+    const stopSequences = this.parseStopSequences(config.stop);
+    if (stopSequences) {
+      mapped.stopSequences = stopSequences;
+    }
+
+    const reasoning = this.parseReasoningSettings(config);
+    if (reasoning) {
+      mapped.providerOptions = this.buildReasoningOptions(reasoning);
+    }
+
+    const unsupported = this.getUnsupportedCallSettings();
+    const callSettings: AiCallSettings = {};
+    const droppedSettings: CallSettingName[] = [];
+
+    for (const settingName of Object.keys(mapped) as CallSettingName[]) {
+      if (unsupported.includes(settingName) || mapped[settingName] === undefined) {
+        droppedSettings.push(settingName);
+      } else {
+        (callSettings as Record<string, unknown>)[settingName] = mapped[settingName];
+      }
+    }
+
+    return { callSettings, droppedSettings };
+  }
+
+  /**
+   * Parse a numeric frontmatter value (settings may store numbers as strings)
+   */
+  private parseNumericSetting(value: unknown): number | undefined {
+    if (value === null || value === undefined || value === "") {
+      return undefined;
+    }
+    const parsed = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  /**
+   * Parse the reasoning_effort and thinking_budget frontmatter values
+   * @returns Reasoning settings, or undefined if neither is set
+   */
+  private parseReasoningSettings(config: Partial<AiProviderConfig>): ReasoningSettings | undefined {
+    const effort =
+      typeof config.reasoning_effort === "string" ? config.reasoning_effort.trim().toLowerCase() : undefined;
+    const budget = this.parseNumericSetting(config.thinking_budget);
+    const reasoning: ReasoningSettings = {
+      effort: effort || undefined,
+      budget: budget !== undefined && budget > 0 ? Math.round(budget) : undefined,
+    };
+    return reasoning.effort || reasoning.budget ? reasoning : undefined;
+  }
+
+  /**
+   * Parse the stop frontmatter value into a list of stop sequences
+   */
+  private parseStopSequences(value: unknown): string[] | undefined {
+    const candidates = Array.isArray(value) ? value : [value];
+    const sequences = candidates.filter((item): item is string => typeof item === "string" && item.length > 0);
+    return sequences.length > 0 ? sequences : undefined;
+  }
 }
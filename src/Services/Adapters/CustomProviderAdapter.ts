@@ -0,0 +1,70 @@
+import { ChatGPT_MDSettings, CustomProviderConfig } from "src/Models/Config";
+import { DEFAULT_CUSTOM_PROVIDER_PATH_SUFFIX } from "src/Constants";
+import { parseHeaderLines, parseModelListResponse } from "src/Utilities/CustomProviderHelpers";
+import { CallSettingName, ProviderType } from "./ProviderAdapter";
+import { BaseProviderAdapter } from "./BaseProviderAdapter";
+
+/**
+ * Adapter for a user-defined OpenAI-compatible provider
+ * Name, base URL, path suffix, extra headers and model list endpoint come from the Custom Providers settings
+ */
+export class CustomProviderAdapter extends BaseProviderAdapter {
+  readonly type: ProviderType;
+  readonly displayName: string;
+
+  constructor(private config: CustomProviderConfig) {
+    super();
+    this.type = config.name;
+    this.displayName = config.name;
+  }
+
+  getDefaultBaseUrl(): string {
+    return this.config.url;
+  }
+
+  getAuthHeaders(apiKey: string | undefined): Record<string, string> {
+    return {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      "Content-Type": "application/json",
+      ...this.getExtraHeaders(),
+    };
+  }
+
+  async fetchModels(
+    url: string,
+    apiKey: string | undefined,
+    settings: ChatGPT_MDSettings | undefined,
+    makeGetRequest: (url: string, headers: Record<string, string>, provider: string) => Promise<any>
+  ): Promise<string[]> {
+    const endpoint = this.config.modelsEndpoint?.trim();
+    if (!endpoint) {
+      return [];
+    }
+
+    try {
+      const models = await makeGetRequest(`${url}${endpoint}`, this.getAuthHeaders(apiKey), this.type);
+      return parseModelListResponse(models)
+        .sort()
+        .map((modelId) => this.prefixModelId(modelId));
+    } catch (error) {
+      this.handleFetchError(error);
+      return [];
+    }
+  }
+
+  getExtraHeaders(): Record<string, string> {
+    return parseHeaderLines(this.config.headers);
+  }
+
+  override getApiPathSuffix(_url?: string): string {
+    return this.config.pathSuffix?.trim() ?? DEFAULT_CUSTOM_PROVIDER_PATH_SUFFIX;
+  }
+
+  requiresApiKey(): boolean {
+    return false; // Gateways and local servers often accept requests without a key
+  }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["topK"]; // Not part of the OpenAI-compatible API
+  }
+}
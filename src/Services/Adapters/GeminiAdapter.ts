@@ -1,5 +1,5 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderModelData, ProviderType } from "./ProviderAdapter";
+import { AiCallSettings, ProviderModelData, ProviderType, ReasoningSettings } from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -66,4 +66,21 @@ export class GeminiAdapter extends BaseProviderAdapter {
       return [];
     }
   }
+
+  supportsImageInput(_modelName: string): boolean {
+    return true; // All Gemini generation models are multimodal
+  }
+
+  supportsStructuredOutput(_modelName: string): boolean {
+    return true;
+  }
+
+  /**
+   * Thinking models take a token budget, reasoning_effort is mapped to one
+   * Thought summaries are requested so the thinking can be shown in the note
+   */
+  protected override buildReasoningOptions(reasoning: ReasoningSettings): AiCallSettings["providerOptions"] {
+    const thinkingBudget = this.getThinkingBudget(reasoning);
+    return thinkingBudget ? { google: { thinkingConfig: { thinkingBudget, includeThoughts: true } } } : undefined;
+  }
 }
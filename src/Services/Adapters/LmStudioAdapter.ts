@@ -1,5 +1,5 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderModelData, ProviderType } from "./ProviderAdapter";
+import { CallSettingName, ProviderModelData, ProviderType } from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -58,4 +58,8 @@ export class LmStudioAdapter extends BaseProviderAdapter {
   requiresApiKey(): boolean {
     return false; // LM Studio doesn't require API key
   }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["topK"]; // Not accepted by the OpenAI-compatible endpoint
+  }
 }
@@ -1,5 +1,5 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderModelData, ProviderType } from "./ProviderAdapter";
+import { CallSettingName, ProviderModelData, ProviderType } from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -9,6 +9,21 @@ interface OllamaModel extends ProviderModelData {
   name: string;
 }
 
+/**
+ * Name fragments of Ollama models that accept images
+ */
+const OLLAMA_VISION_MODEL_PATTERNS = [
+  "llava",
+  "vision",
+  "moondream",
+  "minicpm-v",
+  "gemma3",
+  "qwen2.5vl",
+  "qwen3-vl",
+  "mistral-small3",
+  "llama4",
+];
+
 /**
  * Adapter for Ollama (local) API provider
  * Encapsulates Ollama-specific logic and configuration
@@ -53,4 +68,13 @@ export class OllamaAdapter extends BaseProviderAdapter {
   requiresApiKey(): boolean {
     return false; // Ollama doesn't require API key
   }
+
+  supportsImageInput(modelName: string): boolean {
+    const name = modelName.toLowerCase();
+    return OLLAMA_VISION_MODEL_PATTERNS.some((pattern) => name.includes(pattern));
+  }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["topK"]; // Not accepted by the OpenAI-compatible endpoint
+  }
 }
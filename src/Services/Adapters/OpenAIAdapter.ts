@@ -1,5 +1,5 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderModelData, ProviderType } from "./ProviderAdapter";
+import { AiCallSettings, CallSettingName, ProviderModelData, ProviderType, ReasoningSettings } from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -86,4 +86,29 @@ export class OpenAIAdapter extends BaseProviderAdapter {
   getSystemMessageRole(): "system" | "developer" {
     return "developer"; // OpenAI prefers developer role for system messages
   }
+
+  supportsImageInput(modelName: string): boolean {
+    // Legacy and mini reasoning models are text-only
+    return !/^(gpt-3\.5|o1-mini|o3-mini)/.test(modelName);
+  }
+
+  supportsStructuredOutput(_modelName: string): boolean {
+    return true;
+  }
+
+  getRateLimitResetHeaders(): string[] {
+    return ["x-ratelimit-reset-requests", "x-ratelimit-reset-tokens"]; // Durations such as "6m0s"
+  }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["topK"]; // Chat Completions API has no top_k parameter
+  }
+
+  /**
+   * Reasoning models accept an effort, not a budget
+   * Reasoning summaries are requested so the thinking can be shown in the note
+   */
+  protected override buildReasoningOptions(reasoning: ReasoningSettings): AiCallSettings["providerOptions"] {
+    return reasoning.effort ? { openai: { reasoningEffort: reasoning.effort, reasoningSummary: "auto" } } : undefined;
+  }
 }
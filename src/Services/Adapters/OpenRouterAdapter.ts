@@ -1,5 +1,6 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderModelData, ProviderType } from "./ProviderAdapter";
+import { ModelPricing } from "src/Models/Usage";
+import { AiCallSettings, ProviderModelData, ProviderType, ReasoningSettings } from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -10,12 +11,23 @@ interface OpenRouterModel extends ProviderModelData {
   name: string;
   context_length: number;
   pricing: {
-    prompt: number;
-    completion: number;
+    /** USD per token, as a string */
+    prompt: string;
+    completion: string;
   };
   supported_parameters?: string[];
 }
 
+/**
+ * Context lengths reported by the models endpoint, shared across adapter instances
+ */
+const reportedContextLengths = new Map<string, number>();
+
+/**
+ * Prices reported by the models endpoint in USD per million tokens, shared across adapter instances
+ */
+const reportedPrices = new Map<string, ModelPricing>();
+
 /**
  * Adapter for OpenRouter API provider
  * Encapsulates OpenRouter-specific logic and configuration
@@ -66,6 +78,17 @@ export class OpenRouterAdapter extends BaseProviderAdapter {
       const apiPath = this.getApiPathSuffix(url);
       const models = await makeGetRequest(`${url}${apiPath}/models`, headers, this.type);
 
+      for (const model of models.data as OpenRouterModel[]) {
+        if (model.context_length) {
+          reportedContextLengths.set(model.id, model.context_length);
+        }
+        const input = Number(model.pricing?.prompt);
+        const output = Number(model.pricing?.completion);
+        if (Number.isFinite(input) && Number.isFinite(output) && input >= 0 && output >= 0) {
+          reportedPrices.set(model.id, { input: input * 1_000_000, output: output * 1_000_000 });
+        }
+      }
+
       return models.data
         .sort((a: OpenRouterModel, b: OpenRouterModel) => {
           if (a.id < b.id) return 1;
@@ -78,4 +101,34 @@ export class OpenRouterAdapter extends BaseProviderAdapter {
       return [];
     }
   }
+
+  supportsImageInput(_modelName: string): boolean {
+    return true; // OpenRouter rejects image input for text-only models itself
+  }
+
+  supportsStructuredOutput(_modelName: string): boolean {
+    return true; // OpenRouter falls back to JSON mode for models without structured outputs
+  }
+
+  getRateLimitResetHeaders(): string[] {
+    return ["x-ratelimit-reset"]; // Unix timestamp in milliseconds
+  }
+
+  override getContextLength(modelName: string): number | undefined {
+    return reportedContextLengths.get(modelName) ?? super.getContextLength(modelName);
+  }
+
+  override getModelPricing(modelName: string): ModelPricing | undefined {
+    return reportedPrices.get(modelName);
+  }
+
+  /**
+   * OpenRouter normalizes reasoning across models and accepts either a budget or an effort
+   */
+  protected override buildReasoningOptions(reasoning: ReasoningSettings): AiCallSettings["providerOptions"] {
+    if (reasoning.budget) {
+      return { openrouter: { reasoning: { max_tokens: reasoning.budget } } };
+    }
+    return reasoning.effort ? { openrouter: { reasoning: { effort: reasoning.effort } } } : undefined;
+  }
 }
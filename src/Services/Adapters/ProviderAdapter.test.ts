@@ -0,0 +1,360 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { AiProviderConfig } from "./ProviderAdapter";
+import { OpenAIAdapter } from "./OpenAIAdapter";
+import { AnthropicAdapter } from "./AnthropicAdapter";
+import { OllamaAdapter } from "./OllamaAdapter";
+import { OpenRouterAdapter } from "./OpenRouterAdapter";
+import { GeminiAdapter } from "./GeminiAdapter";
+import { LmStudioAdapter } from "./LmStudioAdapter";
+import { ZaiAdapter } from "./ZaiAdapter";
+import { CustomProviderAdapter } from "./CustomProviderAdapter";
+import { AzureAdapter } from "./AzureAdapter";
+
+/** Frontmatter with every supported generation parameter set */
+const FULL_FRONTMATTER: Partial<AiProviderConfig> = {
+  max_tokens: 1024,
+  temperature: 0.5,
+  top_p: 0.9,
+  top_k: 40,
+  presence_penalty: 0.2,
+  frequency_penalty: 0.3,
+  stop: ["###"],
+  seed: 42,
+};
+
+describe("buildCallSettings", () => {
+  describe("common mapping", () => {
+    const adapter = new OpenRouterAdapter();
+
+    it("maps frontmatter keys to AI SDK call settings", () => {
+      const { callSettings, droppedSettings } = adapter.buildCallSettings(FULL_FRONTMATTER);
+
+      expect(callSettings).toEqual({
+        maxOutputTokens: 1024,
+        temperature: 0.5,
+        topP: 0.9,
+        topK: 40,
+        presencePenalty: 0.2,
+        frequencyPenalty: 0.3,
+        stopSequences: ["###"],
+        seed: 42,
+      });
+      expect(droppedSettings).toEqual([]);
+    });
+
+    it("omits parameters that are not set", () => {
+      const { callSettings } = adapter.buildCallSettings({ temperature: 0.7 });
+      expect(callSettings).toEqual({ temperature: 0.7 });
+    });
+
+    it("parses numeric strings and ignores invalid values", () => {
+      const config = { max_tokens: "300", temperature: "warm", top_p: "" } as unknown as Partial<AiProviderConfig>;
+      const { callSettings } = adapter.buildCallSettings(config);
+      expect(callSettings).toEqual({ maxOutputTokens: 300 });
+    });
+
+    it("accepts a single stop string and ignores null", () => {
+      expect(adapter.buildCallSettings({ stop: "END" }).callSettings).toEqual({ stopSequences: ["END"] });
+      expect(adapter.buildCallSettings({ stop: null }).callSettings).toEqual({});
+    });
+
+    it("does not read non-frontmatter config keys", () => {
+      const { callSettings } = adapter.buildCallSettings({ maxTokens: 400, topP: 1 });
+      expect(callSettings).toEqual({});
+    });
+  });
+
+  describe("OpenAIAdapter", () => {
+    it("drops topK", () => {
+      const { callSettings, droppedSettings } = new OpenAIAdapter().buildCallSettings(FULL_FRONTMATTER);
+      expect(callSettings.topK).toBeUndefined();
+      expect(callSettings.presencePenalty).toBe(0.2);
+      expect(callSettings.seed).toBe(42);
+      expect(droppedSettings).toEqual(["topK"]);
+    });
+  });
+
+  describe("AnthropicAdapter", () => {
+    const adapter = new AnthropicAdapter();
+
+    it("drops penalties, seed and topP when temperature is set", () => {
+      const { callSettings, droppedSettings } = adapter.buildCallSettings(FULL_FRONTMATTER);
+      expect(callSettings).toEqual({
+        maxOutputTokens: 1024,
+        temperature: 0.5,
+        topK: 40,
+        stopSequences: ["###"],
+      });
+      expect(droppedSettings).toEqual(["presencePenalty", "frequencyPenalty", "seed", "topP"]);
+    });
+
+    it("keeps topP when no temperature is set", () => {
+      const { callSettings, droppedSettings } = adapter.buildCallSettings({ top_p: 0.8 });
+      expect(callSettings).toEqual({ topP: 0.8 });
+      expect(droppedSettings).toEqual([]);
+    });
+  });
+
+  describe("GeminiAdapter", () => {
+    it("forwards every parameter", () => {
+      const { callSettings, droppedSettings } = new GeminiAdapter().buildCallSettings(FULL_FRONTMATTER);
+      expect(Object.keys(callSettings)).toHaveLength(8);
+      expect(droppedSettings).toEqual([]);
+    });
+  });
+
+  describe("OpenRouterAdapter", () => {
+    it("forwards every parameter", () => {
+      const { callSettings, droppedSettings } = new OpenRouterAdapter().buildCallSettings(FULL_FRONTMATTER);
+      expect(Object.keys(callSettings)).toHaveLength(8);
+      expect(droppedSettings).toEqual([]);
+    });
+  });
+
+  describe("OllamaAdapter", () => {
+    it("drops topK", () => {
+      const { callSettings, droppedSettings } = new OllamaAdapter().buildCallSettings(FULL_FRONTMATTER);
+      expect(callSettings.topK).toBeUndefined();
+      expect(callSettings.maxOutputTokens).toBe(1024);
+      expect(droppedSettings).toEqual(["topK"]);
+    });
+  });
+
+  describe("LmStudioAdapter", () => {
+    it("drops topK", () => {
+      const { callSettings, droppedSettings } = new LmStudioAdapter().buildCallSettings(FULL_FRONTMATTER);
+      expect(callSettings.topK).toBeUndefined();
+      expect(callSettings.frequencyPenalty).toBe(0.3);
+      expect(droppedSettings).toEqual(["topK"]);
+    });
+  });
+
+  describe("ZaiAdapter", () => {
+    it("drops topK", () => {
+      const { callSettings, droppedSettings } = new ZaiAdapter().buildCallSettings(FULL_FRONTMATTER);
+      expect(callSettings.topK).toBeUndefined();
+      expect(callSettings.stopSequences).toEqual(["###"]);
+      expect(droppedSettings).toEqual(["topK"]);
+    });
+  });
+});
+
+describe("reasoning settings", () => {
+  const effort: Partial<AiProviderConfig> = { reasoning_effort: "High" };
+  const budget: Partial<AiProviderConfig> = { thinking_budget: 4000 };
+
+  it("maps reasoning_effort for OpenAI with reasoning summaries", () => {
+    expect(new OpenAIAdapter().buildCallSettings(effort).callSettings.providerOptions).toEqual({
+      openai: { reasoningEffort: "high", reasoningSummary: "auto" },
+    });
+  });
+
+  it("maps thinking_budget to Anthropic extended thinking", () => {
+    expect(new AnthropicAdapter().buildCallSettings(budget).callSettings.providerOptions).toEqual({
+      anthropic: { thinking: { type: "enabled", budgetTokens: 4000 } },
+    });
+  });
+
+  it("maps reasoning_effort to a thinking budget for Gemini", () => {
+    expect(new GeminiAdapter().buildCallSettings(effort).callSettings.providerOptions).toEqual({
+      google: { thinkingConfig: { thinkingBudget: 16384, includeThoughts: true } },
+    });
+  });
+
+  it("prefers thinking_budget for OpenRouter", () => {
+    const { callSettings } = new OpenRouterAdapter().buildCallSettings({ ...effort, ...budget });
+    expect(callSettings.providerOptions).toEqual({ openrouter: { reasoning: { max_tokens: 4000 } } });
+  });
+
+  it("sends reasoning_effort to OpenAI-compatible providers", () => {
+    expect(new OllamaAdapter().buildCallSettings(effort).callSettings.providerOptions).toEqual({
+      ollama: { reasoningEffort: "high" },
+    });
+  });
+
+  it("drops values the provider cannot apply", () => {
+    const { callSettings, droppedSettings } = new OpenAIAdapter().buildCallSettings(budget);
+    expect(callSettings.providerOptions).toBeUndefined();
+    expect(droppedSettings).toEqual(["providerOptions"]);
+  });
+
+  it("sends no provider options without reasoning settings", () => {
+    expect(new AnthropicAdapter().buildCallSettings(FULL_FRONTMATTER).callSettings.providerOptions).toBeUndefined();
+  });
+});
+
+describe("supportsImageInput", () => {
+  it("accepts images for vision-capable providers", () => {
+    expect(new OpenAIAdapter().supportsImageInput("gpt-4.1-mini")).toBe(true);
+    expect(new AnthropicAdapter().supportsImageInput("claude-sonnet-4-20250514")).toBe(true);
+    expect(new GeminiAdapter().supportsImageInput("gemini-2.5-flash")).toBe(true);
+    expect(new OpenRouterAdapter().supportsImageInput("openai/gpt-4o")).toBe(true);
+  });
+
+  it("rejects text-only models", () => {
+    expect(new OpenAIAdapter().supportsImageInput("gpt-3.5-turbo")).toBe(false);
+    expect(new AnthropicAdapter().supportsImageInput("claude-2.1")).toBe(false);
+    expect(new LmStudioAdapter().supportsImageInput("qwen2.5-7b")).toBe(false);
+    expect(new ZaiAdapter().supportsImageInput("glm-4.7")).toBe(false);
+  });
+
+  it("detects Ollama vision models by name", () => {
+    const adapter = new OllamaAdapter();
+    expect(adapter.supportsImageInput("llava:13b")).toBe(true);
+    expect(adapter.supportsImageInput("llama3.2-vision")).toBe(true);
+    expect(adapter.supportsImageInput("llama3.1:8b")).toBe(false);
+  });
+});
+
+describe("supportsStructuredOutput", () => {
+  it("uses native structured outputs for hosted providers", () => {
+    expect(new OpenAIAdapter().supportsStructuredOutput("gpt-4.1-mini")).toBe(true);
+    expect(new AnthropicAdapter().supportsStructuredOutput("claude-sonnet-4-20250514")).toBe(true);
+    expect(new GeminiAdapter().supportsStructuredOutput("gemini-2.5-flash")).toBe(true);
+    expect(new OpenRouterAdapter().supportsStructuredOutput("openai/gpt-4o")).toBe(true);
+  });
+
+  it("asks for JSON in the prompt for other providers", () => {
+    expect(new OllamaAdapter().supportsStructuredOutput("llama3.1:8b")).toBe(false);
+    expect(new LmStudioAdapter().supportsStructuredOutput("qwen2.5-7b")).toBe(false);
+    expect(new ZaiAdapter().supportsStructuredOutput("glm-4.7")).toBe(false);
+  });
+});
+
+describe("getRateLimitResetHeaders", () => {
+  it("lists the reset headers of providers that send them", () => {
+    expect(new OpenAIAdapter().getRateLimitResetHeaders()).toContain("x-ratelimit-reset-tokens");
+    expect(new AnthropicAdapter().getRateLimitResetHeaders()).toContain("anthropic-ratelimit-requests-reset");
+    expect(new OpenRouterAdapter().getRateLimitResetHeaders()).toEqual(["x-ratelimit-reset"]);
+  });
+
+  it("relies on Retry-After for other providers", () => {
+    expect(new OllamaAdapter().getRateLimitResetHeaders()).toEqual([]);
+    expect(new GeminiAdapter().getRateLimitResetHeaders()).toEqual([]);
+  });
+});
+
+describe("getContextLength", () => {
+  it("uses the local table for known models", () => {
+    expect(new OpenAIAdapter().getContextLength("gpt-4o-mini")).toBe(128000);
+    expect(new AnthropicAdapter().getContextLength("claude-sonnet-4-20250514")).toBe(200000);
+    expect(new OllamaAdapter().getContextLength("llama3.1:8b")).toBe(131072);
+  });
+
+  it("strips OpenRouter vendor prefixes", () => {
+    expect(new OpenRouterAdapter().getContextLength("openai/gpt-4o")).toBe(128000);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(new LmStudioAdapter().getContextLength("my-finetune")).toBeUndefined();
+  });
+});
+
+describe("CustomProviderAdapter", () => {
+  const config = {
+    name: "groq",
+    url: "https://api.groq.com/openai",
+    pathSuffix: "/v1",
+    apiKey: "",
+    headers: "X-Team: research",
+    modelsEndpoint: "/v1/models",
+  };
+
+  it("uses the configured name as provider type", () => {
+    const adapter = new CustomProviderAdapter(config);
+    expect(adapter.type).toBe("groq");
+    expect(adapter.getDefaultBaseUrl()).toBe("https://api.groq.com/openai");
+  });
+
+  it("sends the extra headers and a bearer token only when a key is set", () => {
+    const adapter = new CustomProviderAdapter(config);
+    expect(adapter.getAuthHeaders("key")).toEqual({
+      Authorization: "Bearer key",
+      "Content-Type": "application/json",
+      "X-Team": "research",
+    });
+    expect(adapter.getAuthHeaders(undefined)).not.toHaveProperty("Authorization");
+  });
+
+  it("uses the configured path suffix, which may be empty", () => {
+    expect(new CustomProviderAdapter(config).getApiPathSuffix()).toBe("/v1");
+    expect(new CustomProviderAdapter({ ...config, pathSuffix: "" }).getApiPathSuffix()).toBe("");
+  });
+
+  it("fetches and prefixes models from the configured endpoint", async () => {
+    const makeGetRequest = jest.fn(
+      async (_url: string, _headers: Record<string, string>, _provider: string): Promise<any> => ({
+        data: [{ id: "mixtral-8x7b" }, { id: "llama-3.3-70b" }],
+      })
+    );
+    const models = await new CustomProviderAdapter(config).fetchModels(config.url, "key", undefined, makeGetRequest);
+    expect(makeGetRequest).toHaveBeenCalledWith(
+      "https://api.groq.com/openai/v1/models",
+      expect.objectContaining({ Authorization: "Bearer key" }),
+      "groq"
+    );
+    expect(models).toEqual(["groq@llama-3.3-70b", "groq@mixtral-8x7b"]);
+  });
+
+  it("does not list models without an endpoint", async () => {
+    const makeGetRequest = jest.fn(
+      async (_url: string, _headers: Record<string, string>, _provider: string): Promise<any> => ({})
+    );
+    const adapter = new CustomProviderAdapter({ ...config, modelsEndpoint: "" });
+    expect(await adapter.fetchModels(config.url, undefined, undefined, makeGetRequest)).toEqual([]);
+    expect(makeGetRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe("AzureAdapter", () => {
+  const settings = { azureApiVersion: "2024-10-21", azureDeployments: "chat: gpt-4o\nold-chat: gpt-35-turbo" };
+  const makeGetRequest = (response: unknown) =>
+    jest.fn(async (_url: string, _headers: Record<string, string>, _provider: string): Promise<any> => response);
+
+  it("authenticates with an api-key header and sends the API version", () => {
+    const adapter = new AzureAdapter(settings);
+    expect(adapter.getAuthHeaders("key")).toEqual({ "api-key": "key", "Content-Type": "application/json" });
+    expect(adapter.getQueryParams()).toEqual({ "api-version": "2024-10-21" });
+  });
+
+  it("sends requests to the endpoint of the deployment", () => {
+    expect(new AzureAdapter().getApiPathSuffix("https://x.openai.azure.com", "chat")).toBe("/openai/deployments/chat");
+  });
+
+  it("looks up capabilities for the model behind a deployment", () => {
+    const adapter = new AzureAdapter(settings);
+    expect(adapter.resolveModelName("chat")).toBe("gpt-4o");
+    expect(adapter.resolveModelName("gpt-4.1")).toBe("gpt-4.1");
+    expect(adapter.getContextLength("chat")).toBe(128000);
+    expect(adapter.supportsImageInput("chat")).toBe(true);
+    expect(adapter.supportsImageInput("old-chat")).toBe(false);
+  });
+
+  it("lists the deployments of the resource and the configured ones", async () => {
+    const request = makeGetRequest({
+      data: [
+        { id: "reasoning", model: "o4-mini", status: "succeeded" },
+        { id: "pending", model: "gpt-4.1", status: "creating" },
+      ],
+    });
+    const adapter = new AzureAdapter(settings);
+    const models = await adapter.fetchModels("https://x.openai.azure.com", "key", undefined, request);
+    expect(request.mock.calls[0][0]).toBe("https://x.openai.azure.com/openai/deployments?api-version=2022-12-01");
+    expect(models).toEqual(["azure@chat", "azure@old-chat", "azure@reasoning"]);
+    expect(adapter.resolveModelName("reasoning")).toBe("o4-mini");
+  });
+
+  it("lists the configured deployments when the deployments endpoint fails", async () => {
+    const request = jest.fn(async (_url: string, _headers: Record<string, string>, _provider: string): Promise<any> => {
+      throw new Error("404");
+    });
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const models = await new AzureAdapter(settings).fetchModels(
+      "https://x.openai.azure.com",
+      "key",
+      undefined,
+      request
+    );
+    expect(models).toEqual(["azure@chat", "azure@old-chat"]);
+  });
+});
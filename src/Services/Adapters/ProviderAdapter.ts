@@ -1,11 +1,14 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
 import { AiServiceType } from "src/Constants";
+import { ModelPricing } from "src/Models/Usage";
+import { ResponseFormat } from "src/Models/StructuredOutput";
+import { JSONValue } from "ai";
 
 /**
- * Union type for all supported AI providers
- * Derived from AI_SERVICES constants
+ * Identifier of an AI provider
+ * One of the AI_SERVICES constants, or the name of a custom OpenAI-compatible provider
  */
-export type ProviderType = AiServiceType;
+export type ProviderType = AiServiceType | string;
 
 /**
  * Unified configuration interface for all AI providers
@@ -28,6 +31,70 @@ export interface AiProviderConfig {
   frequencyPenalty?: number;
   presencePenalty?: number;
   apiKey?: string;
+
+  // Generation parameters as written in note frontmatter
+  max_tokens?: number;
+  top_p?: number;
+  top_k?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  stop?: string | string[] | null;
+  seed?: number;
+
+  /** Maximum rounds of tool calls per response */
+  max_tool_steps?: number;
+
+  /** Models tried in order when the request fails with a retryable error */
+  fallback_models?: string | string[];
+
+  // Reasoning parameters as written in note frontmatter
+  reasoning_effort?: string;
+  thinking_budget?: number;
+
+  /** Structured output, resolved from the response_format frontmatter */
+  response_format?: ResponseFormat;
+}
+
+/**
+ * Generation settings forwarded to AI SDK generateText/streamText calls
+ */
+export interface AiCallSettings {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  stopSequences?: string[];
+  seed?: number;
+  /** Retries of the AI SDK, turned off as AiProviderService retries with its own policy */
+  maxRetries?: number;
+  /** Provider-specific options, keyed by provider (used for reasoning settings) */
+  providerOptions?: Record<string, Record<string, JSONValue>>;
+}
+
+/**
+ * Reasoning settings from the reasoning_effort and thinking_budget frontmatter keys
+ */
+export interface ReasoningSettings {
+  /** Reasoning effort (e.g., "low", "medium", "high") */
+  effort?: string;
+  /** Maximum tokens the model may spend on thinking */
+  budget?: number;
+}
+
+/**
+ * Name of a single AI SDK call setting
+ */
+export type CallSettingName = keyof AiCallSettings;
+
+/**
+ * Result of mapping frontmatter parameters to AI SDK call settings
+ */
+export interface CallSettingsResult {
+  callSettings: AiCallSettings;
+  /** Settings present in the config but not supported by the provider */
+  droppedSettings: CallSettingName[];
 }
 
 /**
@@ -96,6 +163,58 @@ export interface ProviderAdapter {
    */
   supportsToolCalling(): boolean;
 
+  /**
+   * Whether a model accepts image input (vision)
+   * @param modelName - Model name without provider prefix
+   */
+  supportsImageInput(modelName: string): boolean;
+
+  /**
+   * Whether the provider constrains responses to a JSON Schema natively (structured outputs)
+   * Other providers are asked for JSON in the prompt
+   * @param modelName - Model name without provider prefix
+   */
+  supportsStructuredOutput(modelName: string): boolean;
+
+  /**
+   * Response headers telling when the provider's rate limits reset
+   * Read on 429 responses without Retry-After to decide how long to wait before retrying
+   */
+  getRateLimitResetHeaders(): string[];
+
+  /**
+   * Headers sent with every request in addition to the authentication headers
+   * Custom providers: the Extra Headers setting
+   */
+  getExtraHeaders(): Record<string, string>;
+
+  /**
+   * Query parameters sent with every request
+   * Azure OpenAI: api-version
+   */
+  getQueryParams(): Record<string, string>;
+
+  /**
+   * Name of the model behind a model name, used to look up capabilities such as tool support
+   * Azure OpenAI: the model of a deployment
+   * @param modelName - Model name without provider prefix
+   */
+  resolveModelName(modelName: string): string;
+
+  /**
+   * Context window size of a model in tokens
+   * @param modelName - Model name without provider prefix
+   * @returns Context length, or undefined if unknown
+   */
+  getContextLength(modelName: string): number | undefined;
+
+  /**
+   * Prices of a model as reported by the provider
+   * @param modelName - Model name without provider prefix
+   * @returns Prices in USD per million tokens, or undefined if unknown
+   */
+  getModelPricing(modelName: string): ModelPricing | undefined;
+
   /**
    * Whether this provider requires an API key
    * Ollama and LM Studio: false
@@ -115,7 +234,17 @@ export interface ProviderAdapter {
    * Most OpenAI-compatible providers use "/v1"
    * OpenRouter uses "/api/v1" to handle its unique structure
    * Z.AI returns "/api/paas/v4" or "/api/anthropic/v1" depending on the URL
+   * Azure OpenAI returns the path of the deployment
    * @param url - Optional URL to determine the correct suffix (used by Z.AI for mode detection)
+   * @param modelName - Optional model name without provider prefix (used by Azure OpenAI)
+   */
+  getApiPathSuffix(url?: string, modelName?: string): string;
+
+  /**
+   * Map frontmatter generation parameters to AI SDK call settings
+   * e.g., max_tokens -> maxOutputTokens, top_p -> topP, stop -> stopSequences
+   * Parameters the provider does not accept are dropped and reported
+   * @param config - Merged configuration (defaults, settings and note frontmatter)
    */
-  getApiPathSuffix(url?: string): string;
+  buildCallSettings(config: Partial<AiProviderConfig>): CallSettingsResult;
 }
@@ -1,5 +1,5 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
-import { ProviderType } from "./ProviderAdapter";
+import { CallSettingName, ProviderType } from "./ProviderAdapter";
 import { BaseProviderAdapter } from "./BaseProviderAdapter";
 
 /**
@@ -130,4 +130,8 @@ export class ZaiAdapter extends BaseProviderAdapter {
   requiresApiKey(): boolean {
     return true; // Z.AI requires an API key
   }
+
+  protected override getUnsupportedCallSettings(): CallSettingName[] {
+    return ["topK"]; // Both API modes are called through the OpenAI-compatible provider
+  }
 }
@@ -0,0 +1,209 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { AiProviderService } from "./AiProviderService";
+import { appendToAssistantHeader } from "src/Utilities/ResponseHelpers";
+import { formatFallbackLabel } from "src/Utilities/FallbackHelpers";
+
+/** Editor mock backed by a string, so inserted and removed text can be checked */
+function createTextEditor(): any {
+  let value = "";
+  let cursor = { line: 0, ch: 0 };
+  const lines = () => value.split("\n");
+  const posToOffset = (pos: { line: number; ch: number }) =>
+    lines()
+      .slice(0, pos.line)
+      .reduce((offset, line) => offset + line.length + 1, 0) + pos.ch;
+  const offsetToPos = (offset: number) => {
+    const before = value.slice(0, offset).split("\n");
+    return { line: before.length - 1, ch: before[before.length - 1].length };
+  };
+
+  return {
+    getValue: () => value,
+    getCursor: () => cursor,
+    setCursor: (pos: { line: number; ch: number }) => (cursor = pos),
+    getLine: (line: number) => lines()[line] ?? "",
+    lastLine: () => lines().length - 1,
+    posToOffset,
+    offsetToPos,
+    replaceRange: (text: string, from: { line: number; ch: number }, to = from) => {
+      value = value.slice(0, posToOffset(from)) + text + value.slice(posToOffset(to));
+    },
+  };
+}
+
+const rateLimitError = () =>
+  Object.assign(new Error("Rate limit reached"), { name: "AI_APICallError", statusCode: 429 });
+
+/** Model that streams a text answer */
+function answeringModel(text: string): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: "text-start" as const, id: "1" },
+          { type: "text-delta" as const, id: "1", delta: text },
+          { type: "text-end" as const, id: "1" },
+          {
+            type: "finish" as const,
+            finishReason: { unified: "stop" as const, raw: "stop" },
+            usage: {
+              inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+              outputTokens: { total: 5, text: 5, reasoning: undefined },
+            },
+          },
+        ],
+      }),
+    }),
+  });
+}
+
+/** Model whose requests fail with a rate limit */
+function rateLimitedModel(): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    doStream: async () => {
+      throw rateLimitError();
+    },
+  });
+}
+
+const settings: any = { retryMaxAttempts: 2, retryBaseDelay: 0, retryMaxDelay: 1, fallbackModels: "" };
+const messages = [{ role: "user", content: "Hi" }];
+
+describe("AiProviderService streaming errors", () => {
+  let service: AiProviderService;
+  let models: Record<string, MockLanguageModelV3>;
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    service = new AiProviderService();
+    models = {};
+    jest.spyOn(service as any, "getProviderFactory").mockReturnValue(() => (modelName: string) => models[modelName]);
+  });
+
+  const callStreaming = (editor: any, options: Record<string, unknown>) =>
+    service.callAiAPI(messages, { stream: true, ...options }, "#", "http://localhost", editor, false, "key", settings);
+
+  it("retries a stream that fails with a rate limit", async () => {
+    let calls = 0;
+    const flaky = answeringModel("Hello");
+    const answer = flaky.doStream;
+    models["gpt-4o"] = new MockLanguageModelV3({
+      doStream: async (options) => {
+        calls++;
+        if (calls === 1) throw rateLimitError();
+        return answer(options);
+      },
+    });
+    const editor = createTextEditor();
+
+    const response = await callStreaming(editor, { model: "openai@gpt-4o" });
+
+    expect(calls).toBe(2);
+    expect(response.error).toBeUndefined();
+    expect(response.fullString).toBe("Hello");
+    expect(editor.getValue()).not.toContain("Error");
+  });
+
+  it("reports the error once the retries are used up", async () => {
+    models["gpt-4o"] = rateLimitedModel();
+    const editor = createTextEditor();
+
+    const response = await callStreaming(editor, { model: "openai@gpt-4o" });
+
+    expect(models["gpt-4o"].doStreamCalls).toHaveLength(2);
+    expect(response.error).toMatchObject({ statusCode: 429 });
+    expect(editor.getValue().match(/Rate limit reached/g)).toHaveLength(1);
+  });
+
+  it("reports errors when tool calling is on but the model gets no tools", async () => {
+    models["gpt-4o"] = rateLimitedModel();
+    const editor = createTextEditor();
+    const toolSettings = {
+      ...settings,
+      enableToolCalling: true,
+      toolProbeResults: { "openai@gpt-4o": { status: "unsupported", probedAt: "2026-10-01T00:00:00.000Z" } },
+    };
+    const toolService: any = { getToolsForRequest: () => ({ vault_search: {} }) };
+
+    const response = await service.callAiAPI(
+      messages,
+      { stream: true, model: "openai@gpt-4o" },
+      "#",
+      "http://localhost",
+      editor,
+      false,
+      "key",
+      toolSettings,
+      toolService
+    );
+
+    expect(models["gpt-4o"].doStreamCalls[0].tools).toBeUndefined();
+    expect(models["gpt-4o"].doStreamCalls).toHaveLength(2);
+    expect(response.error).toMatchObject({ statusCode: 429 });
+  });
+
+  it("falls back to the next model when a streamed model fails", async () => {
+    models["gpt-4o"] = rateLimitedModel();
+    models["llama3"] = answeringModel("Hello from llama");
+    const editor = createTextEditor();
+
+    const response = await callStreaming(editor, { model: "openai@gpt-4o", fallback_models: "ollama@llama3" });
+
+    expect(response.fullString).toBe("Hello from llama");
+    expect(response.fallback).toEqual({
+      model: "ollama@llama3",
+      failures: [{ model: "openai@gpt-4o", reason: "rate limited (429)" }],
+    });
+
+    const { model, failures } = response.fallback!;
+    expect(appendToAssistantHeader(editor, { line: 0, ch: 0 }, formatFallbackLabel(model, failures))).toBe(true);
+    expect(editor.getValue()).toContain(`(ollama@llama3)</span>${formatFallbackLabel(model, failures)}`);
+    expect(editor.getValue()).toContain("Hello from llama");
+    expect(editor.getValue().match(/#role::assistant/g)).toHaveLength(1);
+    expect(editor.getValue()).not.toContain("Error");
+  });
+});
+
+describe("AiProviderService title inference", () => {
+  let service: AiProviderService;
+
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    service = new AiProviderService();
+  });
+
+  it("retries a title request that fails with a rate limit", async () => {
+    let calls = 0;
+    const model = new MockLanguageModelV3({
+      doGenerate: async () => {
+        calls++;
+        if (calls === 1) throw rateLimitError();
+        return {
+          content: [{ type: "text" as const, text: "Weekend Plans" }],
+          finishReason: { unified: "stop" as const, raw: "stop" },
+          usage: {
+            inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+            outputTokens: { total: 3, text: 3, reasoning: undefined },
+          },
+          warnings: [],
+        };
+      },
+    });
+    jest.spyOn(service as any, "getProviderFactory").mockReturnValue(() => () => model);
+
+    const response = await (service as any).inferTitleFromMessages("key", ["Hi", "Hello"], {
+      ...settings,
+      model: "openai@gpt-4o",
+      inferTitleLanguage: "English",
+    });
+
+    expect(calls).toBe(2);
+    expect(response.fullString).toBe("Weekend Plans");
+  });
+});
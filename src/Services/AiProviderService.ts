@@ -1,6 +1,10 @@
 import { Editor, MarkdownView } from "obsidian";
-import { Message } from "src/Models/Message";
-import { ChatGPT_MDSettings } from "src/Models/Config";
+import { Message, ToolCallRecord } from "src/Models/Message";
+import { ModelPricing, TokenUsage } from "src/Models/Usage";
+import { ModelInfo } from "src/Models/ModelCatalog";
+import { ToolProbeOutcome } from "src/Models/ToolProbe";
+import { ResponseFormat } from "src/Models/StructuredOutput";
+import { AzureSettings, ChatGPT_MDSettings, CustomProviderConfig } from "src/Models/Config";
 import { EditorService } from "./EditorService";
 import { ApiService } from "./ApiService";
 import { ApiAuthService } from "./ApiAuthService";
@@ -10,7 +14,36 @@ import { ToolService } from "./ToolService";
 import { StreamingHandler } from "./StreamingHandler";
 import { isModelWhitelisted } from "./ToolSupportDetector";
 import { insertAssistantHeader } from "src/Utilities/ResponseHelpers";
-import { AiProviderInstance, IAiApiService, ProviderFactory, StreamingResponse } from "src/Types/AiTypes";
+import { ErrorMessages } from "src/Utilities/ErrorMessageFormatter";
+import { formatToolCallCallouts } from "src/Utilities/ToolCallHelpers";
+import { addUsage, hasUsage, toTokenUsage } from "src/Utilities/UsageHelpers";
+import { getFallbackReason, parseModelList } from "src/Utilities/FallbackHelpers";
+import { formatRetryStatus, getRetryDelay, getRetryPolicy } from "src/Utilities/RetryHelpers";
+import { executeAsyncWithRetry } from "src/Utilities/AsyncErrorHandler";
+import { getProbedToolSupport, toFailedProbeResult } from "src/Utilities/ToolProbeHelpers";
+import { getApiUrlsFromFrontmatter } from "src/Utilities/FrontmatterHelpers";
+import {
+  buildStructuredOutputInstruction,
+  formatStructuredResponse,
+  parseJsonResponse,
+  validateStructuredResponse,
+} from "src/Utilities/StructuredOutputHelpers";
+import {
+  formatThinkingCallout,
+  formatThinkingDelta,
+  removeThinkingCallouts,
+  startThinkingCallout,
+  THINKING_CALLOUT_END,
+} from "src/Utilities/ReasoningHelpers";
+import {
+  AiApiResponse,
+  AiProviderInstance,
+  FallbackFailure,
+  IAiApiService,
+  ProviderFactory,
+  StreamingResponse,
+  TitleInference,
+} from "src/Types/AiTypes";
 
 // AI SDK providers
 import { createOpenAI } from "@ai-sdk/openai";
@@ -18,10 +51,22 @@ import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
-import { generateText, LanguageModel, streamText } from "ai";
+import {
+  generateObject,
+  generateText,
+  jsonSchema,
+  JSONSchema7,
+  LanguageModel,
+  ModelMessage,
+  NoObjectGeneratedError,
+  streamText,
+  tool,
+  zodSchema,
+} from "ai";
+import { z } from "zod";
 
 // Adapters
-import { AiProviderConfig, ProviderAdapter, ProviderType } from "./Adapters/ProviderAdapter";
+import { AiCallSettings, AiProviderConfig, ProviderAdapter, ProviderType } from "./Adapters/ProviderAdapter";
 import { OpenAIAdapter } from "./Adapters/OpenAIAdapter";
 import { AnthropicAdapter } from "./Adapters/AnthropicAdapter";
 import { OllamaAdapter } from "./Adapters/OllamaAdapter";
@@ -29,9 +74,50 @@ import { OpenRouterAdapter } from "./Adapters/OpenRouterAdapter";
 import { GeminiAdapter } from "./Adapters/GeminiAdapter";
 import { LmStudioAdapter } from "./Adapters/LmStudioAdapter";
 import { ZaiAdapter } from "./Adapters/ZaiAdapter";
+import { AzureAdapter } from "./Adapters/AzureAdapter";
+import { CustomProviderAdapter } from "./Adapters/CustomProviderAdapter";
 
 // Constants
-import { NEWLINE, ROLE_USER, TITLE_INFERENCE_ERROR_HEADER, TRUNCATION_ERROR_INDICATOR } from "src/Constants";
+import {
+  DEFAULT_MAX_TOOL_STEPS,
+  NEWLINE,
+  ROLE_ASSISTANT,
+  ROLE_SYSTEM,
+  ROLE_USER,
+  TITLE_INFERENCE_ERROR_HEADER,
+  TOOL_PROBE_PROMPT,
+  TOOL_PROBE_TOOL_NAME,
+  TRUNCATION_ERROR_INDICATOR,
+} from "src/Constants";
+
+/**
+ * State shared by the rounds of a streaming tool call loop
+ */
+interface StreamToolLoopContext {
+  handler: StreamingHandler;
+  editor: Editor;
+  model: LanguageModel;
+  modelName: string;
+  /** Chat messages of the original request */
+  messages: Message[];
+  callSettings: AiCallSettings;
+  abortSignal: AbortSignal;
+  tools: unknown;
+  toolService: ToolService;
+  maxToolSteps: number;
+  settings?: ChatGPT_MDSettings;
+  /** Token usage of all requests so far, updated by each continuation */
+  usage: TokenUsage;
+}
+
+/**
+ * Create an Azure OpenAI provider
+ * Azure OpenAI speaks the OpenAI-compatible API but authenticates with an api-key header instead of a Bearer token
+ */
+const createAzureOpenAI: ProviderFactory = (config) => {
+  const { apiKey, headers, ...options } = config;
+  return createOpenAICompatible({ ...options, headers: { ...headers, "api-key": apiKey } });
+};
 
 /**
  * Unified AI Provider Service
@@ -51,10 +137,20 @@ export class AiProviderService implements IAiApiService {
   // AI SDK provider instance (created per request)
   private provider?: AiProviderInstance;
 
+  // Model of the current request, which differs from the chat model after a fallback
+  private currentModel = "";
+
+  // Shows retry countdowns, e.g. in the status bar
+  private statusCallback?: (text: string) => void;
+
   // Static callback for saving settings
   private static saveSettingsCallback: (() => Promise<void>) | null = null;
 
-  constructor() {
+  /**
+   * @param customProviders - OpenAI-compatible providers from the settings, registered next to the built-in ones
+   * @param azureSettings - API version and deployments of Azure OpenAI
+   */
+  constructor(customProviders: CustomProviderConfig[] = [], azureSettings: Partial<AzureSettings> = {}) {
     this.notificationService = new NotificationService();
     this.errorService = new ErrorService(this.notificationService);
     this.apiService = new ApiService(this.errorService, this.notificationService);
@@ -69,7 +165,11 @@ export class AiProviderService implements IAiApiService {
       ["gemini", new GeminiAdapter()],
       ["lmstudio", new LmStudioAdapter()],
       ["zai", new ZaiAdapter()],
+      ["azure", new AzureAdapter(azureSettings)],
     ]);
+    for (const customProvider of customProviders) {
+      this.adapters.set(customProvider.name, new CustomProviderAdapter(customProvider));
+    }
 
     // Default to OpenAI
     this.currentAdapter = this.adapters.get("openai")!;
@@ -87,23 +187,155 @@ export class AiProviderService implements IAiApiService {
    * @param model - Model ID with optional provider prefix (e.g., "openai@gpt-4" or "gpt-4")
    */
   private setProviderFromModel(model: string): void {
-    // Extract provider from model prefix
+    this.currentAdapter = this.getAdapterForModel(model);
+  }
+
+  /**
+   * Get the provider adapter for a model string
+   * Falls back to OpenAI when the model has no known provider prefix
+   */
+  private getAdapterForModel(model: string): ProviderAdapter {
     for (const [type, adapter] of this.adapters) {
       if (model.startsWith(`${type}@`)) {
-        this.currentAdapter = adapter;
-        return;
+        return adapter;
       }
     }
 
     // No prefix found - use default (OpenAI)
-    this.currentAdapter = this.adapters.get("openai")!;
+    return this.adapters.get("openai")!;
+  }
+
+  /**
+   * Get the context window size of a model
+   * @param model - Model ID with optional provider prefix
+   * @returns Context length in tokens, or undefined if unknown
+   */
+  getContextLength(model: string): number | undefined {
+    const adapter = this.getAdapterForModel(model);
+    return adapter.getContextLength(adapter.extractModelName(model));
+  }
+
+  /**
+   * Get the prices of a model as reported by its provider
+   * @param model - Model ID with optional provider prefix
+   * @returns Prices in USD per million tokens, or undefined if unknown
+   */
+  getModelPricing(model: string): ModelPricing | undefined {
+    const adapter = this.getAdapterForModel(model);
+    return adapter.getModelPricing(adapter.extractModelName(model));
+  }
+
+  /**
+   * Describe a model for the model catalog from its provider's model data
+   * Call after fetching the provider's models, which is when providers report context lengths and prices
+   * @param model - Model ID with provider prefix
+   * @param now - Time the model was listed
+   */
+  describeModel(model: string, settings: ChatGPT_MDSettings, now: Date = new Date()): ModelInfo {
+    const adapter = this.getAdapterForModel(model);
+    const modelName = adapter.extractModelName(model);
+
+    return {
+      id: model,
+      provider: adapter.type,
+      contextLength: adapter.getContextLength(modelName),
+      pricing: adapter.getModelPricing(modelName),
+      modalities: adapter.supportsImageInput(modelName) ? ["text", "image"] : ["text"],
+      supportsTools: adapter.supportsToolCalling() && this.modelSupportsTools(model, settings),
+      lastSeen: now.toISOString(),
+    };
+  }
+
+  /**
+   * Check whether a model calls tools by sending a minimal request that requires a tool call
+   * The tool has no execute function, so the call is returned instead of run.
+   * @param model - Model ID with provider prefix
+   * @param url - Base URL of the model's provider
+   * @param abortSignal - Cancels the request
+   * @param now - Time of the probe
+   * @returns "supported" when the model calls the tool, "unsupported" when it answers without calling it or the
+   * provider rejects the tool, "error" for other failures, with the token usage of answered requests
+   */
+  async probeToolSupport(
+    model: string,
+    url: string,
+    apiKey: string | undefined,
+    abortSignal?: AbortSignal,
+    now: Date = new Date()
+  ): Promise<ToolProbeOutcome> {
+    this.setProviderFromModel(model);
+    this.currentModel = model;
+    this.provider = undefined;
+
+    try {
+      this.ensureProvider(apiKey, { ...this.getDefaultConfig(), model, url });
+      const response = await generateText({
+        model: this.provider!(this.extractModelName(model)),
+        messages: [{ role: ROLE_USER, content: TOOL_PROBE_PROMPT }],
+        tools: {
+          [TOOL_PROBE_TOOL_NAME]: tool({
+            description: "Get the current date and time",
+            inputSchema: zodSchema(z.object({})),
+          }),
+        },
+        toolChoice: "required",
+        maxRetries: 0,
+        abortSignal,
+      });
+
+      const called = response.toolCalls.some((toolCall) => toolCall.toolName === TOOL_PROBE_TOOL_NAME);
+      const usage = toTokenUsage(response.usage);
+      return {
+        result: { status: called ? "supported" : "unsupported", probedAt: now.toISOString() },
+        usage: hasUsage(usage) ? usage : undefined,
+      };
+    } catch (error) {
+      return { result: toFailedProbeResult(error, now) };
+    } finally {
+      this.provider = undefined;
+    }
   }
 
   /**
-   * Check if a model supports tools (whitelist check)
+   * Check if a model supports tools
+   * Probe results win over the whitelist, which is checked for the model and the model behind it (Azure deployments)
    */
   private modelSupportsTools(modelName: string, settings: ChatGPT_MDSettings): boolean {
-    return isModelWhitelisted(modelName, settings.toolEnabledModels || "");
+    const probed = getProbedToolSupport(modelName, settings.toolProbeResults);
+    if (probed !== undefined) {
+      return probed;
+    }
+
+    const adapter = this.getAdapterForModel(modelName);
+    const resolvedName = adapter.resolveModelName(adapter.extractModelName(modelName));
+    const whitelist = settings.toolEnabledModels || "";
+    return isModelWhitelisted(modelName, whitelist) || isModelWhitelisted(resolvedName, whitelist);
+  }
+
+  /**
+   * Map frontmatter generation parameters to AI SDK call settings for the current provider
+   * Unsupported parameters are dropped by the adapter and logged in debug mode
+   * AI SDK retries are turned off, requests are retried by callModelWithRetry
+   */
+  private getCallSettings(config: AiProviderConfig, settings?: ChatGPT_MDSettings): AiCallSettings {
+    const { callSettings, droppedSettings } = this.currentAdapter.buildCallSettings(config);
+
+    if (droppedSettings.length > 0 && settings?.debugMode) {
+      console.debug(
+        `[ChatGPT MD] ${this.currentAdapter.displayName} does not support ${droppedSettings.join(", ")}, not sending`
+      );
+    }
+
+    return { ...callSettings, maxRetries: 0 };
+  }
+
+  /**
+   * Get the maximum number of tool call rounds per response
+   * The max_tool_steps frontmatter value overrides the setting
+   */
+  private getMaxToolSteps(config: AiProviderConfig, settings?: ChatGPT_MDSettings): number {
+    const steps = Number(config.max_tool_steps ?? settings?.maxToolSteps);
+    return Number.isInteger(steps) && steps > 0 ? steps : DEFAULT_MAX_TOOL_STEPS;
   }
 
   /**
@@ -171,6 +403,8 @@ export class AiProviderService implements IAiApiService {
 
   /**
    * Call the AI API with the given parameters
+   * When the model fails with a retryable error (network, 429, 5xx, context length), the request is sent to the
+   * next model of the fallback_models frontmatter or the Fallback Models setting
    */
   async callAiAPI(
     messages: Message[],
@@ -182,17 +416,214 @@ export class AiProviderService implements IAiApiService {
     apiKey?: string,
     settings?: ChatGPT_MDSettings,
     toolService?: ToolService
-  ): Promise<{ fullString: string; mode: string; wasAborted?: boolean }> {
+  ): Promise<AiApiResponse> {
+    const model = options.model ?? this.getDefaultConfig().model;
+    const fallbackModels = parseModelList(options.fallback_models ?? settings?.fallbackModels).filter(
+      (fallbackModel) => fallbackModel !== model
+    );
+    const failures: FallbackFailure[] = [];
+    let attempt = { options, url, apiKey };
+
+    for (let index = 0; ; index++) {
+      const nextModel = fallbackModels[index];
+      const editorStart = editor && nextModel ? this.getEditorInsertionStart(editor) : undefined;
+
+      const { response, error, cancelled } = await this.callModelWithRetry(editor, settings, () =>
+        this.callModelAPI(
+          messages,
+          attempt.options,
+          headingPrefix,
+          attempt.url,
+          editor,
+          setAtCursor,
+          attempt.apiKey,
+          settings,
+          toolService
+        )
+      );
+
+      const reason = nextModel && !cancelled ? getFallbackReason(error) : undefined;
+      if (!reason) {
+        if (!response) throw error;
+        return failures.length > 0 ? { ...response, fallback: { model: this.currentModel, failures } } : response;
+      }
+
+      console.warn(`[ChatGPT MD] ${this.currentModel} failed (${reason}), falling back to ${nextModel}:`, error);
+      this.notificationService.showWarning(`${this.currentModel} failed (${reason}), trying ${nextModel}`);
+      failures.push({ model: this.currentModel, reason });
+
+      if (editor && editorStart) {
+        this.removeInsertedText(editor, editorStart);
+      }
+      attempt = this.getFallbackAttempt(options, nextModel, settings);
+    }
+  }
+
+  /**
+   * Set the callback showing retry countdowns
+   */
+  setStatusCallback(callback: (text: string) => void): void {
+    this.statusCallback = callback;
+  }
+
+  /**
+   * Call a model, retrying network errors, rate limits (429) and server errors (5xx) with exponential backoff
+   * Waits as long as the provider asks (Retry-After or rate limit reset headers) within the retry policy.
+   * The wait is counted down in the status bar and cancelled by the stop streaming command.
+   */
+  private async callModelWithRetry(
+    editor: Editor | undefined,
+    settings: ChatGPT_MDSettings | undefined,
+    call: () => Promise<AiApiResponse>
+  ): Promise<{ response?: AiApiResponse; error?: unknown; cancelled?: boolean }> {
+    const policy = getRetryPolicy(settings ?? {});
+    const editorStart = editor ? this.getEditorInsertionStart(editor) : undefined;
+    let result: { response?: AiApiResponse; error?: unknown; cancelled?: boolean } = {};
+
+    try {
+      await executeAsyncWithRetry(
+        async () => {
+          if (editor && editorStart && result.error !== undefined) {
+            this.removeInsertedText(editor, editorStart);
+          }
+          result = await this.tryCallModelAPI(call);
+          if (result.error !== undefined) throw result.error;
+        },
+        policy.maxAttempts,
+        (error, attempt) => getRetryDelay(error, attempt, policy, this.currentAdapter.getRateLimitResetHeaders()),
+        (error, attempt) =>
+          console.warn(
+            `[ChatGPT MD] ${this.currentModel} failed (attempt ${attempt} of ${policy.maxAttempts}):`,
+            error
+          ),
+        (delayMs, attempt) =>
+          this.waitForRetry(delayMs, getFallbackReason(result.error) ?? "failed", attempt + 1, policy.maxAttempts)
+      );
+    } catch {
+      result = { ...result, cancelled: this.apiService.wasAborted() };
+    }
+
+    return result;
+  }
+
+  /**
+   * Wait before retrying, counting down in the status bar
+   * Rejects when the stop streaming command cancels the wait
+   */
+  private waitForRetry(delayMs: number, reason: string, attempt: number, maxAttempts: number): Promise<void> {
+    const abortController = new AbortController();
+    this.apiService.setAbortController(abortController);
+    const endsAt = Date.now() + delayMs;
+
+    return new Promise((resolve, reject) => {
+      const showCountdown = () =>
+        this.statusCallback?.(formatRetryStatus(this.currentModel, reason, endsAt - Date.now(), attempt, maxAttempts));
+      const countdown = setInterval(showCountdown, 1000);
+      const finish = () => {
+        clearInterval(countdown);
+        clearTimeout(timeout);
+        this.statusCallback?.(`Calling ${this.currentModel}`);
+      };
+      const timeout = setTimeout(() => {
+        finish();
+        resolve();
+      }, delayMs);
+
+      abortController.signal.addEventListener("abort", () => {
+        finish();
+        reject(new Error(`Retrying ${this.currentModel} was cancelled`));
+      });
+      showCountdown();
+    });
+  }
+
+  /**
+   * Run one attempt and return its error instead of throwing, including errors reported by a streamed response
+   */
+  private async tryCallModelAPI(
+    call: () => Promise<AiApiResponse>
+  ): Promise<{ response?: AiApiResponse; error?: unknown }> {
+    try {
+      const response = await call();
+      return { response, error: response.error };
+    } catch (error) {
+      return { error };
+    }
+  }
+
+  /**
+   * Build the request options, URL and API key for a fallback model
+   * The provider is taken from the model prefix, generation settings from the original request
+   */
+  private getFallbackAttempt(
+    options: Partial<AiProviderConfig>,
+    model: string,
+    settings?: ChatGPT_MDSettings
+  ): { options: Partial<AiProviderConfig>; url: string; apiKey: string | undefined } {
+    const providerType = this.getAdapterForModel(model).type;
+
+    // The cached AI SDK provider belongs to the previous model's provider
+    this.provider = undefined;
+
+    return {
+      options: { ...options, model },
+      url: getApiUrlsFromFrontmatter(options)[providerType],
+      apiKey: settings ? this.apiAuthService.getApiKey(settings, providerType) : undefined,
+    };
+  }
+
+  /**
+   * Remember where a response starts so a failed attempt can be removed from the editor
+   */
+  private getEditorInsertionStart(editor: Editor): { offset: number; length: number } {
+    return { offset: editor.posToOffset(editor.getCursor()), length: editor.getValue().length };
+  }
+
+  /**
+   * Remove the text a failed attempt wrote to the editor (assistant header, partial response and error message)
+   */
+  private removeInsertedText(editor: Editor, start: { offset: number; length: number }): void {
+    const insertedLength = editor.getValue().length - start.length;
+    const from = editor.offsetToPos(start.offset);
+    editor.replaceRange("", from, editor.offsetToPos(start.offset + insertedLength));
+    editor.setCursor(from);
+  }
+
+  /**
+   * Call the AI API with a single model
+   */
+  private async callModelAPI(
+    messages: Message[],
+    options: Partial<AiProviderConfig>,
+    headingPrefix: string,
+    url: string,
+    editor?: Editor,
+    setAtCursor?: boolean,
+    apiKey?: string,
+    settings?: ChatGPT_MDSettings,
+    toolService?: ToolService
+  ): Promise<AiApiResponse> {
     const config = { ...this.getDefaultConfig(), ...options };
+    this.currentModel = config.model;
 
     // Set provider from model
     this.setProviderFromModel(config.model);
 
+    const hasImages = messages.some((message) => message.images && message.images.length > 0);
+    if (hasImages && !this.currentAdapter.supportsImageInput(this.extractModelName(config.model))) {
+      throw new Error(ErrorMessages.MEDIA.IMAGES_NOT_SUPPORTED(config.model));
+    }
+
     // Use URL from settings if available
     if (settings) {
       config.url = url;
     }
 
+    // Structured output is generated as a whole and validated before it is written to the note
+    if (config.response_format) {
+      return this.callStructuredOutputAPI(apiKey, messages, config, config.response_format, settings);
+    }
+
     return config.stream && editor
       ? this.callStreamingAPI(apiKey, messages, config, editor, headingPrefix, setAtCursor, settings, toolService)
       : this.callNonStreamingAPI(apiKey, messages, config, settings, toolService);
@@ -200,13 +631,16 @@ export class AiProviderService implements IAiApiService {
 
   /**
    * Infer a title from messages
+   * @returns The title and the token usage of the request, which is returned even if no title was inferred
    */
   async inferTitle(
     view: MarkdownView,
     settings: ChatGPT_MDSettings,
     messages: string[],
     editorService: EditorService
-  ): Promise<string> {
+  ): Promise<TitleInference> {
+    let usage: TokenUsage | undefined;
+
     try {
       if (!view.file) {
         throw new Error("No active file found");
@@ -214,40 +648,26 @@ export class AiProviderService implements IAiApiService {
 
       const apiKey = this.getApiKeyFromSettings(settings);
       const titleResponse = await this.inferTitleFromMessages(apiKey, messages, settings);
+      usage = titleResponse?.usage;
+      const titleStr = titleResponse?.fullString ?? "";
 
-      let titleStr = "";
-
-      if (typeof titleResponse === "string") {
-        if (this.isTruncationError(titleResponse)) {
-          this.handleTitleTruncationError(view, titleResponse);
-          this.showNoTitleInferredNotification();
-          return "";
-        }
-        titleStr = titleResponse;
-      } else if (titleResponse && typeof titleResponse === "object") {
-        const responseObj = titleResponse as { fullString?: string };
-        const responseText = responseObj.fullString || "";
-
-        if (this.isTruncationError(responseText)) {
-          this.handleTitleTruncationError(view, responseText);
-          this.showNoTitleInferredNotification();
-          return "";
-        }
-
-        titleStr = responseText;
+      if (this.isTruncationError(titleStr)) {
+        this.handleTitleTruncationError(view, titleStr);
+        this.showNoTitleInferredNotification();
+        return { title: "", usage };
       }
 
-      if (titleStr && titleStr.trim().length > 0) {
+      if (titleStr.trim().length > 0) {
         await editorService.writeInferredTitle(view, titleStr.trim());
-        return titleStr.trim();
+        return { title: titleStr.trim(), usage };
       } else {
         this.showNoTitleInferredNotification();
-        return "";
+        return { title: "", usage };
       }
     } catch (error) {
       console.error("[ChatGPT MD] Error in inferTitle:", error);
       this.showNoTitleInferredNotification();
-      return "";
+      return { title: "", usage };
     }
   }
 
@@ -287,11 +707,11 @@ export class AiProviderService implements IAiApiService {
     apiKey: string,
     messages: string[],
     settings: ChatGPT_MDSettings
-  ): Promise<string> => {
+  ): Promise<AiApiResponse | undefined> => {
     try {
       if (messages.length < 2) {
         this.notificationService.showWarning("Not enough messages to infer title. Minimum 2 messages.");
-        return "";
+        return undefined;
       }
 
       const prompt = `Infer title from the summary of the content of these messages. The title **cannot** contain any of the following characters: colon (:), back slash (\\), forward slash (/), asterisk (*), question mark (?), double quote ("), less than (<), greater than (>), or pipe (|) as these are invalid in file names. Just return the title. Write the title in ${settings.inferTitleLanguage}. \nMessages:${NEWLINE}${JSON.stringify(
@@ -312,22 +732,17 @@ export class AiProviderService implements IAiApiService {
         config.url = defaultConfig.url;
       }
 
-      try {
-        const response = await this.callNonStreamingAPI(
-          apiKey,
-          [{ role: ROLE_USER, content: prompt }],
-          config,
-          settings
-        );
-        return response.fullString;
-      } catch (apiError) {
-        console.error(`[ChatGPT MD] Error calling API for title inference:`, apiError);
-        return "";
+      const { response, error } = await this.callModelWithRetry(undefined, settings, () =>
+        this.callNonStreamingAPI(apiKey, [{ role: ROLE_USER, content: prompt }], config, settings)
+      );
+      if (!response) {
+        console.error(`[ChatGPT MD] Error calling API for title inference:`, error);
       }
+      return response;
     } catch (err) {
       console.error(`[ChatGPT MD] Error inferring title:`, err);
       this.showNoTitleInferredNotification();
-      return "";
+      return undefined;
     }
   };
 
@@ -344,6 +759,7 @@ export class AiProviderService implements IAiApiService {
    * URL Construction:
    * - Most providers: baseURL = https://api.openai.com + /v1 = https://api.openai.com/v1
    * - OpenRouter: baseURL = https://openrouter.ai + /api/v1 = https://openrouter.ai/api/v1
+   * - Azure OpenAI: baseURL = resource URL + /openai/deployments/{deployment}, with the api-version query parameter
    * - The AI SDK appends the final endpoint (e.g., /chat/completions) to the baseURL
    */
   private ensureProvider(apiKey: string | undefined, config: AiProviderConfig): void {
@@ -356,13 +772,15 @@ export class AiProviderService implements IAiApiService {
 
     // Use adapter-specific path suffix instead of hardcoded "/v1"
     // This allows OpenRouter to use /api/v1 while others use /v1
-    const apiPathSuffix = this.currentAdapter.getApiPathSuffix(config.url);
+    const apiPathSuffix = this.currentAdapter.getApiPathSuffix(config.url, this.extractModelName(config.model));
 
     this.provider = providerFactory({
       apiKey: apiKey || "",
       baseURL: `${config.url}${apiPathSuffix}`,
       fetch: customFetch,
       name: this.currentAdapter.type, // Required for OpenAICompatible providers
+      headers: this.currentAdapter.getExtraHeaders(),
+      queryParams: this.currentAdapter.getQueryParams(),
     });
   }
 
@@ -385,7 +803,12 @@ export class AiProviderService implements IAiApiService {
         return createOpenAICompatible;
       case "openrouter":
         return createOpenRouter;
+      case "azure":
+        return createAzureOpenAI;
       default:
+        if (this.adapters.get(type) instanceof CustomProviderAdapter) {
+          return createOpenAICompatible;
+        }
         throw new Error(`Unsupported provider: ${type}`);
     }
   }
@@ -446,66 +869,175 @@ export class AiProviderService implements IAiApiService {
 
     // Get tools only if toolService is available and settings are provided
     const tools = toolService && settings ? toolService.getToolsForRequest(settings) : undefined;
-    return this.callAiSdkGenerateText(model, config.model, messages, tools, toolService, settings);
+    const callSettings = this.getCallSettings(config, settings);
+    return this.callAiSdkGenerateText(
+      model,
+      config.model,
+      messages,
+      callSettings,
+      this.getMaxToolSteps(config, settings),
+      tools,
+      toolService,
+      settings
+    );
   }
 
   /**
-   * Common AI SDK generateText implementation
+   * Generate a structured (JSON) response
+   * Providers with structured outputs use AI SDK object generation, other providers are asked for JSON in the prompt.
+   * The response is validated against the schema, validation errors are written below it instead of thrown.
    */
-  private async callAiSdkGenerateText(
-    model: LanguageModel,
-    modelName: string,
+  private async callStructuredOutputAPI(
+    apiKey: string | undefined,
     messages: Message[],
-    tools?: unknown,
-    toolService?: ToolService,
+    config: AiProviderConfig,
+    format: ResponseFormat,
     settings?: ChatGPT_MDSettings
-  ): Promise<{ fullString: string; mode: string }> {
-    const aiSdkMessages = messages.map((msg) => ({
-      role: msg.role as "user" | "assistant" | "system",
-      content: msg.content,
-    }));
+  ): Promise<{ fullString: string; mode: string; usage?: TokenUsage }> {
+    this.ensureProvider(apiKey, config);
+    const modelName = this.extractModelName(config.model);
+    const model = this.provider!(modelName);
+    const callSettings = this.getCallSettings(config, settings);
 
-    const request: Parameters<typeof generateText>[0] = {
-      model,
-      messages: aiSdkMessages,
-    };
+    const { text, usage } = this.currentAdapter.supportsStructuredOutput(modelName)
+      ? await this.generateStructuredObject(model, messages, format, callSettings)
+      : await this.generateJsonText(model, messages, format, callSettings);
 
-    const toolsAvailable = tools && typeof tools === "object" && Object.keys(tools as object).length > 0;
-    const shouldUseTool = toolsAvailable && settings && this.modelSupportsTools(modelName, settings);
+    const parsed = parseJsonResponse(text);
+    const errors = parsed
+      ? validateStructuredResponse(parsed.value, format)
+      : [ErrorMessages.STRUCTURED_OUTPUT.INVALID_JSON];
+    const json = parsed ? JSON.stringify(parsed.value, null, 2) : text.trim();
 
-    if (shouldUseTool) {
-      request.tools = tools as typeof request.tools;
-    }
+    return {
+      fullString: formatStructuredResponse(json, errors),
+      mode: "non-streaming",
+      usage: hasUsage(usage) ? usage : undefined,
+    };
+  }
+
+  /**
+   * Generate JSON with AI SDK object generation
+   * Validation is left to the caller, so a response that does not parse is returned as raw text
+   */
+  private async generateStructuredObject(
+    model: LanguageModel,
+    messages: Message[],
+    format: ResponseFormat,
+    callSettings: AiCallSettings
+  ): Promise<{ text: string; usage: TokenUsage }> {
+    // Object generation does not accept stop sequences
+    const { stopSequences: _, ...objectSettings } = callSettings;
+    const request = { ...objectSettings, model, messages: this.prepareAiSdkMessages(messages, false) };
 
-    let response;
     try {
-      response = await generateText(request);
-    } catch (err: any) {
-      console.log(`[ChatGPT MD] Error during generateText:`, err);
+      const response = format.schema
+        ? await generateObject({
+            ...request,
+            schema: jsonSchema(format.schema as JSONSchema7),
+            schemaName: format.name,
+          })
+        : await generateObject({ ...request, output: "no-schema" });
+      return { text: JSON.stringify(response.object), usage: toTokenUsage(response.usage) };
+    } catch (err) {
+      if (NoObjectGeneratedError.isInstance(err)) {
+        return { text: err.text ?? "", usage: toTokenUsage(err.usage) };
+      }
       throw err;
     }
+  }
 
-    if (toolService && response.toolCalls && response.toolCalls.length > 0) {
-      const toolResults = await toolService.handleToolCalls(response.toolCalls, modelName);
-      const { contextMessages } = await toolService.processToolResults(response.toolCalls, toolResults, modelName);
+  /**
+   * Ask for JSON in the prompt, for providers without structured outputs
+   */
+  private async generateJsonText(
+    model: LanguageModel,
+    messages: Message[],
+    format: ResponseFormat,
+    callSettings: AiCallSettings
+  ): Promise<{ text: string; usage: TokenUsage }> {
+    const instruction: Message = { role: ROLE_SYSTEM, content: buildStructuredOutputInstruction(format) };
+    const response = await generateText({
+      ...callSettings,
+      model,
+      messages: this.prepareAiSdkMessages([instruction, ...messages], false),
+    });
+    return { text: response.text ?? "", usage: toTokenUsage(response.usage) };
+  }
 
-      const updatedMessages = [...aiSdkMessages];
+  /**
+   * Common AI SDK generateText implementation
+   * Runs tool calls in a loop: after each round of approved tool calls the model continues with the results
+   * and can call tools again, until it answers or maxToolSteps rounds are used up
+   */
+  private async callAiSdkGenerateText(
+    model: LanguageModel,
+    modelName: string,
+    messages: Message[],
+    callSettings: AiCallSettings,
+    maxToolSteps: number,
+    tools?: unknown,
+    toolService?: ToolService,
+    settings?: ChatGPT_MDSettings
+  ): Promise<{ fullString: string; mode: string; usage?: TokenUsage }> {
+    const shouldUseTool = this.shouldSendTools(tools, modelName, settings);
+    const parts: string[] = [];
+    let history = messages;
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+    for (let step = 1; ; step++) {
+      const withTools = shouldUseTool && step <= maxToolSteps;
+      const request: Parameters<typeof generateText>[0] = {
+        ...callSettings,
+        model,
+        messages: this.prepareAiSdkMessages(history, withTools),
+      };
 
-      if (response.text?.trim()) {
-        updatedMessages.push({ role: "assistant", content: response.text });
+      if (withTools) {
+        request.tools = tools as typeof request.tools;
       }
 
-      updatedMessages.push(...contextMessages);
+      let response;
+      try {
+        response = await generateText(request);
+      } catch (err: any) {
+        console.log(`[ChatGPT MD] Error during generateText:`, err);
+        throw err;
+      }
 
-      const continuationResponse = await generateText({
-        model,
-        messages: updatedMessages,
-      });
+      usage = addUsage(usage, toTokenUsage(response.usage));
+      const text = response.text?.trim() ?? "";
+      parts.push(...this.formatStepOutput(text, response.reasoningText));
 
-      return { fullString: continuationResponse.text, mode: "non-streaming" };
+      if (!withTools || !toolService || !response.toolCalls || response.toolCalls.length === 0) {
+        break;
+      }
+
+      const toolCallRecords = await this.runToolCalls(response.toolCalls, toolService, modelName);
+      if (toolCallRecords.length > 0) {
+        parts.push(formatToolCallCallouts(toolCallRecords));
+      }
+      history = [...history, { role: ROLE_ASSISTANT, content: text, toolCalls: toolCallRecords }];
     }
 
-    return { fullString: response.text, mode: "non-streaming" };
+    return { fullString: parts.join("\n\n"), mode: "non-streaming", usage: hasUsage(usage) ? usage : undefined };
+  }
+
+  /**
+   * Format the reasoning and text of a non-streaming step for the note
+   */
+  private formatStepOutput(text: string, reasoningText: string | undefined): string[] {
+    const output = reasoningText?.trim() ? [formatThinkingCallout(reasoningText).trim()] : [];
+    return text ? [...output, text] : output;
+  }
+
+  /**
+   * Request approval for tool calls, execute them and collect the results that were shared
+   */
+  private async runToolCalls(toolCalls: any[], toolService: ToolService, modelName: string): Promise<ToolCallRecord[]> {
+    const toolResults = await toolService.handleToolCalls(toolCalls, modelName);
+    const { toolCallRecords } = await toolService.processToolResults(toolCalls, toolResults, modelName);
+    return toolCallRecords;
   }
 
   /**
@@ -528,33 +1060,50 @@ export class AiProviderService implements IAiApiService {
       editor,
       headingPrefix,
       modelName,
-      setAtCursor
+      setAtCursor,
+      this.shouldSendTools(tools, modelName, settings)
     );
 
     try {
-      const request = this.buildStreamRequest(model, aiSdkMessages, abortController.signal, tools, modelName, settings);
+      const callSettings = this.getCallSettings(config, settings);
+      const request = this.buildStreamRequest(
+        model,
+        aiSdkMessages,
+        callSettings,
+        abortController.signal,
+        tools,
+        modelName,
+        settings
+      );
 
       handler.startBuffering();
       const result = streamText(request);
       let fullText = await this.consumeStream(result, handler);
       const finalResult = await result;
 
-      this.checkForStreamError(finalResult);
+      await this.checkForStreamError(finalResult);
+      let usage = await this.getStreamUsage(finalResult);
 
-      // Handle tool calls if present
-      if (toolService && finalResult?.toolCalls) {
+      // Handle tool calls if present (failed streams have thrown above, with or without tools)
+      if (toolService && request.tools && finalResult?.toolCalls) {
         const toolCalls = await finalResult.toolCalls;
         if (toolCalls?.length > 0) {
-          fullText = await this.handleStreamToolCalls(
-            toolCalls,
-            fullText,
+          const loopContext: StreamToolLoopContext = {
             handler,
             editor,
             model,
-            aiSdkMessages,
+            modelName,
+            messages,
+            callSettings,
+            abortSignal: abortController.signal,
+            tools,
             toolService,
-            modelName
-          );
+            maxToolSteps: this.getMaxToolSteps(config, settings),
+            settings,
+            usage,
+          };
+          fullText = await this.handleStreamToolCalls(toolCalls, fullText, loopContext);
+          usage = loopContext.usage;
         }
       }
 
@@ -566,6 +1115,7 @@ export class AiProviderService implements IAiApiService {
         fullString: fullText,
         mode: "streaming",
         wasAborted: this.apiService.wasAborted(),
+        usage: hasUsage(usage) ? usage : undefined,
       };
     } catch (err: any) {
       return this.handleStreamError(err, handler, editor);
@@ -580,9 +1130,10 @@ export class AiProviderService implements IAiApiService {
     editor: Editor,
     headingPrefix: string,
     modelName: string,
-    setAtCursor?: boolean
+    setAtCursor?: boolean,
+    withToolParts = false
   ) {
-    const aiSdkMessages = this.prepareAiSdkMessages(messages);
+    const aiSdkMessages = this.prepareAiSdkMessages(messages, withToolParts);
     const cursorPositions = insertAssistantHeader(editor, headingPrefix, modelName);
 
     const abortController = new AbortController();
@@ -602,43 +1153,110 @@ export class AiProviderService implements IAiApiService {
     const errorMessage = this.formatStreamError(err);
     const errorCursor = handler.getCursor();
     editor.replaceRange(errorMessage, errorCursor);
-    return { fullString: errorMessage, mode: "streaming" };
+    return { fullString: errorMessage, mode: "streaming", error: err };
   }
 
   /**
    * Prepare messages for AI SDK format
+   * User messages with embedded images are sent as text + image content parts
+   * Assistant messages with tool calls are sent as tool-call and tool-result parts when the request includes tools,
+   * otherwise the tool results are sent as plain user messages (providers reject tool parts without tool definitions)
+   */
+  private prepareAiSdkMessages(messages: Message[], withToolParts = false): ModelMessage[] {
+    return messages.flatMap((msg): ModelMessage[] => {
+      if (msg.role === ROLE_ASSISTANT && msg.toolCalls && msg.toolCalls.length > 0) {
+        return this.toolCallsToModelMessages(msg, msg.toolCalls, withToolParts);
+      }
+
+      if (msg.role === ROLE_USER && msg.images && msg.images.length > 0) {
+        return [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: msg.content },
+              ...msg.images.map((image) => ({
+                type: "image" as const,
+                image: image.image,
+                mediaType: image.mediaType,
+              })),
+            ],
+          },
+        ];
+      }
+
+      return [
+        {
+          role: msg.role as "user" | "assistant" | "system",
+          content: msg.content,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Convert an assistant message with persisted tool calls into AI SDK messages
+   */
+  private toolCallsToModelMessages(msg: Message, toolCalls: ToolCallRecord[], withToolParts: boolean): ModelMessage[] {
+    if (!withToolParts) {
+      return [
+        ...(msg.content ? [{ role: "assistant" as const, content: msg.content }] : []),
+        ...toolCalls.map((call) => ({ role: "user" as const, content: call.output })),
+      ];
+    }
+
+    return [
+      {
+        role: "assistant",
+        content: [
+          ...(msg.content ? [{ type: "text" as const, text: msg.content }] : []),
+          ...toolCalls.map((call) => ({
+            type: "tool-call" as const,
+            toolCallId: call.id,
+            toolName: call.name,
+            input: call.input,
+          })),
+        ],
+      },
+      {
+        role: "tool",
+        content: toolCalls.map((call) => ({
+          type: "tool-result" as const,
+          toolCallId: call.id,
+          toolName: call.name,
+          output: { type: "text" as const, value: call.output },
+        })),
+      },
+    ];
+  }
+
+  /**
+   * Check whether tools are sent with a request
    */
-  private prepareAiSdkMessages(messages: Message[]): Array<{
-    role: "user" | "assistant" | "system";
-    content: string;
-  }> {
-    return messages.map((msg) => ({
-      role: msg.role as "user" | "assistant" | "system",
-      content: msg.content,
-    }));
+  private shouldSendTools(tools: unknown, modelName: string, settings?: ChatGPT_MDSettings): boolean {
+    const toolsAvailable = !!tools && typeof tools === "object" && Object.keys(tools as object).length > 0;
+    return toolsAvailable && !!settings && this.modelSupportsTools(modelName, settings);
   }
 
   /**
-   * Build stream request with optional tools
+   * Build stream request with generation settings and optional tools
    */
   private buildStreamRequest(
     model: LanguageModel,
-    messages: Array<{ role: "user" | "assistant" | "system"; content: string }>,
+    messages: ModelMessage[],
+    callSettings: AiCallSettings,
     abortSignal: AbortSignal,
     tools: unknown,
     modelName: string,
     settings?: ChatGPT_MDSettings
   ): Parameters<typeof streamText>[0] {
     const request: Parameters<typeof streamText>[0] = {
+      ...callSettings,
       model,
       messages,
       abortSignal,
     };
 
-    const toolsAvailable = tools && typeof tools === "object" && Object.keys(tools as object).length > 0;
-    const shouldUseTool = toolsAvailable && settings && this.modelSupportsTools(modelName, settings);
-
-    if (shouldUseTool) {
+    if (this.shouldSendTools(tools, modelName, settings)) {
       request.tools = tools as typeof request.tools;
     }
 
@@ -647,27 +1265,71 @@ export class AiProviderService implements IAiApiService {
 
   /**
    * Consume stream and buffer to handler
+   * Reasoning deltas are written into a thinking callout above the text that follows.
+   * Throws the error of an error part, which is how the AI SDK reports failed requests (e.g., 429 or 5xx)
    */
   private async consumeStream(streamResult: any, handler: StreamingHandler): Promise<string> {
     let text = "";
-    const { textStream } = streamResult;
+    let inThinking = false;
+    const { fullStream } = streamResult;
 
-    for await (const textPart of textStream) {
+    for await (const part of fullStream) {
       if (this.apiService.wasAborted()) {
         break;
       }
-      text += textPart;
-      handler.appendText(textPart);
+
+      let chunk: string;
+      if (part.type === "reasoning-delta") {
+        chunk = (inThinking ? "" : startThinkingCallout(text)) + formatThinkingDelta(part.text);
+        inThinking = true;
+      } else if (part.type === "text-delta") {
+        chunk = (inThinking ? THINKING_CALLOUT_END : "") + part.text;
+        inThinking = false;
+      } else if (part.type === "error") {
+        throw part.error;
+      } else {
+        continue;
+      }
+
+      text += chunk;
+      handler.appendText(chunk);
+    }
+
+    if (inThinking) {
+      text += THINKING_CALLOUT_END;
+      handler.appendText(THINKING_CALLOUT_END);
     }
 
     handler.stopBuffering();
     return text;
   }
 
+  /**
+   * Get the token usage of a finished stream
+   * Aborted streams and providers that report no usage count as zero
+   */
+  private async getStreamUsage(streamResult: any): Promise<TokenUsage> {
+    if (this.apiService.wasAborted()) {
+      return toTokenUsage(undefined);
+    }
+
+    try {
+      return toTokenUsage(await streamResult?.usage);
+    } catch (error) {
+      console.warn("[ChatGPT MD] Could not read token usage:", error);
+      return toTokenUsage(undefined);
+    }
+  }
+
   /**
    * Check if stream finished with error
+   * Stopped streams are not errors, even though they finish without output
    */
   private async checkForStreamError(finalResult: any): Promise<void> {
+    if (this.apiService.wasAborted()) {
+      return;
+    }
+
     const finishReason = await finalResult?.finishReason;
     if (finishReason === "error") {
       const error = (finalResult as any).error;
@@ -680,66 +1342,83 @@ export class AiProviderService implements IAiApiService {
 
   /**
    * Handle tool calls during streaming
+   * Each round of tool calls is approved, written into the note and followed by a continuation that still
+   * gets the tools, until the model answers without tool calls or maxToolSteps rounds are used up
    */
   private async handleStreamToolCalls(
     toolCalls: any[],
     fullText: string,
-    handler: StreamingHandler,
-    editor: Editor,
-    model: LanguageModel,
-    aiSdkMessages: Array<{ role: "user" | "assistant" | "system"; content: string }>,
-    toolService: ToolService,
-    modelName: string
+    context: StreamToolLoopContext
   ): Promise<string> {
-    // Insert tool notice
-    const toolNotice = "_[Tool approval required...]_\n";
-    const indicatorCursor = handler.getCursor();
-    editor.replaceRange(toolNotice, indicatorCursor);
-    handler.updateCursorAfterInsert(toolNotice, indicatorCursor);
-
-    // Execute tools
-    const toolResults = await toolService.handleToolCalls(toolCalls, modelName);
-    const { contextMessages } = await toolService.processToolResults(toolCalls, toolResults, modelName);
-
-    // Clean up notice
-    const toolCursor = handler.getCursor();
-    editor.replaceRange("", { line: toolCursor.line - 1, ch: 0 }, toolCursor);
-    handler.setCursor({ line: toolCursor.line - 1, ch: 0 });
-
-    // Continue with tool results
-    const updatedMessages = [...aiSdkMessages, { role: "assistant" as const, content: fullText }, ...contextMessages];
+    const { handler, editor, toolService, maxToolSteps } = context;
+    let history = context.messages;
+    let stepText = fullText;
+
+    for (let step = 1; toolCalls.length > 0 && !this.apiService.wasAborted(); step++) {
+      // Insert tool notice
+      const toolNotice = `_[Tool step ${step}/${maxToolSteps}: approval required...]_\n`;
+      const indicatorCursor = handler.getCursor();
+      editor.replaceRange(toolNotice, indicatorCursor);
+      handler.updateCursorAfterInsert(toolNotice, indicatorCursor);
+
+      // Execute tools
+      const toolCallRecords = await this.runToolCalls(toolCalls, toolService, context.modelName);
+
+      // Replace the notice with the tool calls and results
+      const callouts =
+        toolCallRecords.length > 0
+          ? `${fullText.trim() ? "\n\n" : ""}${formatToolCallCallouts(toolCallRecords)}\n\n`
+          : "";
+      editor.replaceRange(callouts, indicatorCursor, handler.getCursor());
+      handler.setCursor(indicatorCursor);
+      handler.updateCursorAfterInsert(callouts, indicatorCursor);
+      fullText += callouts;
+
+      // Continue with tool results, offering the tools again until the step limit is reached
+      const content = removeThinkingCallouts(stepText).trim();
+      history = [...history, { role: ROLE_ASSISTANT, content, toolCalls: toolCallRecords }];
+      const continuation = await this.streamContinuation(history, context, step < maxToolSteps);
+      stepText = continuation.text;
+      fullText += stepText;
+      toolCalls = continuation.toolCalls;
+    }
 
-    return this.streamContinuation(model, updatedMessages, handler, fullText);
+    return fullText;
   }
 
   /**
    * Stream continuation after tool calls
+   * @returns The streamed text and any tool calls the model made (only when tools were offered)
    */
   private async streamContinuation(
-    model: LanguageModel,
-    messages: Array<{ role: "user" | "assistant" | "system"; content: string }>,
-    handler: StreamingHandler,
-    initialText: string
-  ): Promise<string> {
-    const continuationResult = streamText({ model, messages });
+    messages: Message[],
+    context: StreamToolLoopContext,
+    withTools: boolean
+  ): Promise<{ text: string; toolCalls: any[] }> {
+    const { handler } = context;
+    const request = this.buildStreamRequest(
+      context.model,
+      this.prepareAiSdkMessages(messages, withTools),
+      context.callSettings,
+      context.abortSignal,
+      withTools ? context.tools : undefined,
+      context.modelName,
+      context.settings
+    );
+    const continuationResult = streamText(request);
 
     const continuationCursor = handler.getCursor();
     handler.reset(continuationCursor);
     handler.startBuffering();
 
-    let fullText = initialText;
-
     try {
-      for await (const textPart of continuationResult.textStream) {
-        if (this.apiService.wasAborted()) break;
-        fullText += textPart;
-        handler.appendText(textPart);
-      }
-
+      const text = await this.consumeStream(continuationResult, handler);
       const continuationFinalResult = await continuationResult;
-      this.checkForStreamError(continuationFinalResult);
+      await this.checkForStreamError(continuationFinalResult);
+      context.usage = addUsage(context.usage, await this.getStreamUsage(continuationFinalResult));
 
-      return fullText;
+      const toolCalls = request.tools && !this.apiService.wasAborted() ? await continuationFinalResult.toolCalls : [];
+      return { text, toolCalls: toolCalls ?? [] };
     } finally {
       handler.stopBuffering();
     }
@@ -1,5 +1,6 @@
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
@@ -10,6 +11,7 @@ import {
 import { ChatGPT_MDSettings } from "src/Models/Config";
 import { NotificationService } from "./NotificationService";
 import { validateApiKey as validateApiKeyFormat } from "src/Utilities/InputValidator";
+import { getCustomProviders } from "src/Utilities/CustomProviderHelpers";
 
 /**
  * Checks if an API key is valid (not empty or undefined)
@@ -49,12 +51,14 @@ export class ApiAuthService {
         return settings.geminiApiKey;
       case AI_SERVICE_ZAI:
         return settings.zaiApiKey;
+      case AI_SERVICE_AZURE:
+        return settings.azureApiKey;
       case AI_SERVICE_OLLAMA:
         return ""; // Ollama doesn't use an API key
       case AI_SERVICE_LMSTUDIO:
         return ""; // LM Studio doesn't use an API key
       default:
-        return "";
+        return getCustomProviders(settings).find((provider) => provider.name === serviceType)?.apiKey ?? "";
     }
   }
 
@@ -109,6 +113,9 @@ export class ApiAuthService {
       case AI_SERVICE_ZAI:
         headers["Authorization"] = `Bearer ${apiKey}`;
         break;
+      case AI_SERVICE_AZURE:
+        headers["api-key"] = apiKey;
+        break;
       case AI_SERVICE_OLLAMA:
         // Ollama doesn't require authentication headers
         break;
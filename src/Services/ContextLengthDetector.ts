@@ -0,0 +1,59 @@
+/**
+ * Local table of model context lengths
+ *
+ * Used when a provider does not report the context length of its models.
+ * Patterns are matched as prefixes of the model name (without provider or vendor prefix),
+ * the first matching pattern wins, so more specific patterns are listed first.
+ */
+
+import { getModelName } from "src/Utilities/ModelFilteringHelper";
+
+const KNOWN_CONTEXT_LENGTHS: Array<[string, number]> = [
+  // OpenAI
+  ["gpt-5", 400000],
+  ["gpt-4.1", 1047576],
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-32k", 32768],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo", 16385],
+  ["o1-mini", 128000],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["o4-mini", 200000],
+
+  // Anthropic
+  ["claude-", 200000],
+
+  // Google
+  ["gemini-1.5-pro", 2097152],
+  ["gemini-", 1048576],
+
+  // Z.AI
+  ["glm-4.5", 131072],
+  ["glm-4.6", 204800],
+  ["glm-4.7", 204800],
+
+  // Open-weight models (defaults of their official releases)
+  ["llama3.1", 131072],
+  ["llama3.2", 131072],
+  ["llama3.3", 131072],
+  ["llama-3", 131072],
+  ["qwen3", 40960],
+  ["qwen2.5", 32768],
+  ["mistral", 32768],
+  ["gemma3", 131072],
+  ["deepseek-r1", 131072],
+  ["deepseek-chat", 65536],
+];
+
+/**
+ * Look up the context length of a model in the local table
+ * @param modelId - Model ID with or without provider prefix (e.g., "openai@gpt-4o", "openrouter@openai/gpt-4o")
+ * @returns Context length in tokens, or undefined if the model is unknown
+ */
+export function getKnownContextLength(modelId: string): number | undefined {
+  const modelName = getModelName(modelId).toLowerCase();
+  const match = KNOWN_CONTEXT_LENGTHS.find(([pattern]) => modelName.startsWith(pattern));
+  return match?.[1];
+}
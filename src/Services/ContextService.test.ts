@@ -0,0 +1,99 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+import { ContextService, ContextWindowOptions } from "./ContextService";
+import { NotificationService } from "./NotificationService";
+import { Message } from "src/Models/Message";
+
+/** Message with content of roughly the given number of tokens */
+function message(role: string, tokens: number, label = ""): Message {
+  return { role, content: label.padEnd(tokens * 4, "x") };
+}
+
+describe("ContextService", () => {
+  let notificationService: NotificationService;
+  let service: ContextService;
+
+  const options = (overrides: Partial<ContextWindowOptions> = {}): ContextWindowOptions => ({
+    model: "openai@gpt-4",
+    contextLength: 1000,
+    maxOutputTokens: 200,
+    strategy: "truncate",
+    summarize: jest.fn(async () => "summary"),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    notificationService = new NotificationService();
+    jest.spyOn(notificationService, "showWarning").mockImplementation(() => {});
+    service = new ContextService(notificationService);
+  });
+
+  describe("parseStrategy", () => {
+    it("defaults to truncate", () => {
+      expect(service.parseStrategy(undefined)).toBe("truncate");
+    });
+
+    it("accepts known strategies case-insensitively", () => {
+      expect(service.parseStrategy("Summarize")).toBe("summarize");
+      expect(service.parseStrategy("error")).toBe("error");
+    });
+
+    it("falls back to truncate for unknown values", () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      expect(service.parseStrategy("shrink")).toBe("truncate");
+    });
+  });
+
+  describe("fitToContextWindow", () => {
+    const chat = [
+      message("system", 100, "system"),
+      message("user", 300, "first"),
+      message("assistant", 300, "second"),
+      message("user", 300, "latest"),
+    ];
+
+    it("returns messages unchanged when they fit", async () => {
+      const messages = [message("user", 100)];
+      expect(await service.fitToContextWindow(messages, options())).toBe(messages);
+    });
+
+    it("returns messages unchanged when the context length is unknown", async () => {
+      expect(await service.fitToContextWindow(chat, options({ contextLength: undefined }))).toBe(chat);
+    });
+
+    it("truncates the oldest non-system messages", async () => {
+      const result = await service.fitToContextWindow(chat, options());
+      expect(result.map((m) => m.content.slice(0, 6))).toEqual(["system", "second", "latest"]);
+      expect(notificationService.showWarning).toHaveBeenCalled();
+    });
+
+    it("throws with the error strategy", async () => {
+      await expect(service.fitToContextWindow(chat, options({ strategy: "error" }))).rejects.toThrow(
+        "context_strategy"
+      );
+    });
+
+    it("throws when even the latest message does not fit", async () => {
+      const messages = [message("user", 300), message("user", 2000)];
+      await expect(service.fitToContextWindow(messages, options())).rejects.toThrow("openai@gpt-4");
+    });
+
+    it("replaces dropped messages with a summary", async () => {
+      const summarize = jest.fn(async () => "key facts");
+      const result = await service.fitToContextWindow(chat, options({ strategy: "summarize", summarize }));
+
+      expect(summarize).toHaveBeenCalledTimes(1);
+      expect(result[1].role).toBe("system");
+      expect(result[1].content).toContain("key facts");
+      expect(result).toHaveLength(4);
+    });
+
+    it("falls back to truncation when summarization fails", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const summarize = jest.fn(async () => {
+        throw new Error("offline");
+      });
+      const result = await service.fitToContextWindow(chat, options({ strategy: "summarize", summarize }));
+      expect(result).toHaveLength(3);
+    });
+  });
+});
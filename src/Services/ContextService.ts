@@ -0,0 +1,170 @@
+import { Message } from "src/Models/Message";
+import {
+  CONTEXT_STRATEGIES,
+  CONTEXT_STRATEGY_ERROR,
+  CONTEXT_STRATEGY_SUMMARIZE,
+  CONTEXT_STRATEGY_TRUNCATE,
+  ContextStrategy,
+  CONVERSATION_SUMMARY_PREFIX,
+  ROLE_DEVELOPER,
+  ROLE_SYSTEM,
+  ROLE_USER,
+  SUMMARIZE_CONVERSATION_PROMPT,
+} from "src/Constants";
+import { ErrorMessages } from "src/Utilities/ErrorMessageFormatter";
+import { estimateMessageTokens, estimateMessagesTokens } from "src/Utilities/TokenHelpers";
+import { NotificationService } from "./NotificationService";
+
+/**
+ * Options for fitting a request into a model's context window
+ */
+export interface ContextWindowOptions {
+  /** Model ID, used in messages */
+  model: string;
+  /** Context window of the model in tokens, undefined if unknown */
+  contextLength: number | undefined;
+  /** Tokens reserved for the response (max_tokens) */
+  maxOutputTokens: number;
+  strategy: ContextStrategy;
+  /** Send a summarization request to the model and return the summary text */
+  summarize: (request: Message[]) => Promise<string>;
+}
+
+/**
+ * Service responsible for keeping chat requests within the model's context window
+ * Sits between ChatHandler and AiProviderService.callAiAPI
+ */
+export class ContextService {
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * Parse the context_strategy frontmatter value
+   * Defaults to truncate for missing or unknown values
+   */
+  parseStrategy(value: unknown): ContextStrategy {
+    if (value === undefined || value === null || value === "") {
+      return CONTEXT_STRATEGY_TRUNCATE;
+    }
+
+    const strategy = String(value).trim().toLowerCase();
+    if ((CONTEXT_STRATEGIES as readonly string[]).includes(strategy)) {
+      return strategy as ContextStrategy;
+    }
+
+    console.warn(`[ChatGPT MD] Unknown context_strategy "${value}", using ${CONTEXT_STRATEGY_TRUNCATE}`);
+    return CONTEXT_STRATEGY_TRUNCATE;
+  }
+
+  /**
+   * Fit messages into the model's context window
+   *
+   * - truncate: drop the oldest non-system messages
+   * - summarize: replace the oldest non-system messages with a summary generated by the model
+   * - error: throw instead of changing the messages
+   *
+   * Messages are returned unchanged when they fit or when the context length is unknown.
+   */
+  async fitToContextWindow(messages: Message[], options: ContextWindowOptions): Promise<Message[]> {
+    if (!options.contextLength) {
+      return messages;
+    }
+
+    const availableTokens = options.contextLength - options.maxOutputTokens;
+    const estimatedTokens = estimateMessagesTokens(messages);
+    if (estimatedTokens <= availableTokens) {
+      return messages;
+    }
+
+    const tooLongError = new Error(ErrorMessages.CONTEXT.TOO_LONG(options.model, estimatedTokens, availableTokens));
+    if (options.strategy === CONTEXT_STRATEGY_ERROR) {
+      throw tooLongError;
+    }
+
+    const dropped = this.selectMessagesToDrop(messages, availableTokens);
+    if (!dropped) {
+      throw tooLongError;
+    }
+
+    const keptMessages = messages.filter((_, index) => !dropped.has(index));
+
+    if (options.strategy === CONTEXT_STRATEGY_SUMMARIZE) {
+      const droppedMessages = messages.filter((_, index) => dropped.has(index));
+      const summarized = await this.summarizeDroppedMessages(keptMessages, droppedMessages, availableTokens, options);
+      if (summarized) {
+        this.notificationService.showWarning(`Context window full: summarized the ${dropped.size} oldest messages`);
+        return summarized;
+      }
+    }
+
+    this.notificationService.showWarning(`Context window full: left out the ${dropped.size} oldest messages`);
+    return keptMessages;
+  }
+
+  /**
+   * Select the oldest non-system messages to drop so the remaining messages fit
+   * The latest message is always kept
+   * @returns Indices of messages to drop, or null if the messages cannot fit
+   */
+  selectMessagesToDrop(messages: Message[], availableTokens: number): Set<number> | null {
+    const dropped = new Set<number>();
+    let total = estimateMessagesTokens(messages);
+
+    for (let index = 0; index < messages.length - 1 && total > availableTokens; index++) {
+      if (this.isSystemMessage(messages[index])) continue;
+
+      dropped.add(index);
+      total -= estimateMessageTokens(messages[index]);
+    }
+
+    return total <= availableTokens ? dropped : null;
+  }
+
+  /**
+   * Build a summarization request for a list of messages
+   */
+  buildSummaryRequest(messages: Message[]): Message[] {
+    const transcript = messages.map((message) => `${message.role}: ${message.content.trim()}`).join("\n\n");
+    return [
+      { role: ROLE_SYSTEM, content: SUMMARIZE_CONVERSATION_PROMPT },
+      { role: ROLE_USER, content: transcript },
+    ];
+  }
+
+  /**
+   * Create the system message that carries a conversation summary
+   */
+  createSummaryMessage(summary: string): Message {
+    return { role: ROLE_SYSTEM, content: `${CONVERSATION_SUMMARY_PREFIX}\n\n${summary.trim()}` };
+  }
+
+  /**
+   * Summarize dropped messages and insert the summary after the leading system messages
+   * @returns Messages with the summary, or null if summarization failed or the result does not fit
+   */
+  private async summarizeDroppedMessages(
+    keptMessages: Message[],
+    droppedMessages: Message[],
+    availableTokens: number,
+    options: ContextWindowOptions
+  ): Promise<Message[] | null> {
+    try {
+      const summary = await options.summarize(this.buildSummaryRequest(droppedMessages));
+      if (!summary.trim()) {
+        return null;
+      }
+
+      const insertAt = keptMessages.findIndex((message) => !this.isSystemMessage(message));
+      const withSummary = [...keptMessages];
+      withSummary.splice(insertAt === -1 ? withSummary.length : insertAt, 0, this.createSummaryMessage(summary));
+
+      return estimateMessagesTokens(withSummary) <= availableTokens ? withSummary : null;
+    } catch (error) {
+      console.error("[ChatGPT MD] Error summarizing older messages, truncating instead:", error);
+      return null;
+    }
+  }
+
+  private isSystemMessage(message: Message): boolean {
+    return message.role === ROLE_SYSTEM || message.role === ROLE_DEVELOPER;
+  }
+}
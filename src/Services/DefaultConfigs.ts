@@ -1,5 +1,6 @@
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
@@ -122,3 +123,20 @@ export const DEFAULT_ZAI_CONFIG = {
   top_p: 1,
   url: "https://api.z.ai",
 };
+
+/**
+ * Default configuration for Azure OpenAI
+ * The URL is the resource endpoint (https://<resource>.openai.azure.com) and the model a deployment name
+ */
+export const DEFAULT_AZURE_CONFIG = {
+  aiService: AI_SERVICE_AZURE,
+  max_tokens: 400,
+  model: "azure@gpt-4.1-mini",
+  stream: true,
+  system_commands: null,
+  tags: [],
+  temperature: 0.7,
+  title: "Untitled",
+  top_p: 1,
+  url: "",
+};
@@ -2,6 +2,7 @@ import { App, Editor, MarkdownView } from "obsidian";
 import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
 import { FileService } from "./FileService";
 import { MessageService } from "./MessageService";
+import { LinkContentService } from "./LinkContentService";
 import { TemplateService } from "./TemplateService";
 import { SettingsService } from "./SettingsService";
 import { FrontmatterManager } from "./FrontmatterManager";
@@ -31,7 +32,8 @@ export class EditorService {
     this.fileService = fileService || new FileService(app);
     this.frontmatterManager = new FrontmatterManager(app);
     const notificationService = new NotificationService();
-    this.messageService = messageService || new MessageService(this.fileService, notificationService);
+    this.messageService =
+      messageService || new MessageService(this.fileService, notificationService, new LinkContentService(app));
 
     // SettingsService now handles frontmatter operations (merged from FrontmatterService)
     if (!settingsService) {
@@ -119,12 +121,13 @@ export class EditorService {
 
   async getMessagesFromEditor(
     editor: Editor,
-    settings: ChatGPT_MDSettings
+    settings: ChatGPT_MDSettings,
+    frontmatter?: MergedFrontmatterConfig
   ): Promise<{
     messages: string[];
     messagesWithRole: Message[];
   }> {
-    return this.messageService.getMessagesFromEditor(editor, settings);
+    return this.messageService.getMessagesFromEditor(editor, settings, frontmatter);
   }
 
   // TemplateService delegations
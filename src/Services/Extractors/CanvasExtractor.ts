@@ -0,0 +1,19 @@
+import { App, TFile } from "obsidian";
+import { flattenCanvas } from "src/Utilities/LinkContentHelpers";
+import { LinkContentExtractor } from "./LinkContentExtractor";
+
+/**
+ * Extractor for Obsidian canvas files
+ * Flattens the canvas JSON into its text nodes and edges
+ */
+export class CanvasExtractor implements LinkContentExtractor {
+  readonly id = "canvas";
+  readonly extensions = ["canvas"];
+
+  constructor(private app: App) {}
+
+  async extract(file: TFile, _subpath: string): Promise<string | null> {
+    const json = await this.app.vault.read(file);
+    return flattenCanvas(json) || null;
+  }
+}
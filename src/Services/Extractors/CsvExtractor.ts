@@ -0,0 +1,24 @@
+import { App, TFile } from "obsidian";
+import { CSV_MAX_ROWS } from "src/Constants";
+import { csvToMarkdownTable } from "src/Utilities/LinkContentHelpers";
+import { LinkContentExtractor } from "./LinkContentExtractor";
+
+/**
+ * Extractor for CSV/TSV files
+ * Renders the data as a markdown table limited to CSV_MAX_ROWS rows
+ */
+export class CsvExtractor implements LinkContentExtractor {
+  readonly id = "csv";
+  readonly extensions = ["csv", "tsv"];
+
+  constructor(
+    private app: App,
+    private maxRows: number = CSV_MAX_ROWS
+  ) {}
+
+  async extract(file: TFile, _subpath: string): Promise<string | null> {
+    const text = await this.app.vault.read(file);
+    const delimiter = file.extension.toLowerCase() === "tsv" ? "\t" : ",";
+    return csvToMarkdownTable(text, this.maxRows, delimiter) || null;
+  }
+}
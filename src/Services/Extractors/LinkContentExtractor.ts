@@ -0,0 +1,25 @@
+import { TFile } from "obsidian";
+
+/**
+ * Interface defining the contract for link content extractors
+ * Each extractor turns a linked vault file into text that can be inlined into the chat context
+ */
+export interface LinkContentExtractor {
+  /**
+   * Unique identifier for this extractor
+   */
+  readonly id: string;
+
+  /**
+   * File extensions handled by this extractor (lowercase, without dot)
+   */
+  readonly extensions: string[];
+
+  /**
+   * Extract text content from a linked file
+   * @param file - Resolved vault file
+   * @param subpath - Link subpath without the leading "#" (e.g., "page=3", "Heading", "^block-id"), empty if none
+   * @returns Text to inline, or null if nothing could be extracted
+   */
+  extract(file: TFile, subpath: string): Promise<string | null>;
+}
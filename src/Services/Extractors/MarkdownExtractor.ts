@@ -0,0 +1,40 @@
+import { App, resolveSubpath, TFile } from "obsidian";
+import { removeBlockIds } from "src/Utilities/LinkContentHelpers";
+import { LinkContentExtractor } from "./LinkContentExtractor";
+
+/**
+ * Extractor for markdown notes and other plain text files
+ * Also used as the fallback for extensions without a dedicated extractor
+ */
+export class MarkdownExtractor implements LinkContentExtractor {
+  readonly id = "markdown";
+  readonly extensions = ["md", "txt"];
+
+  constructor(private app: App) {}
+
+  /**
+   * Read the linked note, or only the referenced section/block when a subpath is given
+   * e.g., [[Note#Heading]] inlines the heading and its content up to the next heading of the same level,
+   * [[Note#^block-id]] inlines only that block
+   */
+  async extract(file: TFile, subpath: string): Promise<string | null> {
+    const content = await this.app.vault.read(file);
+    if (!subpath) {
+      return content;
+    }
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    const resolved = cache ? resolveSubpath(cache, `#${subpath}`) : null;
+    if (!resolved) {
+      console.warn(`[ChatGPT MD] Section not found in ${file.path}: #${subpath}`);
+      return null;
+    }
+
+    // List item blocks span the whole item including nested children
+    const start = resolved.type === "block" && resolved.list ? resolved.list.position.start : resolved.start;
+    const end = resolved.type === "block" && resolved.list ? resolved.list.position.end : resolved.end;
+    const section = content.substring(start.offset, end ? end.offset : undefined);
+
+    return removeBlockIds(section).trim();
+  }
+}
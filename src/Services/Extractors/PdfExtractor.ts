@@ -0,0 +1,40 @@
+import { App, loadPdfJs, TFile } from "obsidian";
+import { parsePageRange } from "src/Utilities/LinkContentHelpers";
+import { LinkContentExtractor } from "./LinkContentExtractor";
+
+/**
+ * Extractor for PDF files
+ * Uses the PDF.js build bundled with Obsidian; "#page=3" or "#page=2-4" limits the extracted pages
+ */
+export class PdfExtractor implements LinkContentExtractor {
+  readonly id = "pdf";
+  readonly extensions = ["pdf"];
+
+  constructor(private app: App) {}
+
+  async extract(file: TFile, subpath: string): Promise<string | null> {
+    const pdfjs = await loadPdfJs();
+    const data = await this.app.vault.readBinary(file);
+    const document = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+    try {
+      const pages: string[] = [];
+      for (const pageNumber of parsePageRange(subpath, document.numPages)) {
+        const page = await document.getPage(pageNumber);
+        const textContent = await page.getTextContent();
+        const text = textContent.items
+          .map((item: { str?: string; hasEOL?: boolean }) => `${item.str ?? ""}${item.hasEOL ? "\n" : ""}`)
+          .join("")
+          .trim();
+
+        if (text) {
+          pages.push(`Page ${pageNumber}:\n${text}`);
+        }
+      }
+
+      return pages.length > 0 ? pages.join("\n\n") : null;
+    } finally {
+      await document.destroy();
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { App, MarkdownView, Notice, TFile } from "obsidian";
+import { App, arrayBufferToBase64, MarkdownView, Notice, TFile } from "obsidian";
 import { createFolderModal } from "src/Utilities/ModalHelpers";
 
 /**
@@ -20,11 +20,7 @@ export class FileService {
     const sanitizedTitle = this.sanitizeFileName(title);
 
     const currentFolder = file.parent?.path ?? "/";
-    let newFileName = `${currentFolder}/${sanitizedTitle}.md`;
-
-    for (let i = 1; await this.app.vault.adapter.exists(newFileName); i++) {
-      newFileName = `${currentFolder}/${sanitizedTitle} (${i}).md`;
-    }
+    const newFileName = await this.getAvailableFilePath(currentFolder, sanitizedTitle);
 
     try {
       await this.app.fileManager.renameFile(file, newFileName);
@@ -45,6 +41,20 @@ export class FileService {
     return fileName.replace(/[\\/:*?"<>|]/g, "-");
   }
 
+  /**
+   * Get a markdown file path in a folder that is not taken yet
+   * Appends " (1)", " (2)", ... to the base name when needed
+   */
+  async getAvailableFilePath(folderPath: string, baseName: string): Promise<string> {
+    let filePath = `${folderPath}/${baseName}.md`;
+
+    for (let i = 1; await this.app.vault.adapter.exists(filePath); i++) {
+      filePath = `${folderPath}/${baseName} (${i}).md`;
+    }
+
+    return filePath;
+  }
+
   /**
    * Ensure a folder exists, creating it if necessary
    */
@@ -79,14 +89,20 @@ export class FileService {
   }
 
   /**
-   * Get the content of a linked note
+   * Read a linked binary file (e.g. an embedded image) as base64
+   * Returns null if the link cannot be resolved
    */
-  async getLinkedNoteContent(linkPath: string): Promise<string | null> {
+  async readLinkedFileAsBase64(linkPath: string): Promise<{ path: string; data: string; size: number } | null> {
     try {
       const file = this.app.metadataCache.getFirstLinkpathDest(linkPath, "");
-      return file ? await this.app.vault.read(file) : null;
+      if (!file) {
+        return null;
+      }
+
+      const buffer = await this.app.vault.readBinary(file);
+      return { path: file.path, data: arrayBufferToBase64(buffer), size: buffer.byteLength };
     } catch (error) {
-      console.error(`Error reading linked note: ${linkPath}`, error);
+      console.error(`Error reading linked file: ${linkPath}`, error);
       return null;
     }
   }
@@ -101,6 +101,49 @@ export class FrontmatterManager {
     }
   }
 
+  /**
+   * Add amounts to numeric fields in the frontmatter
+   * Missing or non-numeric fields start at 0, sums are rounded to 6 decimals to avoid floating point noise
+   * @param file - The TFile to update
+   * @param amounts - Object containing the amount to add per key
+   */
+  async addToFrontmatterNumbers(file: TFile, amounts: Record<string, number>): Promise<void> {
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        for (const [key, amount] of Object.entries(amounts)) {
+          const current = Number(frontmatter[key]) || 0;
+          frontmatter[key] = Math.round((current + amount) * 1_000_000) / 1_000_000;
+        }
+      });
+    } catch (error) {
+      console.error("[FrontmatterManager] Error updating frontmatter numbers:", error);
+      throw new Error(`Failed to update frontmatter numbers: ${error.message}`);
+    }
+  }
+
+  /**
+   * Append a value to a list field in the frontmatter
+   * Creates the list if needed, converts a single value into a list and skips duplicates
+   * @param file - The TFile to update
+   * @param key - The frontmatter key of the list
+   * @param value - The value to append
+   */
+  async appendToFrontmatterList(file: TFile, key: string, value: unknown): Promise<void> {
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        const current = frontmatter[key];
+        const list: unknown[] = Array.isArray(current) ? current : current == null ? [] : [current];
+        if (!list.includes(value)) {
+          list.push(value);
+        }
+        frontmatter[key] = list;
+      });
+    } catch (error) {
+      console.error("[FrontmatterManager] Error appending to frontmatter list:", error);
+      throw new Error(`Failed to append to frontmatter field '${key}': ${error.message}`);
+    }
+  }
+
   /**
    * Remove a specific field from frontmatter
    * @param file - The TFile to update
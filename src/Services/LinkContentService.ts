@@ -0,0 +1,247 @@
+import { App, parseLinktext, TFile } from "obsidian";
+import { HORIZONTAL_LINE_MD, NEWLINE, ROLE_ASSISTANT, ROLE_IDENTIFIER, ROLE_USER } from "src/Constants";
+import { findLinksInMessage, removeYAMLFrontMatter } from "src/Utilities/MessageHelpers";
+import { escapeRegExp } from "src/Utilities/TextHelpers";
+import { selectLinkContentToDrop } from "src/Utilities/LinkContentHelpers";
+import { estimateTokens } from "src/Utilities/TokenHelpers";
+import { LinkContentExtractor } from "./Extractors/LinkContentExtractor";
+import { MarkdownExtractor } from "./Extractors/MarkdownExtractor";
+import { PdfExtractor } from "./Extractors/PdfExtractor";
+import { CsvExtractor } from "./Extractors/CsvExtractor";
+import { CanvasExtractor } from "./Extractors/CanvasExtractor";
+
+/**
+ * Options for expanding links in chat messages
+ */
+export interface LinkExpansionOptions {
+  /** How many levels of links inside linked content are expanded (1 = only links in the chat) */
+  depth: number;
+  /** Maximum estimated tokens of inlined content per request */
+  tokenBudget: number;
+}
+
+/**
+ * A reference from a text to linked content
+ */
+interface LinkReference {
+  link: string;
+  key: string;
+}
+
+/**
+ * Linked content collected for inlining
+ */
+interface LinkExpansion {
+  key: string;
+  title: string;
+  content: string;
+  tokens: number;
+  lastReference: number;
+  parentKey?: string;
+  references: LinkReference[];
+}
+
+/**
+ * Mutable state shared while collecting links for one request
+ */
+interface LinkExpansionState {
+  expansions: Map<string, LinkExpansion>;
+  referenceCounter: number;
+  depth: number;
+}
+
+/**
+ * Registry of link content extractors
+ * Resolves links found in chat messages and extracts their content based on the file extension
+ */
+export class LinkContentService {
+  // Extractor registry keyed by lowercase file extension
+  private extractors = new Map<string, LinkContentExtractor>();
+  private readonly fallbackExtractor: LinkContentExtractor;
+
+  constructor(private app: App) {
+    this.fallbackExtractor = new MarkdownExtractor(app);
+
+    // Register built-in extractors
+    this.registerExtractor(this.fallbackExtractor);
+    this.registerExtractor(new PdfExtractor(app));
+    this.registerExtractor(new CsvExtractor(app));
+    this.registerExtractor(new CanvasExtractor(app));
+  }
+
+  /**
+   * Register an extractor for its file extensions
+   * Replaces any extractor previously registered for the same extension
+   */
+  registerExtractor(extractor: LinkContentExtractor): void {
+    for (const extension of extractor.extensions) {
+      this.extractors.set(extension.toLowerCase(), extractor);
+    }
+  }
+
+  /**
+   * Get the extractor for a file extension, falling back to plain text reading
+   */
+  getExtractor(extension: string): LinkContentExtractor {
+    return this.extractors.get(extension.toLowerCase()) ?? this.fallbackExtractor;
+  }
+
+  /**
+   * Get the content of a linked file
+   * @param linkText - Link target as written in the note (e.g., "paper.pdf#page=3")
+   * @returns Extracted text, or null if the link cannot be resolved or extracted
+   */
+  async getLinkContent(linkText: string): Promise<string | null> {
+    const resolved = this.resolveLink(linkText);
+    return resolved ? this.extractContent(resolved.file, resolved.subpath, linkText) : null;
+  }
+
+  /**
+   * Inline linked content into chat messages
+   *
+   * - Links inside linked content are expanded recursively up to options.depth levels
+   * - Content linked more than once (across messages or through cycles) is inlined only at its first reference
+   * - When the inlined content exceeds options.tokenBudget, the least recently referenced content is dropped first
+   *
+   * @returns Messages with links replaced by their content, and the titles of dropped content
+   */
+  async expandLinksInMessages(
+    messages: string[],
+    options: LinkExpansionOptions
+  ): Promise<{ messages: string[]; droppedTitles: string[] }> {
+    if (options.depth < 1) {
+      return { messages, droppedTitles: [] };
+    }
+
+    const state: LinkExpansionState = { expansions: new Map(), referenceCounter: 0, depth: options.depth };
+    const messageReferences: LinkReference[][] = [];
+    for (const message of messages) {
+      messageReferences.push(await this.collectReferences(message, 1, state));
+    }
+
+    const dropped = selectLinkContentToDrop(
+      Array.from(state.expansions.values()).map((expansion) => ({
+        id: expansion.key,
+        tokens: expansion.tokens,
+        lastReference: expansion.lastReference,
+        parentId: expansion.parentKey,
+      })),
+      options.tokenBudget
+    );
+
+    const rendered = new Set<string>();
+    return {
+      messages: messages.map((message, index) =>
+        this.renderReferences(message, messageReferences[index], state, dropped, rendered)
+      ),
+      droppedTitles: Array.from(dropped).map((key) => state.expansions.get(key)!.title),
+    };
+  }
+
+  /**
+   * Collect the links in a text and, up to the configured depth, the links inside their content
+   */
+  private async collectReferences(
+    text: string,
+    level: number,
+    state: LinkExpansionState,
+    parentKey?: string
+  ): Promise<LinkReference[]> {
+    const references: LinkReference[] = [];
+
+    for (const link of findLinksInMessage(text)) {
+      const resolved = this.resolveLink(link.title);
+      const key = resolved ? `${resolved.file.path}#${resolved.subpath}` : "";
+      const existing = state.expansions.get(key);
+
+      if (existing) {
+        // Already inlined elsewhere (this also breaks link cycles)
+        existing.lastReference = ++state.referenceCounter;
+        references.push({ link: link.link, key });
+        continue;
+      }
+
+      const content = resolved ? await this.extractContent(resolved.file, resolved.subpath, link.title) : null;
+      if (!content) {
+        console.warn(`Error fetching linked note content for: ${link.link}`);
+        continue;
+      }
+
+      const cleaned = this.cleanLinkedContent(content);
+      const expansion: LinkExpansion = {
+        key,
+        title: link.title,
+        content: cleaned,
+        tokens: estimateTokens(cleaned),
+        lastReference: ++state.referenceCounter,
+        parentKey,
+        references: [],
+      };
+      state.expansions.set(key, expansion);
+      references.push({ link: link.link, key });
+
+      if (level < state.depth) {
+        expansion.references = await this.collectReferences(cleaned, level + 1, state, key);
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Replace references with their (recursively rendered) content
+   * Dropped content and content already rendered elsewhere keep their link text
+   */
+  private renderReferences(
+    text: string,
+    references: LinkReference[],
+    state: LinkExpansionState,
+    dropped: Set<string>,
+    rendered: Set<string>
+  ): string {
+    for (const reference of references) {
+      const expansion = state.expansions.get(reference.key);
+      if (!expansion || dropped.has(reference.key) || rendered.has(reference.key)) continue;
+
+      rendered.add(reference.key);
+      const content = this.renderReferences(expansion.content, expansion.references, state, dropped, rendered);
+      const inlined = `${NEWLINE}${expansion.title}${NEWLINE}${content}${NEWLINE}`;
+      text = text.replace(new RegExp(escapeRegExp(reference.link), "g"), () => inlined);
+    }
+    return text;
+  }
+
+  /**
+   * Resolve link text to a vault file and subpath
+   */
+  private resolveLink(linkText: string): { file: TFile; subpath: string } | null {
+    const { path, subpath } = parseLinktext(linkText);
+    const file = this.app.metadataCache.getFirstLinkpathDest(path, "");
+    return file ? { file, subpath: subpath.replace(/^#/, "") } : null;
+  }
+
+  /**
+   * Extract content with the extractor registered for the file extension
+   */
+  private async extractContent(file: TFile, subpath: string, linkText: string): Promise<string | null> {
+    try {
+      return await this.getExtractor(file.extension).extract(file, subpath);
+    } catch (error) {
+      console.error(`[ChatGPT MD] Error extracting linked file: ${linkText}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove chat delimiters and YAML frontmatter from linked content
+   */
+  private cleanLinkedContent(content: string): string {
+    // remove the assistant and user delimiters
+    // if the inlined note was already a chat
+    const regex = new RegExp(
+      `${NEWLINE}${HORIZONTAL_LINE_MD}${NEWLINE}#+ ${ROLE_IDENTIFIER}(?:${ROLE_USER}|${ROLE_ASSISTANT}).*$`,
+      "gm"
+    );
+    return removeYAMLFrontMatter(content.replace(regex, "")) || "";
+  }
+}
@@ -1,17 +1,33 @@
 import { Editor } from "obsidian";
-import { Message } from "src/Models/Message";
-import { ChatGPT_MDSettings } from "src/Models/Config";
+import { ImagePart, Message } from "src/Models/Message";
+import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
 import { FileService } from "./FileService";
 import { NotificationService } from "./NotificationService";
-import { HORIZONTAL_LINE_MD, NEWLINE, ROLE_ASSISTANT, ROLE_IDENTIFIER, ROLE_USER } from "src/Constants";
+import { LinkContentService } from "./LinkContentService";
+import {
+  CONVERSATION_SUMMARY_PREFIX,
+  DEFAULT_LINK_DEPTH,
+  DEFAULT_LINK_TOKEN_BUDGET,
+  DEFAULT_MAX_IMAGE_SIZE_MB,
+  ROLE_ASSISTANT,
+  ROLE_IDENTIFIER,
+  ROLE_SYSTEM,
+  ROLE_USER,
+} from "src/Constants";
+import { ErrorMessages } from "src/Utilities/ErrorMessageFormatter";
+import { removeAlternativesCallout } from "src/Utilities/AlternativeResponseHelpers";
+import { removeThinkingCallouts } from "src/Utilities/ReasoningHelpers";
+import { splitToolCallMessages } from "src/Utilities/ToolCallHelpers";
 import {
-  escapeRegExp,
   extractRoleAndMessage as extractRoleAndMessageUtil,
   getHeaderRole,
   getHeadingPrefix,
 } from "../Utilities/TextHelpers";
 import {
+  extractConversationSummary,
+  findImageEmbedsInMessage,
   findLinksInMessage,
+  getImageMediaType,
   removeCommentBlocks,
   removeYAMLFrontMatter,
   splitMessages,
@@ -24,7 +40,8 @@ import {
 export class MessageService {
   constructor(
     private fileService: FileService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private linkContentService: LinkContentService
   ) {}
 
   /**
@@ -71,61 +88,97 @@ export class MessageService {
    * Clean messages from the editor content
    */
   cleanMessagesFromNote(editor: Editor): string[] {
-    const messages = this.splitMessages(this.removeYAMLFrontMatter(editor.getValue()));
-    return messages.map((msg) => this.removeCommentsFromMessages(msg));
+    return this.cleanMessages(this.removeYAMLFrontMatter(editor.getValue()));
+  }
+
+  /**
+   * Split chat text into messages and remove comments, alternative responses and reasoning
+   * A conversation summary left by the compact chat command becomes a system message
+   */
+  cleanMessages(text: string | undefined): string[] {
+    return this.splitMessages(text).flatMap((msg) => {
+      const summary = extractConversationSummary(msg);
+      const cleaned = removeThinkingCallouts(removeAlternativesCallout(this.removeCommentsFromMessages(msg)));
+      if (summary === null) {
+        return [cleaned];
+      }
+
+      const summaryMessage = `${ROLE_IDENTIFIER}${ROLE_SYSTEM}\n${CONVERSATION_SUMMARY_PREFIX}\n\n${summary}`;
+      return cleaned.trim() ? [summaryMessage, cleaned] : [summaryMessage];
+    });
   }
 
   /**
    * Get messages from the editor
+   * When the chat frontmatter is passed, image embeds in user messages are attached as image parts
    */
   async getMessagesFromEditor(
     editor: Editor,
-    settings: ChatGPT_MDSettings
+    settings: ChatGPT_MDSettings,
+    frontmatter?: MergedFrontmatterConfig
   ): Promise<{
     messages: string[];
     messagesWithRole: Message[];
   }> {
     let messages = this.cleanMessagesFromNote(editor);
 
-    messages = await Promise.all(
-      messages.map(async (message) => {
-        const links = this.findLinksInMessage(message);
-        for (const link of links) {
-          try {
-            let content = await this.fileService.getLinkedNoteContent(link.title);
-
-            if (content) {
-              // remove the assistant and user delimiters
-              // if the inlined note was already a chat
-              const regex = new RegExp(
-                `${NEWLINE}${HORIZONTAL_LINE_MD}${NEWLINE}#+ ${ROLE_IDENTIFIER}(?:${ROLE_USER}|${ROLE_ASSISTANT}).*$`,
-                "gm"
-              );
-              content = content?.replace(regex, "");
-              content = this.removeYAMLFrontMatter(content) || null;
-
-              message = message.replace(
-                new RegExp(escapeRegExp(link.link), "g"),
-                `${NEWLINE}${link.title}${NEWLINE}${content}${NEWLINE}`
-              );
-            } else {
-              console.warn(`Error fetching linked note content for: ${link.link}`);
-            }
-          } catch (error) {
-            console.error(error);
-          }
-        }
+    const linkExpansion = await this.linkContentService.expandLinksInMessages(messages, {
+      depth: Number(frontmatter?.link_depth ?? DEFAULT_LINK_DEPTH),
+      tokenBudget: Number(frontmatter?.link_token_budget) || DEFAULT_LINK_TOKEN_BUDGET,
+    });
+    messages = linkExpansion.messages;
+
+    if (linkExpansion.droppedTitles.length > 0) {
+      this.notificationService.showWarning(
+        `Linked content exceeded the token budget, dropped: ${linkExpansion.droppedTitles.join(", ")}`
+      );
+    }
 
-        return message;
-      })
-    );
+    // Extract roles from each message, turning persisted tool call callouts back into tool calls
+    const messagesWithRole = messages.map((msg) => this.extractRoleAndMessage(msg)).flatMap(splitToolCallMessages);
 
-    // Extract roles from each message
-    const messagesWithRole = messages.map((msg) => this.extractRoleAndMessage(msg));
+    if (frontmatter) {
+      const maxImageSizeMb = Number(frontmatter.max_image_size_mb) || DEFAULT_MAX_IMAGE_SIZE_MB;
+      await this.attachEmbeddedImages(messagesWithRole, maxImageSizeMb);
+    }
 
     return { messages, messagesWithRole };
   }
 
+  /**
+   * Read image embeds in user messages from the vault and attach them as image parts
+   * Throws when the combined image size exceeds the per-chat cap
+   */
+  private async attachEmbeddedImages(messages: Message[], maxImageSizeMb: number): Promise<void> {
+    const maxBytes = maxImageSizeMb * 1024 * 1024;
+    let totalBytes = 0;
+
+    for (const message of messages) {
+      if (message.role !== ROLE_USER) continue;
+
+      const images: ImagePart[] = [];
+      for (const embed of findImageEmbedsInMessage(message.content)) {
+        const file = await this.fileService.readLinkedFileAsBase64(embed.path);
+        if (!file) {
+          console.warn(`[ChatGPT MD] Embedded image not found: ${embed.path}`);
+          continue;
+        }
+
+        totalBytes += file.size;
+        if (totalBytes > maxBytes) {
+          throw new Error(ErrorMessages.MEDIA.IMAGE_SIZE_LIMIT((totalBytes / 1024 / 1024).toFixed(1), maxImageSizeMb));
+        }
+
+        const mediaType = getImageMediaType(file.path) || getImageMediaType(embed.path)!;
+        images.push({ type: "image", image: file.data, mediaType, path: file.path });
+      }
+
+      if (images.length > 0) {
+        message.images = images;
+      }
+    }
+  }
+
   /**
    * Add system commands to messages
    */
@@ -0,0 +1,166 @@
+import { ChatGPT_MDSettings } from "src/Models/Config";
+import { ModelCatalog, ModelInfo } from "src/Models/ModelCatalog";
+import {
+  AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
+  AI_SERVICE_GEMINI,
+  AI_SERVICE_LMSTUDIO,
+  AI_SERVICE_OLLAMA,
+  AI_SERVICE_OPENAI,
+  AI_SERVICE_OPENROUTER,
+  AI_SERVICE_ZAI,
+  FETCH_MODELS_TIMEOUT_MS,
+} from "src/Constants";
+import { getCustomProviders } from "src/Utilities/CustomProviderHelpers";
+import {
+  findCatalogModel,
+  getCatalogModelIds,
+  isModelListStale,
+  parseProviderTtls,
+  updateModelCatalog,
+} from "src/Utilities/ModelCatalogHelpers";
+import { ApiAuthService, isValidApiKey } from "./ApiAuthService";
+import { AiProviderService } from "./AiProviderService";
+import { SettingsService } from "./SettingsService";
+
+/**
+ * A provider to fetch models from
+ */
+export interface ModelSource {
+  /** AI service or custom provider name */
+  provider: string;
+  url: string;
+  apiKey?: string;
+}
+
+/**
+ * Local servers, listed without an API key
+ */
+const KEYLESS_PROVIDERS = [AI_SERVICE_OLLAMA, AI_SERVICE_LMSTUDIO];
+
+/**
+ * Providers listed when their API key is set
+ */
+const KEYED_PROVIDERS = [
+  AI_SERVICE_OPENAI,
+  AI_SERVICE_OPENROUTER,
+  AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_GEMINI,
+  AI_SERVICE_ZAI,
+  AI_SERVICE_AZURE,
+];
+
+/**
+ * Service responsible for the model catalog
+ * Keeps each provider's models with metadata in plugin data, so the model picker works offline and
+ * other features can look up model capabilities. Model lists are fetched again after their refresh interval.
+ */
+export class ModelCatalogService {
+  constructor(
+    private settingsService: SettingsService,
+    private apiAuthService: ApiAuthService,
+    private aiProviderService: () => AiProviderService
+  ) {}
+
+  /**
+   * Get the providers to list models of: local servers, custom providers and providers with an API key
+   * @param urls - Base URL per provider
+   */
+  getSources(urls: Record<string, string>): ModelSource[] {
+    const settings = this.settingsService.getSettings();
+    const keyed = KEYED_PROVIDERS.map((provider) => ({
+      provider,
+      url: urls[provider],
+      apiKey: this.apiAuthService.getApiKey(settings, provider),
+    })).filter((source) => isValidApiKey(source.apiKey) && !!source.url);
+    const custom = getCustomProviders(settings).map((provider) => ({
+      provider: provider.name,
+      url: urls[provider.name] || provider.url,
+      apiKey: this.apiAuthService.getApiKey(settings, provider.name),
+    }));
+
+    return [...KEYLESS_PROVIDERS.map((provider) => ({ provider, url: urls[provider] })), ...keyed, ...custom];
+  }
+
+  /**
+   * Get the cached model IDs of the configured providers, without fetching
+   */
+  getModelIds(urls: Record<string, string>): string[] {
+    return getCatalogModelIds(
+      this.getCatalog(),
+      this.getSources(urls).map((source) => source.provider)
+    );
+  }
+
+  /**
+   * Look up a model's metadata
+   * @param modelId - Model ID with provider prefix
+   * @returns Model data, or undefined if the model is not in the catalog
+   */
+  getModel(modelId: string): ModelInfo | undefined {
+    return findCatalogModel(this.getCatalog(), modelId);
+  }
+
+  /**
+   * Fetch the models of providers whose lists are stale and save them in the catalog
+   * @param urls - Base URL per provider
+   * @param force - Fetch all providers regardless of their refresh interval
+   * @returns Model IDs of the configured providers
+   */
+  async refresh(urls: Record<string, string>, force = false): Promise<string[]> {
+    const settings = this.settingsService.getSettings();
+    const now = new Date();
+    const sources = this.getSources(urls);
+    const stale = sources.filter(
+      (source) => force || isModelListStale(this.getCatalog()[source.provider], this.getTtlHours(source.provider), now)
+    );
+
+    if (stale.length > 0) {
+      const aiService = this.aiProviderService();
+      const results = await Promise.all(stale.map((source) => this.fetchModels(aiService, source, settings, now)));
+
+      // Merge into the current catalog, which another refresh may have updated in the meantime
+      const catalog = stale.reduce(
+        (current, source, index) => updateModelCatalog(current, source.provider, results[index], now),
+        this.getCatalog()
+      );
+      this.settingsService.updateSettings({ modelCatalog: catalog });
+      await this.settingsService.saveSettings();
+    }
+
+    return getCatalogModelIds(
+      this.getCatalog(),
+      sources.map((source) => source.provider)
+    );
+  }
+
+  /**
+   * Fetch and describe a provider's models
+   * @returns The models, or none if the provider fails or does not answer in time
+   */
+  private async fetchModels(
+    aiService: AiProviderService,
+    source: ModelSource,
+    settings: ChatGPT_MDSettings,
+    now: Date
+  ): Promise<ModelInfo[]> {
+    const timeout = new Promise<string[]>((resolve) => setTimeout(() => resolve([]), FETCH_MODELS_TIMEOUT_MS));
+    const modelIds = await Promise.race([
+      aiService.fetchAvailableModels(source.url, source.apiKey, settings, source.provider),
+      timeout,
+    ]);
+    return modelIds.map((modelId) => aiService.describeModel(modelId, settings, now));
+  }
+
+  /**
+   * Refresh interval of a provider's model list in hours
+   */
+  private getTtlHours(provider: string): number {
+    const settings = this.settingsService.getSettings();
+    return parseProviderTtls(settings.modelCatalogProviderTtls)[provider] ?? Number(settings.modelCatalogTtlHours);
+  }
+
+  private getCatalog(): ModelCatalog {
+    return this.settingsService.getSettings().modelCatalog ?? {};
+  }
+}
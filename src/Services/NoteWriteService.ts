@@ -0,0 +1,123 @@
+import { App, TFile } from "obsidian";
+import { NoteWriteMode, NoteWriteResult, NoteWriteUndoEntry } from "src/Models/Tool";
+import { getAppendSeparator, getParentFolders, normalizeNotePath } from "src/Utilities/NoteWriteHelpers";
+
+/**
+ * Service for the note_create and note_append tools
+ * Validates target paths against the vault, writes approved changes and keeps an undo entry per write
+ */
+export class NoteWriteService {
+  private undoEntries: NoteWriteUndoEntry[] = [];
+
+  constructor(private app: App) {}
+
+  /**
+   * Check a target path: new notes must not exist yet, appended notes must exist
+   * @returns The normalized vault path, or an error to show in the approval modal
+   */
+  validatePath(path: string, mode: NoteWriteMode): { path: string } | { error: string } {
+    const normalized = normalizeNotePath(path);
+    if ("error" in normalized) {
+      return normalized;
+    }
+
+    const existing = this.app.vault.getAbstractFileByPath(normalized.path);
+    if (mode === "create" && existing) {
+      return { error: `${normalized.path} already exists` };
+    }
+    if (mode === "append" && !(existing instanceof TFile)) {
+      return { error: `${normalized.path} does not exist` };
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Read the note at a path
+   * @returns The content, or undefined if there is no note at the path
+   */
+  async readNote(path: string): Promise<string | undefined> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? this.app.vault.read(file) : undefined;
+  }
+
+  /**
+   * Create a note, including missing parent folders
+   */
+  async createNote(path: string, content: string): Promise<NoteWriteResult> {
+    const target = this.getValidPath(path, "create");
+
+    for (const folder of getParentFolders(target)) {
+      if (!this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+    }
+    await this.app.vault.create(target, content);
+
+    this.undoEntries.push({ mode: "create", path: target, writtenContent: content });
+    return { path: target, mode: "create", size: content.length };
+  }
+
+  /**
+   * Append text to the end of a note as a new paragraph
+   */
+  async appendToNote(path: string, content: string): Promise<NoteWriteResult> {
+    const target = this.getValidPath(path, "append");
+    const file = this.app.vault.getAbstractFileByPath(target) as TFile;
+
+    let previousContent = "";
+    const writtenContent = await this.app.vault.process(file, (data) => {
+      previousContent = data;
+      return data + getAppendSeparator(data) + content;
+    });
+
+    this.undoEntries.push({ mode: "append", path: target, previousContent, writtenContent });
+    return { path: target, mode: "append", size: content.length };
+  }
+
+  /**
+   * Whether there is a write to undo
+   */
+  canUndo(): boolean {
+    return this.undoEntries.length > 0;
+  }
+
+  /**
+   * Undo the last write: created notes are moved to the trash, appended text is removed
+   * Notes edited since the write are left alone, and the write stays the next one to undo.
+   * @returns A message describing what was undone
+   */
+  async undoLastWrite(): Promise<string> {
+    const entry = this.undoEntries[this.undoEntries.length - 1];
+    if (!entry) {
+      throw new Error("There is no note change to undo");
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`${entry.path} no longer exists`);
+    }
+    if ((await this.app.vault.read(file)) !== entry.writtenContent) {
+      throw new Error(`${entry.path} was edited after the change, undo it manually`);
+    }
+
+    if (entry.mode === "create") {
+      await this.app.fileManager.trashFile(file);
+    } else {
+      await this.app.vault.modify(file, entry.previousContent ?? "");
+    }
+    this.undoEntries.pop();
+
+    return entry.mode === "create"
+      ? `Moved ${entry.path} to the trash`
+      : `Removed the appended text from ${entry.path}`;
+  }
+
+  private getValidPath(path: string, mode: NoteWriteMode): string {
+    const result = this.validatePath(path, mode);
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+    return result.path;
+  }
+}
@@ -8,9 +8,11 @@ import { FrontmatterManager } from "./FrontmatterManager";
 import { objectToYamlFrontmatter, parseSettingsFrontmatter } from "src/Utilities/YamlHelpers";
 import { getDefaultConfigForService } from "src/Utilities/FrontmatterHelpers";
 import { aiProviderFromKeys, aiProviderFromUrl } from "src/Utilities/ProviderHelpers";
+import { getCustomProviderNames } from "src/Utilities/CustomProviderHelpers";
 import type { AgentService } from "./AgentService";
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
@@ -70,6 +72,12 @@ const PROVIDER_FRONTMATTER_FIELDS: Record<string, (settings: ChatGPT_MDSettings)
     temperature: s.zaiDefaultTemperature,
     max_tokens: s.zaiDefaultMaxTokens,
   }),
+  [AI_SERVICE_AZURE]: (s) => ({
+    model: s.azureDefaultModel,
+    url: s.azureUrl,
+    temperature: s.azureDefaultTemperature,
+    max_tokens: s.azureDefaultMaxTokens,
+  }),
 };
 
 /**
@@ -198,7 +206,11 @@ export class SettingsService {
     // Determine AI service
     const aiService =
       (merged.aiService as string | undefined) ||
-      aiProviderFromUrl(merged.url as string | undefined, merged.model as string | undefined) ||
+      aiProviderFromUrl(
+        merged.url as string | undefined,
+        merged.model as string | undefined,
+        getCustomProviderNames(this.settings)
+      ) ||
       aiProviderFromKeys(merged as Record<string, unknown>) ||
       AI_SERVICE_OPENAI;
 
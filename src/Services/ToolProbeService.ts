@@ -0,0 +1,91 @@
+import { AI_SERVICE_OPENAI, TOOL_PROBE_DELAY_MS } from "src/Constants";
+import { ToolProbeResult } from "src/Models/ToolProbe";
+import { TokenUsage } from "src/Models/Usage";
+import { getCustomProviderNames } from "src/Utilities/CustomProviderHelpers";
+import { aiProviderFromUrl } from "src/Utilities/ProviderHelpers";
+import { ApiAuthService } from "./ApiAuthService";
+import { AiProviderService } from "./AiProviderService";
+import { SettingsService } from "./SettingsService";
+
+/**
+ * Options of a probe run
+ */
+export interface ToolProbeOptions {
+  /** Called before each probe */
+  onProgress?: (model: string, index: number) => void;
+  /** Called with the token usage of each answered probe */
+  onUsage?: (model: string, usage: TokenUsage) => Promise<void>;
+  /** Stops the run, the probe in flight is cancelled and its result discarded */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Service responsible for probing models for tool support
+ * Each probe sends a minimal request that requires a tool call. Results are saved in plugin data, where they
+ * take precedence over the tool-enabled models whitelist.
+ */
+export class ToolProbeService {
+  constructor(
+    private settingsService: SettingsService,
+    private apiAuthService: ApiAuthService,
+    private aiProviderService: () => AiProviderService
+  ) {}
+
+  /**
+   * Get the AI service a model is probed with, OpenAI for models without a provider prefix
+   */
+  getProvider(model: string): string {
+    const settings = this.settingsService.getSettings();
+    return aiProviderFromUrl(undefined, model, getCustomProviderNames(settings)) ?? AI_SERVICE_OPENAI;
+  }
+
+  /**
+   * Probe models one after another, pausing between requests to stay within rate limits
+   * Each result is saved as soon as it is known, so an interrupted run keeps its results.
+   * @param models - Model IDs with provider prefix
+   * @param urls - Base URL per provider
+   * @returns The results in the order of the models, up to where the run was stopped
+   */
+  async probe(
+    models: string[],
+    urls: Record<string, string>,
+    { onProgress, onUsage, abortSignal }: ToolProbeOptions = {}
+  ): Promise<ToolProbeResult[]> {
+    const aiService = this.aiProviderService();
+    const results: ToolProbeResult[] = [];
+
+    for (const [index, model] of models.entries()) {
+      if (index > 0) {
+        await new Promise((resolve) => setTimeout(resolve, TOOL_PROBE_DELAY_MS));
+      }
+      if (abortSignal?.aborted) {
+        break;
+      }
+      onProgress?.(model, index);
+
+      const settings = this.settingsService.getSettings();
+      const provider = this.getProvider(model);
+      const { result, usage } = await aiService.probeToolSupport(
+        model,
+        urls[provider],
+        this.apiAuthService.getApiKey(settings, provider),
+        abortSignal
+      );
+      if (usage) {
+        await onUsage?.(model, usage);
+      }
+      if (abortSignal?.aborted) {
+        break;
+      }
+      if (result.status === "error") {
+        console.warn(`[ChatGPT MD] Probing tool support of ${model} failed:`, result.error);
+      }
+
+      results.push(result);
+      this.settingsService.updateSettings({ toolProbeResults: { ...settings.toolProbeResults, [model]: result } });
+      await this.settingsService.saveSettings();
+    }
+
+    return results;
+  }
+}
@@ -5,14 +5,20 @@ import { FileService } from "./FileService";
 import { NotificationService } from "./NotificationService";
 import { VaultSearchService } from "./VaultSearchService";
 import { WebSearchService } from "./WebSearchService";
+import { NoteWriteService } from "./NoteWriteService";
 import { ChatGPT_MDSettings } from "src/Models/Config";
+import { ToolCallRecord } from "src/Models/Message";
 import { SearchResultsApprovalModal } from "src/Views/SearchResultsApprovalModal";
 import { WebSearchApprovalModal } from "src/Views/WebSearchApprovalModal";
 import { ToolApprovalModal } from "src/Views/ToolApprovalModal";
+import { NoteWriteApprovalModal } from "src/Views/NoteWriteApprovalModal";
 import {
+  NoteWriteMode,
+  NoteWriteResult,
   RegisteredTool,
   ToolApprovalDecision,
   ToolApprovalRequest,
+  ToolExecutionResult,
   ToolResultHandler,
   VaultSearchResult,
   WebSearchResult,
@@ -24,6 +30,7 @@ import {
  * - Tool registration and retrieval
  * - Vault operations (delegates to VaultSearchService)
  * - Web search (delegates to WebSearchService)
+ * - Note writing (delegates to NoteWriteService)
  * - Tool orchestration and approval
  */
 export class ToolService {
@@ -32,6 +39,7 @@ export class ToolService {
   private readonly tools: Map<string, RegisteredTool> = new Map();
   private readonly vaultSearchService: VaultSearchService;
   private readonly webSearchService: WebSearchService;
+  private readonly noteWriteService: NoteWriteService;
 
   constructor(
     private app: App,
@@ -39,16 +47,20 @@ export class ToolService {
     private notificationService: NotificationService,
     private settingsService: ChatGPT_MDSettings,
     vaultSearchService?: VaultSearchService,
-    webSearchService?: WebSearchService
+    webSearchService?: WebSearchService,
+    noteWriteService?: NoteWriteService
   ) {
     this.toolResultHandlers = {
       vault_search: this.handleVaultSearchResult.bind(this),
       file_read: this.handleFileReadResult.bind(this),
       web_search: this.handleWebSearchResult.bind(this),
+      note_create: this.handleNoteWriteResult.bind(this),
+      note_append: this.handleNoteWriteResult.bind(this),
     };
 
     this.vaultSearchService = vaultSearchService || new VaultSearchService(app, fileService);
     this.webSearchService = webSearchService || new WebSearchService(notificationService);
+    this.noteWriteService = noteWriteService || new NoteWriteService(app);
 
     // Register default tools
     this.registerDefaultTools();
@@ -142,6 +154,44 @@ export class ToolService {
       },
     });
     this.registerTool("web_search", webSearchTool);
+
+    // Note write tools - the user reviews and edits the content before anything is written
+    const noteWriteSchema = (contentDescription: string) =>
+      zodSchema(
+        z.object({
+          path: z.string().describe("Vault path of the note, e.g. 'Projects/Plan.md'. '.md' is added when missing."),
+          content: z.string().describe(contentDescription),
+        })
+      );
+
+    const noteCreateTool = tool({
+      description:
+        "Create a new markdown note in the vault. The note must not exist yet. User will review and can edit the content before it is written.",
+      inputSchema: noteWriteSchema("Markdown content of the new note"),
+      execute: async (args: { path: string; content: string }) =>
+        this.writeNote("create", () => this.noteWriteService.createNote(args.path, args.content)),
+    });
+    this.registerTool("note_create", noteCreateTool);
+
+    const noteAppendTool = tool({
+      description:
+        "Append markdown text to the end of an existing note in the vault, as a new paragraph. User will review and can edit the text before it is written.",
+      inputSchema: noteWriteSchema("Markdown text to add to the end of the note"),
+      execute: async (args: { path: string; content: string }) =>
+        this.writeNote("append", () => this.noteWriteService.appendToNote(args.path, args.content)),
+    });
+    this.registerTool("note_append", noteAppendTool);
+  }
+
+  /**
+   * Run an approved note write and tell the user how to undo it
+   */
+  private async writeNote(mode: NoteWriteMode, write: () => Promise<NoteWriteResult>): Promise<NoteWriteResult> {
+    const result = await write();
+    this.notificationService.showSuccess(
+      `${mode === "create" ? "Created" : "Appended to"} ${result.path}. Run 'Undo last note change' to revert.`
+    );
+    return result;
   }
 
   /**
@@ -192,6 +242,7 @@ export class ToolService {
    * Filters tools based on configuration requirements:
    * - vault_search/file_read: always available if tool calling enabled
    * - web_search: only if API key/URL configured
+   * - note_create/note_append: only if note writing is allowed
    *
    * @param settings - Plugin settings containing tool and web search configuration
    * @returns Object containing enabled tools, or undefined if no tools available
@@ -217,6 +268,12 @@ export class ToolService {
       enabledTools.web_search = allTools.web_search;
     }
 
+    // Note write tools - only if note writing is allowed
+    if (settings.enableNoteWriteTools) {
+      enabledTools.note_create = allTools.note_create;
+      enabledTools.note_append = allTools.note_append;
+    }
+
     // Return undefined if no tools are enabled (prevents passing empty object to AI SDK)
     return Object.keys(enabledTools).length > 0 ? enabledTools : undefined;
   }
@@ -228,6 +285,10 @@ export class ToolService {
    * Merged from ToolExecutor
    */
   private async requestApproval(request: ToolApprovalRequest): Promise<ToolApprovalDecision> {
+    if (request.toolName === "note_create" || request.toolName === "note_append") {
+      return this.requestNoteWriteApproval(request, request.toolName === "note_create" ? "create" : "append");
+    }
+
     const modal = new ToolApprovalModal(this.app, request.toolName, request.args, request.modelName);
     modal.open();
 
@@ -240,6 +301,44 @@ export class ToolService {
     return decision;
   }
 
+  /**
+   * Request approval for a note write, with the path and content as edited by the user
+   */
+  private async requestNoteWriteApproval(
+    request: ToolApprovalRequest,
+    mode: NoteWriteMode
+  ): Promise<ToolApprovalDecision> {
+    const modal = new NoteWriteApprovalModal(
+      this.app,
+      mode,
+      String(request.args.path ?? ""),
+      String(request.args.content ?? ""),
+      this.noteWriteService,
+      request.modelName
+    );
+    modal.open();
+
+    const decision = await modal.waitForResult();
+
+    if (!decision.approved) {
+      this.notificationService.showWarning(`Tool execution cancelled: ${request.toolName}`);
+    }
+
+    return {
+      approvalId: request.toolName,
+      approved: decision.approved,
+      modifiedArgs: { ...request.args, path: decision.path, content: decision.content },
+    };
+  }
+
+  /**
+   * Undo the last note written by note_create or note_append
+   * @returns A message describing what was undone
+   */
+  async undoLastNoteWrite(): Promise<string> {
+    return this.noteWriteService.undoLastWrite();
+  }
+
   /**
    * Set the approval handler for tool calls
    */
@@ -448,8 +547,35 @@ export class ToolService {
     }
   }
 
+  /**
+   * Handle note_create and note_append tool results
+   * The model is told the final path, which the user may have changed, or why writing failed
+   */
+  private async handleNoteWriteResult(
+    toolResult: any,
+    toolCall: any,
+    filteredResults: any[],
+    contextMessages: Array<{ role: "user"; content: string }>
+  ): Promise<void> {
+    const result = toolResult.result as NoteWriteResult | { error: string };
+    const toolName = toolCall?.toolName;
+    filteredResults.push(toolResult);
+
+    if ("error" in result) {
+      contextMessages.push({ role: "user", content: `[${toolName} result - failed]\n\n${result.error}` });
+      return;
+    }
+
+    const action = result.mode === "create" ? "Created note" : "Appended text to note";
+    contextMessages.push({
+      role: "user",
+      content: `[${toolName} result]\n\n${action}: ${result.path}. The user reviewed and may have edited the content before it was written.`,
+    });
+  }
+
   /**
    * Process tool call results: filter, approve, and convert to context messages
+   * Also returns a record per tool call with the result text that was shared, for persisting in the note
    */
   async processToolResults(
     toolCalls: any[],
@@ -458,9 +584,11 @@ export class ToolService {
   ): Promise<{
     filteredResults: any[];
     contextMessages: Array<{ role: "user"; content: string }>;
+    toolCallRecords: ToolCallRecord[];
   }> {
     const contextMessages: Array<{ role: "user"; content: string }> = [];
     const filteredResults: any[] = [];
+    const toolCallRecords: ToolCallRecord[] = [];
 
     for (const toolResult of toolResults) {
       const toolCall = toolCalls.find((tc: any) => {
@@ -470,16 +598,32 @@ export class ToolService {
 
       const toolName = toolCall?.toolName;
       const handler = this.toolResultHandlers[toolName];
+      const callContextMessages: Array<{ role: "user"; content: string }> = [];
 
       if (handler) {
-        await handler(toolResult, toolCall, filteredResults, contextMessages, modelName);
+        await handler(toolResult, toolCall, filteredResults, callContextMessages, modelName);
       } else {
         // Unknown tool - pass through as-is
         filteredResults.push(toolResult);
       }
+
+      contextMessages.push(...callContextMessages);
+      if (toolCall) {
+        const { toolName: name, args } = this.normalizeToolCall(toolCall);
+        toolCallRecords.push({
+          id: toolResult.toolCallId,
+          name,
+          // Record what ran, not what the model proposed, so the note and later turns match what was written
+          input: toolResult.args ?? args,
+          output:
+            callContextMessages.length > 0
+              ? callContextMessages.map((message) => message.content).join("\n\n")
+              : JSON.stringify(toolResult.result ?? null),
+        });
+      }
     }
 
-    return { filteredResults, contextMessages };
+    return { filteredResults, contextMessages, toolCallRecords };
   }
 
   /**
@@ -528,15 +672,20 @@ export class ToolService {
   }
 
   /**
-   * Execute tool and return result
+   * Execute tool and return result, together with the arguments it ran with
    */
-  private async executeTool(toolName: string, args: Record<string, unknown>, toolCallId: string): Promise<any> {
+  private async executeTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    toolCallId: string
+  ): Promise<ToolExecutionResult> {
     try {
       const tool = this.getTool(toolName);
       if (!tool || !tool.execute) {
         return {
           toolCallId,
           result: { error: "Tool not found or has no execute function" },
+          args,
         };
       }
 
@@ -546,11 +695,12 @@ export class ToolService {
         messages: [],
       });
 
-      return { toolCallId, result };
+      return { toolCallId, result, args };
     } catch (error) {
       return {
         toolCallId,
         result: { error: `Tool execution failed: ${error}` },
+        args,
       };
     }
   }
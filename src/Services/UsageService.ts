@@ -0,0 +1,204 @@
+import { App, normalizePath, TFile } from "obsidian";
+import { ChatGPT_MDSettings, MergedFrontmatterConfig } from "src/Models/Config";
+import { BudgetStatus, ModelPricing, TokenUsage, UsageLedgerEntry } from "src/Models/Usage";
+import { DEFAULT_BUDGET_WARNING_THRESHOLD } from "src/Constants";
+import {
+  calculateCost,
+  findModelPricing,
+  getBudgetState,
+  parseBudget,
+  parsePriceTable,
+  parseProviderBudgets,
+  sumLedgerCost,
+} from "src/Utilities/UsageHelpers";
+import { FrontmatterManager } from "./FrontmatterManager";
+
+/**
+ * A response to record
+ */
+export interface UsageRecord {
+  /** Chat note, null for requests outside a chat, which are only added to the ledger */
+  file: TFile | null;
+  /** AI service of the chat (e.g., "openai") */
+  provider: string;
+  /** Model ID as written in the frontmatter */
+  model: string;
+  usage: TokenUsage;
+  /** Cost in USD, undefined if the model has no known price */
+  cost?: number;
+}
+
+/**
+ * Service responsible for token usage and cost tracking
+ * Keeps per-chat totals in the frontmatter (tokens_in, tokens_out, cost_usd) and a vault-level JSON ledger,
+ * and checks spending budgets against them
+ */
+export class UsageService {
+  // Ledger writes are chained so responses finishing at the same time do not overwrite each other
+  private ledgerQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private app: App,
+    private frontmatterManager: FrontmatterManager
+  ) {}
+
+  /**
+   * Calculate the cost of a response
+   * Prices from the Model Prices setting win over prices reported by the provider
+   * @returns Cost in USD, or undefined if the model has no known price
+   */
+  getCost(
+    model: string,
+    usage: TokenUsage,
+    settings: ChatGPT_MDSettings,
+    reportedPricing?: ModelPricing
+  ): number | undefined {
+    const pricing = findModelPricing(model, parsePriceTable(settings.modelPrices)) ?? reportedPricing;
+    return pricing ? calculateCost(usage, pricing) : undefined;
+  }
+
+  /**
+   * Add a response to the chat totals in the frontmatter and to the usage ledger
+   */
+  async recordUsage(record: UsageRecord, settings: ChatGPT_MDSettings): Promise<void> {
+    const amounts: Record<string, number> = {
+      tokens_in: record.usage.inputTokens,
+      tokens_out: record.usage.outputTokens,
+    };
+    if (record.cost !== undefined) {
+      amounts.cost_usd = record.cost;
+    }
+    if (record.file) {
+      await this.frontmatterManager.addToFrontmatterNumbers(record.file, amounts);
+    }
+
+    if (settings.usageLedgerPath?.trim()) {
+      await this.appendLedgerEntry(settings.usageLedgerPath, {
+        timestamp: new Date().toISOString(),
+        ...(record.file && { chat: record.file.path }),
+        provider: record.provider,
+        model: record.model,
+        tokens_in: record.usage.inputTokens,
+        tokens_out: record.usage.outputTokens,
+        ...(record.cost !== undefined && { cost_usd: record.cost }),
+      });
+    }
+  }
+
+  /**
+   * Get the spending against the budgets that apply to a chat
+   *
+   * - Chat: cost_usd against budget_usd in the frontmatter
+   * - Daily: ledger costs since midnight against the Daily Budget setting
+   * - Provider: ledger costs of each provider since the first of the month against the Provider Budgets setting
+   *
+   * Budgets that are not configured are left out. Daily and provider budgets are unavailable without a usage ledger.
+   * @param frontmatter - Chat frontmatter, empty for requests outside a chat (tool support probes)
+   * @param providers - AI services the request goes to, the chat's AI service by default
+   */
+  async getBudgetStatuses(
+    frontmatter: Partial<Pick<MergedFrontmatterConfig, "aiService" | "budget_usd" | "cost_usd">>,
+    settings: ChatGPT_MDSettings,
+    now = new Date(),
+    providers: string[] = frontmatter.aiService ? [frontmatter.aiService] : []
+  ): Promise<BudgetStatus[]> {
+    const parsedThreshold = Number(settings.budgetWarningThreshold);
+    const threshold = Number.isFinite(parsedThreshold) ? parsedThreshold : DEFAULT_BUDGET_WARNING_THRESHOLD;
+    const statuses: BudgetStatus[] = [];
+    const addStatus = (name: string, spent: number, limit: number) =>
+      statuses.push({ name, spent, limit, state: getBudgetState(spent, limit, threshold) });
+
+    const chatBudget = parseBudget(frontmatter.budget_usd);
+    if (chatBudget !== undefined) {
+      addStatus("Chat budget", Number(frontmatter.cost_usd) || 0, chatBudget);
+    }
+
+    const dailyBudget = parseBudget(settings.dailyBudget);
+    const providerBudgets = parseProviderBudgets(settings.providerBudgets);
+    const budgetedProviders = [...new Set(providers)].filter(
+      (provider) => !!provider && providerBudgets[provider.toLowerCase()] !== undefined
+    );
+    if (dailyBudget === undefined && budgetedProviders.length === 0) {
+      return statuses;
+    }
+
+    // Without a ledger there is no spending to check against, rather than no spending
+    const ledgerEnabled = !!settings.usageLedgerPath?.trim();
+    const entries = ledgerEnabled ? await this.readLedger(settings) : [];
+    const addLedgerStatus = (name: string, spent: number, limit: number) =>
+      ledgerEnabled ? addStatus(name, spent, limit) : statuses.push({ name, spent: 0, limit, state: "unavailable" });
+
+    if (dailyBudget !== undefined) {
+      const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      addLedgerStatus("Daily budget", sumLedgerCost(entries, startOfDay), dailyBudget);
+    }
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    for (const provider of budgetedProviders) {
+      addLedgerStatus(
+        `${provider} monthly budget`,
+        sumLedgerCost(entries, startOfMonth, provider),
+        providerBudgets[provider.toLowerCase()]
+      );
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Read all entries of the usage ledger
+   * Returns an empty list if the ledger is disabled, missing or unreadable
+   */
+  async readLedger(settings: ChatGPT_MDSettings): Promise<UsageLedgerEntry[]> {
+    if (!settings.usageLedgerPath?.trim()) {
+      return [];
+    }
+
+    try {
+      return await this.loadLedger(normalizePath(settings.usageLedgerPath));
+    } catch (error) {
+      console.error("[ChatGPT MD] Error reading usage ledger:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Append an entry to the usage ledger, creating the file and its folder if needed
+   * A ledger that cannot be parsed is left untouched
+   */
+  private appendLedgerEntry(ledgerPath: string, entry: UsageLedgerEntry): Promise<void> {
+    const path = normalizePath(ledgerPath);
+
+    this.ledgerQueue = this.ledgerQueue.then(async () => {
+      try {
+        const entries = await this.loadLedger(path);
+        entries.push(entry);
+
+        const folder = path.substring(0, path.lastIndexOf("/"));
+        if (folder && !(await this.app.vault.adapter.exists(folder))) {
+          await this.app.vault.adapter.mkdir(folder);
+        }
+        await this.app.vault.adapter.write(path, JSON.stringify(entries, null, 2));
+      } catch (error) {
+        console.error("[ChatGPT MD] Error writing usage ledger:", error);
+      }
+    });
+
+    return this.ledgerQueue;
+  }
+
+  /**
+   * Load the ledger entries from a JSON file
+   * @throws If the file exists but does not contain a JSON list
+   */
+  private async loadLedger(path: string): Promise<UsageLedgerEntry[]> {
+    if (!(await this.app.vault.adapter.exists(path))) {
+      return [];
+    }
+
+    const entries = JSON.parse(await this.app.vault.adapter.read(path));
+    if (!Array.isArray(entries)) {
+      throw new Error(`Usage ledger ${path} is not a JSON list`);
+    }
+    return entries;
+  }
+}
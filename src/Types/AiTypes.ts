@@ -1,4 +1,6 @@
 import { Message } from "src/Models/Message";
+import { TokenUsage } from "src/Models/Usage";
+import { ResponseFormat } from "src/Models/StructuredOutput";
 import { Editor, MarkdownView } from "obsidian";
 import { ToolService } from "src/Services/ToolService";
 import { ChatGPT_MDSettings } from "src/Models/Config";
@@ -27,13 +29,24 @@ export interface ProviderFactoryConfig {
   baseURL: string;
   fetch?: typeof fetch;
   name: string; // Required for OpenAICompatible providers
+  headers?: Record<string, string>;
+  queryParams?: Record<string, string>;
 }
 
 /**
  * Provider factory function type
- * Note: This is a loose type to accommodate different provider factory signatures
  */
-export type ProviderFactory = (config: ProviderFactoryConfig | unknown) => AiProviderInstance;
+export type ProviderFactory = (config: ProviderFactoryConfig) => AiProviderInstance;
+
+/**
+ * Result of a title inference
+ * @property title - The title written to the note, empty if none was inferred
+ * @property usage - Token usage of the title request, for usage tracking
+ */
+export interface TitleInference {
+  title: string;
+  usage?: TokenUsage;
+}
 
 /**
  * Interface defining the contract for AI service implementations
@@ -41,10 +54,11 @@ export type ProviderFactory = (config: ProviderFactoryConfig | unknown) => AiPro
 export interface IAiApiService {
   /**
    * Call the AI API with the given parameters
+   * @param options - Frontmatter and request options; response_format must already be resolved
    */
   callAiAPI(
     messages: Message[],
-    options: Record<string, unknown>,
+    options: Record<string, unknown> & { response_format?: ResponseFormat },
     headingPrefix: string,
     url: string,
     editor?: Editor,
@@ -52,11 +66,7 @@ export interface IAiApiService {
     apiKey?: string,
     settings?: ChatGPT_MDSettings,
     toolService?: ToolService
-  ): Promise<{
-    fullString: string;
-    mode: string;
-    wasAborted?: boolean;
-  }>;
+  ): Promise<AiApiResponse>;
 
   /**
    * Infer a title from messages
@@ -66,7 +76,7 @@ export interface IAiApiService {
     settings: ChatGPT_MDSettings,
     messages: string[],
     editorService: EditorService
-  ): Promise<string>;
+  ): Promise<TitleInference>;
 
   /**
    * Fetch available models for this service
@@ -102,9 +112,38 @@ export interface OllamaModel {
 
 /**
  * Type for streaming API response
+ * A failed stream writes its error message to the editor and returns the error
  */
 export type StreamingResponse = {
   fullString: string;
   mode: "streaming";
   wasAborted?: boolean;
+  usage?: TokenUsage;
+  error?: unknown;
 };
+
+/**
+ * A model that failed before a fallback model answered
+ */
+export interface FallbackFailure {
+  model: string;
+  /** Short reason (e.g., "rate limited (429)") */
+  reason: string;
+}
+
+/**
+ * Response of an AI API call
+ *
+ * @property fallback - The fallback model that answered and the models that failed before it, if the chat model failed
+ */
+export interface AiApiResponse {
+  fullString: string;
+  mode: string;
+  wasAborted?: boolean;
+  usage?: TokenUsage;
+  error?: unknown;
+  fallback?: {
+    model: string;
+    failures: FallbackFailure[];
+  };
+}
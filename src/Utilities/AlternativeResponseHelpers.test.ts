@@ -0,0 +1,89 @@
+import {
+  AssistantSection,
+  formatAlternativesCallout,
+  formatAssistantSection,
+  parseAlternativesCallout,
+  parseAssistantSection,
+  promoteAlternative,
+  removeAlternativesCallout,
+} from "./AlternativeResponseHelpers";
+
+const header = '\n\n### role::assistant<span style="font-size: small;"> (gpt-4o)</span>\n';
+
+describe("alternatives callout", () => {
+  const alternatives = [{ model: "claude-sonnet-4", content: "First line\n\n> quoted" }, { content: "Second" }];
+
+  it("round-trips alternatives", () => {
+    expect(parseAlternativesCallout(formatAlternativesCallout(alternatives))).toEqual([
+      { model: "claude-sonnet-4", content: "First line\n\n> quoted" },
+      { model: undefined, content: "Second" },
+    ]);
+  });
+
+  it("renders a collapsed callout with nested callouts", () => {
+    const callout = formatAlternativesCallout(alternatives);
+    expect(callout.split("\n")[0]).toBe("> [!alternatives]- 2 alternative responses");
+    expect(callout).toContain("> > [!alternative]- claude-sonnet-4");
+    expect(callout).toContain(">\n> > [!alternative]- Response");
+  });
+
+  it("is removed from message content", () => {
+    const message = `Answer\n\n${formatAlternativesCallout(alternatives)}\n\nAfter`;
+    expect(removeAlternativesCallout(message)).toBe("Answer\n\n\n\nAfter");
+  });
+});
+
+describe("parseAssistantSection", () => {
+  it("splits header, model, content and alternatives", () => {
+    const callout = formatAlternativesCallout([{ model: "gpt-4o-mini", content: "Old" }]);
+    const section = parseAssistantSection(`${header}\nNew answer\n\n${callout}\n\n`);
+
+    expect(section.header).toBe(header);
+    expect(section.model).toBe("gpt-4o");
+    expect(section.content).toBe("New answer");
+    expect(section.alternatives).toEqual([{ model: "gpt-4o-mini", content: "Old" }]);
+  });
+
+  it("handles responses without alternatives", () => {
+    const section = parseAssistantSection(`${header}\nOnly answer\n\n`);
+    expect(section.content).toBe("Only answer");
+    expect(section.alternatives).toEqual([]);
+  });
+});
+
+describe("promoteAlternative", () => {
+  const section: AssistantSection = {
+    header,
+    model: "a",
+    content: "A",
+    alternatives: [
+      { model: "b", content: "B" },
+      { model: "c", content: "C" },
+    ],
+  };
+
+  it("makes the alternative canonical and keeps the current response", () => {
+    const promoted = promoteAlternative(section, 1);
+    expect(promoted.content).toBe("C");
+    expect(promoted.model).toBe("c");
+    expect(promoted.alternatives.map((alternative) => alternative.content)).toEqual(["B", "A"]);
+  });
+
+  it("cycles through all versions when promoting the first alternative", () => {
+    let current = section;
+    const seen = [];
+    for (let i = 0; i < 3; i++) {
+      current = promoteAlternative(current, 0);
+      seen.push(current.content);
+    }
+    expect(seen).toEqual(["B", "C", "A"]);
+  });
+
+  it("updates the model in the header when formatted", () => {
+    const formatted = formatAssistantSection(promoteAlternative(section, 0));
+    expect(formatted).toContain(
+      'role::assistant<span style="font-size: small;"> (b)</span>\n\nB\n\n> [!alternatives]-'
+    );
+    expect(parseAssistantSection(formatted).alternatives).toHaveLength(2);
+  });
+});
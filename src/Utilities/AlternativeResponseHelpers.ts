@@ -0,0 +1,128 @@
+import { ALTERNATIVE_CALLOUT_TYPE, ALTERNATIVES_CALLOUT_TYPE, ROLE_IDENTIFIER } from "src/Constants";
+import { escapeRegExp, getModelLabel } from "./TextHelpers";
+
+/**
+ * Utility functions for alternative assistant responses
+ * Previous versions of a regenerated response are kept in a collapsed callout at the end of the message:
+ *
+ * > [!alternatives]- 2 alternative responses
+ * > > [!alternative]- gpt-4o
+ * > > First version
+ * >
+ * > > [!alternative]- claude-sonnet-4
+ * > > Second version
+ */
+
+/**
+ * An alternative version of an assistant response
+ */
+export interface AlternativeResponse {
+  model?: string;
+  content: string;
+}
+
+/**
+ * An assistant message section split into its parts
+ */
+export interface AssistantSection {
+  /** Text up to and including the role header line */
+  header: string;
+  model?: string;
+  content: string;
+  alternatives: AlternativeResponse[];
+}
+
+const ALTERNATIVES_CALLOUT_START = new RegExp(`^> \\[!${ALTERNATIVES_CALLOUT_TYPE}\\]`, "m");
+const ALTERNATIVES_CALLOUT = new RegExp(`^> \\[!${ALTERNATIVES_CALLOUT_TYPE}\\][^\\n]*(?:\\n>[^\\n]*)*`, "gm");
+const ALTERNATIVE_TITLE = new RegExp(`^>\\s?\\[!${ALTERNATIVE_CALLOUT_TYPE}\\]-?\\s*(.*)$`);
+const MODEL_LABEL = new RegExp(escapeRegExp(getModelLabel("MODEL")).replace("MODEL", "(.*?)"));
+const UNKNOWN_MODEL_TITLE = "Response";
+
+/**
+ * Remove the alternatives callout so alternative responses are not sent to the model
+ */
+export function removeAlternativesCallout(message: string): string {
+  return message.replace(ALTERNATIVES_CALLOUT, "");
+}
+
+/**
+ * Split a raw assistant message section into header, content and alternatives
+ */
+export function parseAssistantSection(section: string): AssistantSection {
+  const headerMatch = section.match(new RegExp(`^\\s*#*\\s*${ROLE_IDENTIFIER}[^\\n]*\\n?`));
+  const header = headerMatch ? headerMatch[0] : "";
+  const body = section.substring(header.length);
+  const modelMatch = header.match(MODEL_LABEL);
+
+  const calloutStart = body.search(ALTERNATIVES_CALLOUT_START);
+  return {
+    header,
+    model: modelMatch ? modelMatch[1] : undefined,
+    content: (calloutStart === -1 ? body : body.substring(0, calloutStart)).trim(),
+    alternatives: calloutStart === -1 ? [] : parseAlternativesCallout(body.substring(calloutStart)),
+  };
+}
+
+/**
+ * Render an assistant section back into note text
+ */
+export function formatAssistantSection(section: AssistantSection): string {
+  const header = section.header.replace(MODEL_LABEL, "").replace(/\n?$/, `${getModelLabel(section.model)}\n`);
+  const callout = section.alternatives.length > 0 ? `\n\n${formatAlternativesCallout(section.alternatives)}` : "";
+  return `${header}\n${section.content}${callout}\n\n`;
+}
+
+/**
+ * Make an alternative the canonical response
+ * The current response becomes the last alternative, so promoting index 0 repeatedly cycles through all versions
+ */
+export function promoteAlternative(section: AssistantSection, index: number): AssistantSection {
+  const promoted = section.alternatives[index];
+  return {
+    header: section.header,
+    model: promoted.model,
+    content: promoted.content,
+    alternatives: [
+      ...section.alternatives.slice(index + 1),
+      ...section.alternatives.slice(0, index),
+      { model: section.model, content: section.content },
+    ],
+  };
+}
+
+/**
+ * Render alternatives as a collapsed callout with one nested callout per response
+ */
+export function formatAlternativesCallout(alternatives: AlternativeResponse[]): string {
+  const blocks = alternatives.map((alternative) =>
+    [
+      `> > [!${ALTERNATIVE_CALLOUT_TYPE}]- ${alternative.model || UNKNOWN_MODEL_TITLE}`,
+      ...alternative.content.split("\n").map((line) => `> > ${line}`.trimEnd()),
+    ].join("\n")
+  );
+  const title = alternatives.length === 1 ? "1 alternative response" : `${alternatives.length} alternative responses`;
+  return [`> [!${ALTERNATIVES_CALLOUT_TYPE}]- ${title}`, blocks.join("\n>\n")].join("\n");
+}
+
+/**
+ * Parse the alternatives callout written by formatAlternativesCallout
+ */
+export function parseAlternativesCallout(callout: string): AlternativeResponse[] {
+  const alternatives: { model?: string; lines: string[] }[] = [];
+
+  for (const line of callout.split("\n").slice(1)) {
+    if (!line.startsWith(">")) break;
+
+    // Strip the outer callout level
+    const inner = line.replace(/^>\s?/, "");
+    const title = inner.match(ALTERNATIVE_TITLE);
+    if (title) {
+      const model = title[1].trim();
+      alternatives.push({ model: model && model !== UNKNOWN_MODEL_TITLE ? model : undefined, lines: [] });
+    } else if (alternatives.length > 0 && inner.startsWith(">")) {
+      alternatives[alternatives.length - 1].lines.push(inner.replace(/^>\s?/, ""));
+    }
+  }
+
+  return alternatives.map(({ model, lines }) => ({ model, content: lines.join("\n").trim() }));
+}
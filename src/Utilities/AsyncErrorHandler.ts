@@ -92,15 +92,18 @@ export function executeAsyncWithTimeout<T>(
  * Execute async function with retry logic
  * @param asyncFn - The async function to execute
  * @param maxRetries - Maximum number of retries (default: 3)
- * @param delayMs - Delay between retries in milliseconds (default: 1000)
+ * @param delayMs - Delay between retries in milliseconds, or a function returning the delay for an error and attempt
+ *   (undefined stops retrying and throws the error) (default: 1000)
  * @param errorHandler - Function to handle errors (optional)
+ * @param wait - Function waiting before the next attempt, rejecting cancels the retries (optional)
  * @returns Promise that resolves to the result or throws after all retries fail
  */
 export async function executeAsyncWithRetry<T>(
   asyncFn: AsyncFunction<T>,
   maxRetries: number = 3,
-  delayMs: number = 1000,
-  errorHandler?: (error: any, attempt: number) => void
+  delayMs: number | ((error: any, attempt: number) => number | undefined) = 1000,
+  errorHandler?: (error: any, attempt: number) => void,
+  wait: (ms: number, attempt: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
 ): Promise<T> {
   let lastError: any;
 
@@ -115,7 +118,11 @@ export async function executeAsyncWithRetry<T>(
 
       // Don't delay after the last failed attempt
       if (attempt < maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        const delay = typeof delayMs === "function" ? delayMs(error, attempt) : delayMs;
+        if (delay === undefined) {
+          break;
+        }
+        await wait(delay, attempt);
       }
     }
   }
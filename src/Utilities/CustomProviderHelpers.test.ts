@@ -0,0 +1,93 @@
+import { CustomProviderConfig } from "src/Models/Config";
+import {
+  getCustomProviders,
+  isValidCustomProviderName,
+  parseHeaderLines,
+  parseModelListResponse,
+} from "./CustomProviderHelpers";
+
+const provider = (overrides: Partial<CustomProviderConfig>): CustomProviderConfig => ({
+  name: "groq",
+  url: "https://api.groq.com/openai",
+  pathSuffix: "/v1",
+  apiKey: "",
+  headers: "",
+  modelsEndpoint: "/v1/models",
+  ...overrides,
+});
+
+describe("isValidCustomProviderName", () => {
+  it("accepts lowercase names with digits, dashes and underscores", () => {
+    expect(isValidCustomProviderName("groq")).toBe(true);
+    expect(isValidCustomProviderName("vllm-gateway_2")).toBe(true);
+  });
+
+  it("rejects names that cannot be used as model prefix", () => {
+    expect(isValidCustomProviderName("")).toBe(false);
+    expect(isValidCustomProviderName("My Provider")).toBe(false);
+    expect(isValidCustomProviderName("a@b")).toBe(false);
+  });
+
+  it("rejects names of built-in providers", () => {
+    expect(isValidCustomProviderName("openai")).toBe(false);
+    expect(isValidCustomProviderName("local")).toBe(false);
+  });
+});
+
+describe("getCustomProviders", () => {
+  it("trims names and trailing slashes of URLs", () => {
+    expect(getCustomProviders({ customProviders: [provider({ name: " groq ", url: "https://x.io/api/" })] })).toEqual([
+      provider({ url: "https://x.io/api" }),
+    ]);
+  });
+
+  it("skips providers without a valid name or URL and duplicate names", () => {
+    const providers = getCustomProviders({
+      customProviders: [
+        provider({ name: "Groq" }),
+        provider({ name: "deepseek", url: "" }),
+        provider({ name: "mistral", url: "https://api.mistral.ai" }),
+        provider({ name: "mistral", url: "https://example.com" }),
+      ],
+    });
+    expect(providers.map((item) => item.url)).toEqual(["https://api.mistral.ai"]);
+  });
+
+  it("returns an empty list without custom providers", () => {
+    expect(getCustomProviders({})).toEqual([]);
+  });
+});
+
+describe("parseHeaderLines", () => {
+  it("parses one header per line", () => {
+    expect(parseHeaderLines("X-Org: research\nX-Trace:  on ")).toEqual({ "X-Org": "research", "X-Trace": "on" });
+  });
+
+  it("keeps colons in values", () => {
+    expect(parseHeaderLines("X-Upstream: http://gateway:8000")).toEqual({ "X-Upstream": "http://gateway:8000" });
+  });
+
+  it("ignores empty lines, comments and lines without a name", () => {
+    expect(parseHeaderLines("\n# comment\n: value\nnot a header")).toEqual({});
+    expect(parseHeaderLines(undefined)).toEqual({});
+  });
+});
+
+describe("parseModelListResponse", () => {
+  it("reads the OpenAI format", () => {
+    expect(parseModelListResponse({ data: [{ id: "llama-3.3-70b" }, { id: "mixtral-8x7b" }] })).toEqual([
+      "llama-3.3-70b",
+      "mixtral-8x7b",
+    ]);
+  });
+
+  it("reads model lists and plain arrays", () => {
+    expect(parseModelListResponse({ models: [{ name: "deepseek-chat" }] })).toEqual(["deepseek-chat"]);
+    expect(parseModelListResponse(["a", { id: "b" }, {}])).toEqual(["a", "b"]);
+  });
+
+  it("returns an empty list for other responses", () => {
+    expect(parseModelListResponse({ error: "unauthorized" })).toEqual([]);
+    expect(parseModelListResponse(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { AI_SERVICES, RESERVED_PROVIDER_NAMES } from "src/Constants";
+import { CustomProviderConfig } from "src/Models/Config";
+
+/**
+ * Utility functions for user-defined OpenAI-compatible providers
+ */
+
+const PROVIDER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Check whether a name can be used for a custom provider
+ * Names are used as model prefix, so they must not contain "@" and must not shadow a built-in provider
+ */
+export function isValidCustomProviderName(name: string): boolean {
+  return (
+    PROVIDER_NAME_PATTERN.test(name) &&
+    !(AI_SERVICES as readonly string[]).includes(name) &&
+    !RESERVED_PROVIDER_NAMES.includes(name)
+  );
+}
+
+/**
+ * Get the usable custom providers from settings
+ * Providers without a valid name or URL are skipped, as are later providers reusing a name
+ */
+export function getCustomProviders(settings: { customProviders?: CustomProviderConfig[] }): CustomProviderConfig[] {
+  const providers: CustomProviderConfig[] = [];
+
+  for (const provider of settings.customProviders ?? []) {
+    const name = provider.name?.trim() ?? "";
+    const url = provider.url?.trim().replace(/\/+$/, "") ?? "";
+    if (!isValidCustomProviderName(name) || !url || providers.some((existing) => existing.name === name)) {
+      continue;
+    }
+    providers.push({ ...provider, name, url });
+  }
+
+  return providers;
+}
+
+/**
+ * Get the names of the usable custom providers, which are their model prefixes
+ */
+export function getCustomProviderNames(settings: { customProviders?: CustomProviderConfig[] }): string[] {
+  return getCustomProviders(settings).map((provider) => provider.name);
+}
+
+/**
+ * Parse extra request headers, one "Name: value" entry per line
+ * Empty lines, lines starting with # and lines without a name are ignored
+ */
+export function parseHeaderLines(text: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const line of (text ?? "").split("\n")) {
+    const trimmed = line.trim();
+    const separator = trimmed.indexOf(":");
+    if (!trimmed || trimmed.startsWith("#") || separator <= 0) continue;
+
+    headers[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+  }
+
+  return headers;
+}
+
+/**
+ * Read model IDs from a model list response
+ * Accepts the OpenAI format ({ data: [{ id }] }), { models: [...] } and plain arrays of objects or strings
+ */
+export function parseModelListResponse(response: any): string[] {
+  const items = Array.isArray(response) ? response : (response?.data ?? response?.models);
+  if (!Array.isArray(items)) return [];
+
+  return items
+    .map((item) => (typeof item === "string" ? item : (item?.id ?? item?.name)))
+    .filter((id): id is string => typeof id === "string" && id.length > 0);
+}
@@ -34,6 +34,26 @@ export const ErrorMessages = {
     INVALID_FORMAT: (field: string, format: string) => `Invalid ${field} format. Expected: ${format}`,
     EMPTY_CONTENT: "Content cannot be empty",
   },
+  MEDIA: {
+    IMAGES_NOT_SUPPORTED: (model: string) =>
+      `Model ${model} does not accept images. Remove the image embeds or switch to a vision model.`,
+    IMAGE_SIZE_LIMIT: (sizeMb: string, limitMb: number) =>
+      `Embedded images total ${sizeMb} MB, above the ${limitMb} MB limit for this chat. Remove some images or raise max_image_size_mb in the frontmatter.`,
+  },
+  CONTEXT: {
+    TOO_LONG: (model: string, estimatedTokens: number, availableTokens: number) =>
+      `This chat needs about ${estimatedTokens} tokens, but ${model} has room for ${availableTokens} (context length minus max_tokens). Shorten the chat or set context_strategy to truncate or summarize.`,
+  },
+  STRUCTURED_OUTPUT: {
+    INVALID_SCHEMA: (reason: string) =>
+      `Invalid response_format: ${reason}. Use json, an inline JSON Schema or a link to a note containing one.`,
+    SCHEMA_NOT_FOUND: (link: string) => `Schema note not found for response_format: ${link}`,
+    INVALID_JSON: "(root): Response is not valid JSON",
+  },
+  BUDGET: {
+    EXCEEDED: (budgets: string) =>
+      `Request blocked, spending budget reached (${budgets}). Raise the budget in settings or budget_usd in the frontmatter, or run the chat again and confirm the override.`,
+  },
   SETTINGS: {
     MISSING_API_KEY: (service: string) => `Missing API key for ${service}. Please add it in settings.`,
     INVALID_FOLDER: (folder: string) => `Invalid folder path: ${folder}`,
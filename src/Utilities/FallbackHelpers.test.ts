@@ -0,0 +1,53 @@
+import { formatFallbackLabel, getFallbackReason, parseModelList } from "./FallbackHelpers";
+
+describe("parseModelList", () => {
+  it("accepts YAML lists and comma- or newline-separated text", () => {
+    expect(parseModelList(["openai@gpt-4o", " ollama@llama3 "])).toEqual(["openai@gpt-4o", "ollama@llama3"]);
+    expect(parseModelList("openai@gpt-4o, anthropic@claude-sonnet-4\nollama@llama3")).toEqual([
+      "openai@gpt-4o",
+      "anthropic@claude-sonnet-4",
+      "ollama@llama3",
+    ]);
+  });
+
+  it("returns an empty list for missing values", () => {
+    expect(parseModelList(undefined)).toEqual([]);
+    expect(parseModelList("")).toEqual([]);
+  });
+});
+
+describe("getFallbackReason", () => {
+  it("falls back on rate limits and server errors", () => {
+    expect(getFallbackReason({ statusCode: 429, message: "Too Many Requests" })).toBe("rate limited (429)");
+    expect(getFallbackReason({ status: 503, message: "Service Unavailable" })).toBe("server error (503)");
+  });
+
+  it("falls back on network errors", () => {
+    expect(getFallbackReason(new TypeError("Failed to fetch"))).toBe("network error");
+    expect(getFallbackReason(new Error("connect ECONNREFUSED 127.0.0.1:11434"))).toBe("network error");
+  });
+
+  it("falls back when the context length is exceeded", () => {
+    const error = { statusCode: 400, message: "This model's maximum context length is 8192 tokens" };
+    expect(getFallbackReason(error)).toBe("context length exceeded");
+  });
+
+  it("unwraps retry errors", () => {
+    const error = { name: "AI_RetryError", message: "Failed after 3 attempts", lastError: { statusCode: 502 } };
+    expect(getFallbackReason(error)).toBe("server error (502)");
+  });
+
+  it("does not fall back on other errors", () => {
+    expect(getFallbackReason({ statusCode: 401, message: "Invalid API key" })).toBeUndefined();
+    expect(getFallbackReason({ name: "AbortError", message: "The operation was aborted" })).toBeUndefined();
+    expect(getFallbackReason(new Error("Unexpected token"))).toBeUndefined();
+  });
+});
+
+describe("formatFallbackLabel", () => {
+  it("names the model that answered and the failed models", () => {
+    expect(formatFallbackLabel("ollama@llama3", [{ model: "openai@gpt-4o", reason: "rate limited (429)" }])).toBe(
+      '<span class="chatgpt-md-fallback" style="font-size: small;"> · answered by ollama@llama3 (openai@gpt-4o rate limited (429))</span>'
+    );
+  });
+});
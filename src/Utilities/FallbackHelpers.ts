@@ -0,0 +1,61 @@
+import { ERROR_NO_CONNECTION } from "src/Constants";
+
+/**
+ * Utility functions for fallback model chains
+ */
+
+const CONTEXT_LENGTH_ERROR_PATTERN =
+  /context[ _](length|window)|maximum context|too many tokens|prompt is too long|input is too long|reduce the length/i;
+const NETWORK_ERROR_PATTERN = /fetch failed|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|socket hang up/i;
+
+export const CONTEXT_LENGTH_EXCEEDED = "context length exceeded";
+
+/**
+ * Parse a list of model IDs from frontmatter (YAML list or comma-separated) or settings (comma- or newline-separated)
+ */
+export function parseModelList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,\n]/) : [];
+  return items
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Get the error that caused a failure, unwrapping AI SDK retry errors
+ */
+export function getRootError(err: any): any {
+  let root = err;
+  while (root?.name === "AI_RetryError" && (root.lastError || root.cause)) {
+    root = root.lastError ?? root.cause;
+  }
+  return root;
+}
+
+/**
+ * Get the reason to fall back to the next model, for failures another model may not have:
+ * network errors, rate limits (429), server errors (5xx) and exceeded context length
+ * @returns A short reason for logs and labels, or undefined if the error is not retryable (e.g., invalid API key)
+ */
+export function getFallbackReason(err: unknown): string | undefined {
+  const root = getRootError(err);
+  if (!root || root.name === "AbortError") return undefined;
+
+  const message = String(root.message ?? root);
+  const status = Number(root.statusCode ?? root.status ?? root.error?.status);
+
+  if (CONTEXT_LENGTH_ERROR_PATTERN.test(message)) return CONTEXT_LENGTH_EXCEEDED;
+  if (status === 429) return "rate limited (429)";
+  if (status >= 500 && status < 600) return `server error (${status})`;
+  if (status) return undefined;
+  if (message.includes(ERROR_NO_CONNECTION) || NETWORK_ERROR_PATTERN.test(message)) return "network error";
+  return undefined;
+}
+
+/**
+ * Label appended to the assistant header when a fallback model answered
+ */
+export function formatFallbackLabel(model: string, failures: { model: string; reason: string }[]): string {
+  const failed = failures.map((failure) => `${failure.model} ${failure.reason}`).join(", ");
+  return `<span class="chatgpt-md-fallback" style="font-size: small;"> · answered by ${model} (${failed})</span>`;
+}
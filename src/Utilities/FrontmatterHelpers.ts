@@ -1,6 +1,7 @@
 import { ChatGPT_MDSettings } from "src/Models/Config";
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
@@ -10,6 +11,7 @@ import {
 } from "src/Constants";
 import {
   DEFAULT_ANTHROPIC_CONFIG,
+  DEFAULT_AZURE_CONFIG,
   DEFAULT_GEMINI_CONFIG,
   DEFAULT_LMSTUDIO_CONFIG,
   DEFAULT_OLLAMA_CONFIG,
@@ -17,6 +19,7 @@ import {
   DEFAULT_OPENROUTER_CONFIG,
   DEFAULT_ZAI_CONFIG,
 } from "src/Services/DefaultConfigs";
+import { getCustomProviders } from "./CustomProviderHelpers";
 
 // ModelFilteringHelper exports are available for use elsewhere
 
@@ -32,6 +35,7 @@ export function getDefaultConfigForService(serviceType: string): Record<string,
     [AI_SERVICE_ANTHROPIC]: DEFAULT_ANTHROPIC_CONFIG,
     [AI_SERVICE_GEMINI]: DEFAULT_GEMINI_CONFIG,
     [AI_SERVICE_ZAI]: DEFAULT_ZAI_CONFIG,
+    [AI_SERVICE_AZURE]: DEFAULT_AZURE_CONFIG,
   };
   return defaults[serviceType] || DEFAULT_OPENAI_CONFIG;
 }
@@ -46,7 +50,7 @@ export function getDefaultModelForService(aiService: string): string {
 
 /**
  * Get all API URLs for all services from frontmatter or settings
- * Returns a map of service type to URL
+ * Returns a map of service type to URL, including custom providers when the merged settings are passed
  */
 export function getApiUrlsFromFrontmatter(frontmatter: any): Record<string, string> {
   const configs: Record<string, { url: string }> = {
@@ -57,6 +61,7 @@ export function getApiUrlsFromFrontmatter(frontmatter: any): Record<string, stri
     [AI_SERVICE_ANTHROPIC]: DEFAULT_ANTHROPIC_CONFIG,
     [AI_SERVICE_GEMINI]: DEFAULT_GEMINI_CONFIG,
     [AI_SERVICE_ZAI]: DEFAULT_ZAI_CONFIG,
+    [AI_SERVICE_AZURE]: DEFAULT_AZURE_CONFIG,
   };
 
   const providers = [
@@ -67,11 +72,16 @@ export function getApiUrlsFromFrontmatter(frontmatter: any): Record<string, stri
     AI_SERVICE_ANTHROPIC,
     AI_SERVICE_GEMINI,
     AI_SERVICE_ZAI,
+    AI_SERVICE_AZURE,
   ];
 
-  return Object.fromEntries(
-    providers.map((provider) => [provider, frontmatter[`${provider}Url`] || configs[provider].url])
-  );
+  return Object.fromEntries([
+    ...providers.map((provider) => [provider, frontmatter[`${provider}Url`] || configs[provider].url]),
+    ...getCustomProviders(frontmatter).map((provider) => [
+      provider.name,
+      frontmatter[`${provider.name}Url`] || provider.url,
+    ]),
+  ]);
 }
 
 /**
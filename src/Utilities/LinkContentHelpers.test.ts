@@ -0,0 +1,135 @@
+import {
+  csvToMarkdownTable,
+  flattenCanvas,
+  parseCsv,
+  parsePageRange,
+  removeBlockIds,
+  selectLinkContentToDrop,
+} from "./LinkContentHelpers";
+
+describe("removeBlockIds", () => {
+  it("removes block markers at the end of lines", () => {
+    expect(removeBlockIds("First paragraph ^abc-123\n- item ^item1")).toBe("First paragraph\n- item");
+  });
+
+  it("keeps carets inside text", () => {
+    expect(removeBlockIds("2^10 is 1024")).toBe("2^10 is 1024");
+  });
+});
+
+describe("parsePageRange", () => {
+  it("returns all pages without a page subpath", () => {
+    expect(parsePageRange("", 3)).toEqual([1, 2, 3]);
+  });
+
+  it("parses a single page", () => {
+    expect(parsePageRange("page=3", 10)).toEqual([3]);
+  });
+
+  it("parses ranges and lists", () => {
+    expect(parsePageRange("page=1,3-4", 10)).toEqual([1, 3, 4]);
+  });
+
+  it("clamps pages to the document length", () => {
+    expect(parsePageRange("page=4-8", 5)).toEqual([4, 5]);
+  });
+
+  it("falls back to all pages when the range is out of bounds", () => {
+    expect(parsePageRange("page=9", 2)).toEqual([1, 2]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("a,b\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("handles quoted cells with delimiters, quotes and newlines", () => {
+    expect(parseCsv('name,note\r\n"Doe, Jane","said ""hi""\nthen left"')).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it("supports other delimiters", () => {
+    expect(parseCsv("a\tb\n1\t2", "\t")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("csvToMarkdownTable", () => {
+  it("renders a markdown table with the first row as header", () => {
+    expect(csvToMarkdownTable("a,b\n1,2", 10)).toBe("| a | b |\n| --- | --- |\n| 1 | 2 |");
+  });
+
+  it("escapes pipes and pads short rows", () => {
+    expect(csvToMarkdownTable("a,b\nx|y", 10)).toBe("| a | b |\n| --- | --- |\n| x\\|y |  |");
+  });
+
+  it("limits rows and reports omitted rows", () => {
+    const result = csvToMarkdownTable("n\n1\n2\n3", 2);
+    expect(result).toContain("| 2 |");
+    expect(result).not.toContain("| 3 |");
+    expect(result).toContain("1 more rows omitted (showing 2 of 3)");
+  });
+
+  it("returns empty string for empty input", () => {
+    expect(csvToMarkdownTable("", 10)).toBe("");
+  });
+});
+
+describe("flattenCanvas", () => {
+  const canvas = JSON.stringify({
+    nodes: [
+      { id: "a", type: "text", text: "Idea\nDetails" },
+      { id: "b", type: "file", file: "Notes/Plan.md" },
+      { id: "c", type: "text", text: "Outcome" },
+    ],
+    edges: [
+      { id: "e1", fromNode: "a", toNode: "b", label: "see" },
+      { id: "e2", fromNode: "b", toNode: "c" },
+    ],
+  });
+
+  it("includes text nodes and file references", () => {
+    const result = flattenCanvas(canvas);
+    expect(result).toContain("Idea\nDetails");
+    expect(result).toContain("[[Notes/Plan.md]]");
+    expect(result).toContain("Outcome");
+  });
+
+  it("lists edges using node labels", () => {
+    const result = flattenCanvas(canvas);
+    expect(result).toContain('- "Idea" → [[Notes/Plan.md]] (see)');
+    expect(result).toContain('- [[Notes/Plan.md]] → "Outcome"');
+  });
+
+  it("returns empty string for invalid JSON", () => {
+    expect(flattenCanvas("not json")).toBe("");
+  });
+});
+
+describe("selectLinkContentToDrop", () => {
+  const items = [
+    { id: "old", tokens: 400, lastReference: 1 },
+    { id: "nested", tokens: 100, lastReference: 5, parentId: "old" },
+    { id: "recent", tokens: 300, lastReference: 4 },
+  ];
+
+  it("drops nothing within budget", () => {
+    expect(selectLinkContentToDrop(items, 1000).size).toBe(0);
+  });
+
+  it("drops least recently referenced content first, including nested content", () => {
+    expect(Array.from(selectLinkContentToDrop(items, 500))).toEqual(["old", "nested"]);
+  });
+
+  it("keeps dropping until the budget is met", () => {
+    expect(selectLinkContentToDrop(items, 0).size).toBe(3);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Utility functions for turning linked files into chat context
+ * These are simple, stateless functions used by the link content extractors
+ */
+
+/**
+ * Remove block reference markers (" ^block-id") from the end of lines
+ */
+export function removeBlockIds(text: string): string {
+  return text.replace(/[ \t]+\^[A-Za-z0-9-]+[ \t]*$/gm, "");
+}
+
+/**
+ * Parse a PDF link subpath into 1-based page numbers
+ * Supports "page=3", "page=3-5" and "page=1,3-4"; returns all pages when no page is given
+ */
+export function parsePageRange(subpath: string, pageCount: number): number[] {
+  const match = subpath.match(/(?:^|&)page=([\d,\s-]+)/);
+  const allPages = Array.from({ length: pageCount }, (_, index) => index + 1);
+  if (!match) return allPages;
+
+  const pages = new Set<number>();
+  for (const part of match[1].split(",")) {
+    const [startText, endText] = part.split("-").map((value) => value.trim());
+    const start = parseInt(startText, 10);
+    const end = endText ? parseInt(endText, 10) : start;
+    if (isNaN(start) || isNaN(end)) continue;
+
+    for (let page = Math.max(1, start); page <= Math.min(end, pageCount); page++) {
+      pages.add(page);
+    }
+  }
+
+  return pages.size > 0 ? Array.from(pages).sort((a, b) => a - b) : allPages;
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted fields containing delimiters, escaped quotes and line breaks
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Render CSV text as a markdown table, keeping at most maxRows data rows
+ * The first row is used as the table header
+ */
+export function csvToMarkdownTable(text: string, maxRows: number, delimiter = ","): string {
+  const rows = parseCsv(text, delimiter);
+  if (rows.length === 0) return "";
+
+  const [header, ...dataRows] = rows;
+  const columnCount = Math.max(...rows.map((cells) => cells.length));
+  const formatRow = (cells: string[]) => {
+    const padded = Array.from({ length: columnCount }, (_, index) => cells[index] ?? "");
+    return `| ${padded.map((value) => value.trim().replace(/\|/g, "\\|").replace(/\n/g, " ")).join(" | ")} |`;
+  };
+
+  const lines = [formatRow(header), `| ${Array(columnCount).fill("---").join(" | ")} |`];
+  lines.push(...dataRows.slice(0, maxRows).map(formatRow));
+
+  const omitted = dataRows.length - maxRows;
+  if (omitted > 0) {
+    lines.push("", `_${omitted} more rows omitted (showing ${maxRows} of ${dataRows.length})_`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Minimal subset of the JSON Canvas format used for flattening
+ */
+interface CanvasData {
+  nodes?: Array<{ id: string; type: string; text?: string; file?: string; url?: string; label?: string }>;
+  edges?: Array<{ fromNode: string; toNode: string; label?: string }>;
+}
+
+/**
+ * Flatten an Obsidian canvas (JSON Canvas) into its text nodes and the edges between them
+ * File, link and group nodes are listed by reference so edges to them stay readable
+ */
+export function flattenCanvas(canvasJson: string): string {
+  let canvas: CanvasData;
+  try {
+    canvas = JSON.parse(canvasJson);
+  } catch {
+    return "";
+  }
+
+  const nodes = canvas.nodes ?? [];
+  const labels = new Map<string, string>();
+  const sections: string[] = [];
+
+  for (const node of nodes) {
+    const label = getCanvasNodeLabel(node);
+    labels.set(node.id, label);
+    if (node.type === "text" && node.text?.trim()) {
+      sections.push(node.text.trim());
+    } else if (node.type !== "text") {
+      sections.push(label);
+    }
+  }
+
+  const edgeLines = (canvas.edges ?? [])
+    .filter((edge) => labels.has(edge.fromNode) && labels.has(edge.toNode))
+    .map((edge) => {
+      const edgeLabel = edge.label ? ` (${edge.label})` : "";
+      return `- ${labels.get(edge.fromNode)} → ${labels.get(edge.toNode)}${edgeLabel}`;
+    });
+
+  const parts = [];
+  if (sections.length > 0) parts.push(sections.join("\n\n---\n\n"));
+  if (edgeLines.length > 0) parts.push(`Connections:\n${edgeLines.join("\n")}`);
+  return parts.join("\n\n");
+}
+
+/**
+ * Short, single-line label for a canvas node used in edge listings
+ */
+function getCanvasNodeLabel(node: NonNullable<CanvasData["nodes"]>[number]): string {
+  switch (node.type) {
+    case "file":
+      return `[[${node.file ?? ""}]]`;
+    case "link":
+      return `<${node.url ?? ""}>`;
+    case "group":
+      return `Group: ${node.label ?? "Untitled"}`;
+    default: {
+      const firstLine = (node.text ?? "").trim().split("\n")[0];
+      return `"${firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine}"`;
+    }
+  }
+}
+
+/**
+ * Inlined link content considered for the per-request token budget
+ */
+export interface BudgetedLinkContent {
+  id: string;
+  tokens: number;
+  /** Order of the most recent reference (higher = referenced more recently) */
+  lastReference: number;
+  /** Content this one was first inlined into; dropping the parent drops it too */
+  parentId?: string;
+}
+
+/**
+ * Select linked content to drop so the total stays within the token budget
+ * Least recently referenced content is dropped first, together with content nested inside it
+ * @returns IDs of dropped content
+ */
+export function selectLinkContentToDrop(items: BudgetedLinkContent[], tokenBudget: number): Set<string> {
+  const dropped = new Set<string>();
+  let total = items.reduce((sum, item) => sum + item.tokens, 0);
+
+  const dropWithDescendants = (item: BudgetedLinkContent) => {
+    if (dropped.has(item.id)) return;
+    dropped.add(item.id);
+    total -= item.tokens;
+    items.filter((child) => child.parentId === item.id).forEach(dropWithDescendants);
+  };
+
+  const byRecency = [...items].sort((a, b) => a.lastReference - b.lastReference);
+  for (const item of byRecency) {
+    if (total <= tokenBudget) break;
+    dropWithDescendants(item);
+  }
+
+  return dropped;
+}
@@ -1,4 +1,16 @@
-import { findLinksInMessage, removeCommentBlocks, splitMessages } from "./MessageHelpers";
+import {
+  buildSummaryBlock,
+  extractConversationSummary,
+  formatArchivedMessages,
+  findImageEmbedsInMessage,
+  findLinksInMessage,
+  getImageMediaType,
+  getMessageEndOffset,
+  getMessageSectionRole,
+  removeCommentBlocks,
+  splitChatForCompaction,
+  splitMessages,
+} from "./MessageHelpers";
 
 describe("findLinksInMessage", () => {
   it("finds wiki links", () => {
@@ -79,6 +91,47 @@ describe("findLinksInMessage", () => {
     expect(result).toHaveLength(1);
     expect(result[0].title).toBe("Note");
   });
+
+  it("skips image embeds", () => {
+    const result = findLinksInMessage("![[diagram.png]] and ![chart](chart.jpg) with [[Note]]");
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toBe("Note");
+  });
+});
+
+describe("getImageMediaType", () => {
+  it("maps supported extensions case-insensitively", () => {
+    expect(getImageMediaType("a.png")).toBe("image/png");
+    expect(getImageMediaType("folder/b.JPG")).toBe("image/jpeg");
+    expect(getImageMediaType("c.webp")).toBe("image/webp");
+  });
+
+  it("returns undefined for other files", () => {
+    expect(getImageMediaType("notes.md")).toBeUndefined();
+    expect(getImageMediaType("png")).toBeUndefined();
+  });
+});
+
+describe("findImageEmbedsInMessage", () => {
+  it("finds wiki image embeds and strips size suffix", () => {
+    const result = findImageEmbedsInMessage("Look at ![[diagram.png|300]]");
+    expect(result).toEqual([{ link: "![[diagram.png|300]]", path: "diagram.png" }]);
+  });
+
+  it("finds markdown image embeds with empty alt text", () => {
+    const result = findImageEmbedsInMessage("![](attachments/my%20photo.jpeg)");
+    expect(result).toEqual([{ link: "![](attachments/my%20photo.jpeg)", path: "attachments/my photo.jpeg" }]);
+  });
+
+  it("ignores plain links, remote images and non-image embeds", () => {
+    const message = "[[photo.png]] ![](https://example.com/a.png) ![[Other Note]]";
+    expect(findImageEmbedsInMessage(message)).toHaveLength(0);
+  });
+
+  it("deduplicates embeds of the same image", () => {
+    const result = findImageEmbedsInMessage("![[a.png]] ![a](a.png)");
+    expect(result).toHaveLength(1);
+  });
 });
 
 describe("splitMessages", () => {
@@ -131,6 +184,12 @@ describe("removeCommentBlocks", () => {
     expect(removeCommentBlocks(message)).toBe("Before  After");
   });
 
+  it("removes multiple comment blocks", () => {
+    const message =
+      "A =begin-chatgpt-md-comment\nX\n=end-chatgpt-md-comment B =begin-chatgpt-md-comment\nY\n=end-chatgpt-md-comment C";
+    expect(removeCommentBlocks(message)).toBe("A  B  C");
+  });
+
   it("returns original if no comments", () => {
     const message = "Just text";
     expect(removeCommentBlocks(message)).toBe("Just text");
@@ -171,3 +230,94 @@ describe("removeCommentBlocks", () => {
     expect(result).toBe("Start  End");
   });
 });
+
+describe("getMessageSectionRole", () => {
+  it("reads the role header", () => {
+    expect(getMessageSectionRole("\n\n### role::assistant<span> (gpt-4o)</span>\n\nHi")).toBe("assistant");
+  });
+
+  it("treats sections without a header as user messages", () => {
+    expect(getMessageSectionRole("First question")).toBe("user");
+  });
+});
+
+describe("splitChatForCompaction", () => {
+  const hr = '<hr class="__chatgpt_plugin">';
+  const chat = [
+    "Q1",
+    "\n### role::assistant\nA1\n",
+    "\n### role::user\nQ2\n",
+    "\n### role::assistant\nA2\n",
+    "\n### role::user\n",
+  ].join(hr);
+
+  it("keeps the last exchanges and the trailing user message", () => {
+    const result = splitChatForCompaction(chat, 1);
+    expect(result?.compacted).toBe(`Q1${hr}\n### role::assistant\nA1\n`);
+    expect(result?.kept).toBe(`${hr}\n### role::user\nQ2\n${hr}\n### role::assistant\nA2\n${hr}\n### role::user\n`);
+  });
+
+  it("compacts all exchanges when none are kept", () => {
+    const result = splitChatForCompaction(chat, 0);
+    expect(result?.kept).toBe(`${hr}\n### role::user\n`);
+  });
+
+  it("returns null when there is nothing older than the kept exchanges", () => {
+    expect(splitChatForCompaction(chat, 2)).toBeNull();
+    expect(splitChatForCompaction("Q1", 0)).toBeNull();
+  });
+});
+
+describe("conversation summary blocks", () => {
+  it("round-trips the summary text", () => {
+    const block = buildSummaryBlock("- decided X\n", "4 earlier messages, originals in [[Archive]]");
+    expect(block.startsWith("=begin-chatgpt-md-comment")).toBe(true);
+    expect(extractConversationSummary(`${block}\n\nNext question`)).toBe("- decided X");
+  });
+
+  it("ignores regular comment blocks", () => {
+    expect(extractConversationSummary("=begin-chatgpt-md-comment\n\nnote\n=end-chatgpt-md-comment")).toBeNull();
+  });
+});
+
+describe("getMessageEndOffset", () => {
+  const hr = '<hr class="__chatgpt_plugin">';
+  const text = `Q1${hr}A1${hr}Q2`;
+
+  it("returns the offset of the separator after the message", () => {
+    expect(getMessageEndOffset(text, 1)).toBe(2);
+    expect(getMessageEndOffset(text, text.indexOf("A1"))).toBe(text.lastIndexOf(hr));
+  });
+
+  it("returns the text length for the last message", () => {
+    expect(getMessageEndOffset(text, text.length - 1)).toBe(text.length);
+  });
+
+  it("ends at a separator the offset points into", () => {
+    expect(getMessageEndOffset(text, 5)).toBe(2);
+  });
+});
+
+describe("formatArchivedMessages", () => {
+  it("replaces separators and role headers", () => {
+    const hr = '<hr class="__chatgpt_plugin">';
+    const text = `${hr}\n\n### role::assistant<span> (gpt-4o)</span>\n\nAnswer\n\n${hr}\n\n### role::user\n\nFollow-up\n`;
+    const result = formatArchivedMessages(text);
+    expect(result).toBe("[assistant]\nAnswer\n\n---\n\n[user]\nFollow-up");
+    expect(result).not.toContain("role::");
+  });
+
+  it("keeps a single comment block when resending twice", () => {
+    const hr = '<hr class="__chatgpt_plugin">';
+    const archive = (text: string) =>
+      `\n\n=begin-chatgpt-md-comment\n${formatArchivedMessages(text)}\n=end-chatgpt-md-comment`;
+    const first = `First question${archive(`${hr}\n\n### role::assistant\n\nFirst answer\n`)}`;
+    const second = `${hr}\n\n### role::assistant\n\nSecond answer\n\n${hr}\n\n### role::user\n\n${first}\n`;
+
+    const note = `Opening question${archive(second)}`;
+
+    expect(note.match(/=begin-chatgpt-md-comment/g)).toHaveLength(1);
+    expect(note.match(/=end-chatgpt-md-comment/g)).toHaveLength(1);
+    expect(removeCommentBlocks(note)).toBe("Opening question\n\n");
+  });
+});
@@ -1,4 +1,17 @@
-import { HORIZONTAL_LINE_MD, MARKDOWN_LINKS_REGEX, WIKI_LINKS_REGEX } from "src/Constants";
+import {
+  COMMENT_BLOCK_END,
+  COMMENT_BLOCK_START,
+  CONVERSATION_SUMMARY_MARKER,
+  HORIZONTAL_LINE_MD,
+  IMAGE_MEDIA_TYPES,
+  MARKDOWN_EMBEDS_REGEX,
+  MARKDOWN_LINKS_REGEX,
+  ROLE_ASSISTANT,
+  ROLE_IDENTIFIER,
+  ROLE_USER,
+  WIKI_EMBEDS_REGEX,
+  WIKI_LINKS_REGEX,
+} from "src/Constants";
 
 /**
  * Utility functions for message parsing and manipulation
@@ -19,12 +32,13 @@ export function removeCommentBlocks(message: string): string {
   const endIndex = message.indexOf(commentEnd, startIndex);
   if (endIndex === -1) return message;
 
-  return message.substring(0, startIndex) + message.substring(endIndex + commentEnd.length);
+  // A message can hold several comment blocks (e.g. a note and archived messages)
+  return message.substring(0, startIndex) + removeCommentBlocks(message.substring(endIndex + commentEnd.length));
 }
 
 /**
  * Find all wiki links and markdown links in a message
- * Returns unique links with their titles, excluding http/https URLs
+ * Returns unique links with their titles, excluding http/https URLs and images
  */
 export function findLinksInMessage(message: string): { link: string; title: string }[] {
   const regexes = [
@@ -45,12 +59,13 @@ export function findLinksInMessage(message: string): { link: string; title: stri
         linkTitle = linkTitle.split("|")[0].trim();
       }
 
-      // Skip URLs that start with http:// or https://
+      // Skip URLs that start with http:// or https://, images are sent as image parts instead
       if (
         linkTitle &&
         !seenTitles.has(linkTitle) &&
         !linkTitle.startsWith("http://") &&
-        !linkTitle.startsWith("https://")
+        !linkTitle.startsWith("https://") &&
+        !getImageMediaType(linkTitle)
       ) {
         links.push({ link: fullLink, title: linkTitle });
         seenTitles.add(linkTitle);
@@ -61,6 +76,52 @@ export function findLinksInMessage(message: string): { link: string; title: stri
   return links;
 }
 
+/**
+ * Get the media type of an image path based on its extension
+ * Returns undefined for paths that are not supported images
+ */
+export function getImageMediaType(path: string): string | undefined {
+  const extension = path.split(".").pop()?.toLowerCase();
+  return extension && path.includes(".") ? IMAGE_MEDIA_TYPES[extension] : undefined;
+}
+
+/**
+ * Find all image embeds in a message (![[image.png]] and ![alt](image.png))
+ * Returns unique vault paths, excluding http/https URLs and non-image embeds
+ */
+export function findImageEmbedsInMessage(message: string): { link: string; path: string }[] {
+  const embeds: { link: string; path: string }[] = [];
+  const seenPaths = new Set<string>();
+
+  const addEmbed = (link: string, rawPath: string) => {
+    const path = rawPath.trim();
+    if (!path || seenPaths.has(path) || path.startsWith("http://") || path.startsWith("https://")) return;
+    if (!getImageMediaType(path)) return;
+
+    embeds.push({ link, path });
+    seenPaths.add(path);
+  };
+
+  for (const match of message.matchAll(WIKI_EMBEDS_REGEX)) {
+    // Strip size/alias (![[image.png|300]]) and subpath suffixes
+    addEmbed(match[0], match[1].split("|")[0].split("#")[0]);
+  }
+
+  for (const match of message.matchAll(MARKDOWN_EMBEDS_REGEX)) {
+    // Strip optional title ("...") and angle brackets, then decode %20 and friends
+    const target = match[1].trim().split(/\s+"/)[0].replace(/^<|>$/g, "");
+    let path = target;
+    try {
+      path = decodeURI(target);
+    } catch {
+      // Keep the raw target if it is not valid URI encoding
+    }
+    addEmbed(match[0], path);
+  }
+
+  return embeds;
+}
+
 /**
  * Split text into messages based on horizontal line separator
  */
@@ -68,6 +129,105 @@ export function splitMessages(text: string | undefined): string[] {
   return text ? text.split(HORIZONTAL_LINE_MD) : [];
 }
 
+/**
+ * Split text into messages like splitMessages, keeping the offset range of each message
+ */
+export function getMessageSections(text: string): { start: number; end: number; text: string }[] {
+  let start = 0;
+  return splitMessages(text).map((section) => {
+    const range = { start, end: start + section.length, text: section };
+    start = range.end + HORIZONTAL_LINE_MD.length;
+    return range;
+  });
+}
+
+/**
+ * Find where the message containing an offset ends, using the splitMessages boundaries
+ * @returns Offset of the separator after the message, or the text length for the last message
+ */
+export function getMessageEndOffset(text: string, offset: number): number {
+  // Start searching inside a separator the offset may point into
+  const nextSeparator = text.indexOf(HORIZONTAL_LINE_MD, Math.max(0, offset - HORIZONTAL_LINE_MD.length + 1));
+  return nextSeparator === -1 ? text.length : nextSeparator;
+}
+
+/**
+ * Get the role of a raw message section from its role header
+ * Sections without a header (the first message of a chat) are user messages
+ */
+export function getMessageSectionRole(section: string): string {
+  const match = section.match(new RegExp(`${ROLE_IDENTIFIER}(\\w+)`));
+  return match ? match[1] : ROLE_USER;
+}
+
+/**
+ * Split a chat body into older messages to compact and the last exchanges to keep verbatim
+ * An exchange is a user message followed by an assistant response
+ * @returns Raw text of both parts (kept starts with the message separator), or null if no older exchange exists
+ */
+export function splitChatForCompaction(
+  body: string,
+  keepExchanges: number
+): { compacted: string; kept: string } | null {
+  const sections = splitMessages(body);
+  const roles = sections.map(getMessageSectionRole);
+
+  // Exchanges start at user messages that are answered by the assistant
+  const exchangeStarts = roles
+    .map((role, index) => (role === ROLE_USER && roles[index + 1] === ROLE_ASSISTANT ? index : -1))
+    .filter((index) => index !== -1);
+
+  const keepStart =
+    keepExchanges > 0 ? exchangeStarts[exchangeStarts.length - keepExchanges] : roles.lastIndexOf(ROLE_ASSISTANT) + 1;
+  if (keepStart === undefined || !roles.slice(0, keepStart).includes(ROLE_ASSISTANT)) {
+    return null;
+  }
+
+  const keptSections = sections.slice(keepStart);
+  return {
+    compacted: sections.slice(0, keepStart).join(HORIZONTAL_LINE_MD),
+    kept: keptSections.length > 0 ? HORIZONTAL_LINE_MD + keptSections.join(HORIZONTAL_LINE_MD) : "",
+  };
+}
+
+/**
+ * Format raw chat messages for an archive comment block
+ * Separators and role headers are replaced so archived messages are not parsed as chat messages
+ * Comment markers are stripped so earlier archives and summaries do not nest inside the new block
+ */
+export function formatArchivedMessages(text: string): string {
+  const headerRegex = new RegExp(`^\\s*#*\\s*${ROLE_IDENTIFIER}[^\\n]*\\n?`);
+  const markerRegex = new RegExp(`(${COMMENT_BLOCK_START.trim()}|${COMMENT_BLOCK_END})\\n?`, "g");
+  return splitMessages(text.replace(markerRegex, ""))
+    .filter((section) => section.trim())
+    .map((section) => `[${getMessageSectionRole(section)}]\n${section.replace(headerRegex, "").trim()}`)
+    .join("\n\n---\n\n");
+}
+
+/**
+ * Build the comment block holding a conversation summary
+ * The comment keeps the summary out of the rendered chat flow; it is sent to the model as a system message
+ */
+export function buildSummaryBlock(summary: string, description: string): string {
+  return `${COMMENT_BLOCK_START}${CONVERSATION_SUMMARY_MARKER} ${description}\n\n${summary.trim()}\n${COMMENT_BLOCK_END}`;
+}
+
+/**
+ * Extract the summary text from a summary comment block in a message
+ * Returns null when the message has no summary block
+ */
+export function extractConversationSummary(message: string): string | null {
+  const start = message.indexOf(`${COMMENT_BLOCK_START}${CONVERSATION_SUMMARY_MARKER}`);
+  if (start === -1) return null;
+
+  const end = message.indexOf(COMMENT_BLOCK_END, start);
+  if (end === -1) return null;
+
+  // Skip the marker line with the description
+  const block = message.substring(start + COMMENT_BLOCK_START.length, end);
+  return block.substring(block.indexOf("\n") + 1).trim();
+}
+
 /**
  * Remove YAML frontmatter from text
  * Re-exported from YamlHelpers for backward compatibility
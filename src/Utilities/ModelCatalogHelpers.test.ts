@@ -0,0 +1,80 @@
+import { ModelCatalog, ModelInfo } from "src/Models/ModelCatalog";
+import {
+  findCatalogModel,
+  getCatalogModelIds,
+  isModelListStale,
+  parseProviderTtls,
+  updateModelCatalog,
+} from "./ModelCatalogHelpers";
+
+const model = (id: string, provider = "openai"): ModelInfo => ({
+  id,
+  provider,
+  modalities: ["text"],
+  supportsTools: false,
+  lastSeen: "2026-10-01T00:00:00.000Z",
+});
+
+const catalog: ModelCatalog = {
+  openai: { fetchedAt: "2026-10-01T00:00:00.000Z", models: [model("openai@gpt-4o"), model("openai@gpt-4o-mini")] },
+  ollama: { fetchedAt: "2026-10-01T00:00:00.000Z", models: [model("ollama@llama3.2", "ollama")] },
+};
+
+describe("parseProviderTtls", () => {
+  it("parses one provider per line", () => {
+    expect(parseProviderTtls("ollama: 0\n# comment\n\nOpenRouter: 1.5")).toEqual({ ollama: 0, openrouter: 1.5 });
+  });
+
+  it("skips invalid lines", () => {
+    expect(parseProviderTtls("openai\nanthropic: soon\ngemini: -1\n: 2")).toEqual({});
+  });
+});
+
+describe("isModelListStale", () => {
+  const now = new Date("2026-10-01T12:00:00.000Z");
+
+  it("is fresh within the refresh interval", () => {
+    expect(isModelListStale(catalog.openai, 24, now)).toBe(false);
+  });
+
+  it("is stale after the refresh interval", () => {
+    expect(isModelListStale(catalog.openai, 6, now)).toBe(true);
+  });
+
+  it("is stale when missing, empty or refreshed every time", () => {
+    expect(isModelListStale(undefined, 24, now)).toBe(true);
+    expect(isModelListStale({ fetchedAt: now.toISOString(), models: [] }, 24, now)).toBe(true);
+    expect(isModelListStale(catalog.openai, 0, now)).toBe(true);
+  });
+});
+
+describe("updateModelCatalog", () => {
+  const now = new Date("2026-10-02T00:00:00.000Z");
+
+  it("replaces the provider's models", () => {
+    const updated = updateModelCatalog(catalog, "openai", [model("openai@gpt-5")], now);
+    expect(updated.openai).toEqual({ fetchedAt: now.toISOString(), models: [model("openai@gpt-5")] });
+    expect(updated.ollama).toBe(catalog.ollama);
+    expect(catalog.openai.models).toHaveLength(2);
+  });
+
+  it("keeps cached models when the provider returns none", () => {
+    expect(updateModelCatalog(catalog, "ollama", [], now)).toBe(catalog);
+  });
+});
+
+describe("catalog lookup", () => {
+  it("lists model IDs of the given providers in order", () => {
+    expect(getCatalogModelIds(catalog, ["ollama", "openai", "gemini"])).toEqual([
+      "ollama@llama3.2",
+      "openai@gpt-4o",
+      "openai@gpt-4o-mini",
+    ]);
+    expect(getCatalogModelIds(catalog)).toHaveLength(3);
+  });
+
+  it("finds models by ID", () => {
+    expect(findCatalogModel(catalog, "openai@gpt-4o-mini")?.provider).toBe("openai");
+    expect(findCatalogModel(catalog, "openai@gpt-3")).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { ModelCatalog, ModelInfo, ProviderModelList } from "src/Models/ModelCatalog";
+
+/**
+ * Utility functions for the persisted model catalog
+ */
+
+/**
+ * Parse the per-provider model list refresh intervals
+ * Format: one "provider: hours" entry per line, lines starting with "#" are comments
+ * @returns Hours keyed by lowercase provider, 0 means the list is fetched every time
+ */
+export function parseProviderTtls(text: string): Record<string, number> {
+  const ttls: Record<string, number> = {};
+
+  for (const line of (text || "").split("\n").map((value) => value.trim())) {
+    if (!line || line.startsWith("#")) continue;
+
+    const separator = line.lastIndexOf(":");
+    const hours = Number(line.substring(separator + 1).trim());
+    if (separator <= 0 || !Number.isFinite(hours) || hours < 0) continue;
+
+    ttls[line.substring(0, separator).trim().toLowerCase()] = hours;
+  }
+
+  return ttls;
+}
+
+/**
+ * Whether a provider's model list is missing or older than its refresh interval
+ * @param ttlHours - Refresh interval in hours, 0 or less to always refetch
+ */
+export function isModelListStale(list: ProviderModelList | undefined, ttlHours: number, now: Date): boolean {
+  if (!list || list.models.length === 0 || !(ttlHours > 0)) {
+    return true;
+  }
+
+  const age = now.getTime() - new Date(list.fetchedAt).getTime();
+  return !(age >= 0 && age < ttlHours * 60 * 60 * 1000);
+}
+
+/**
+ * Store a provider's freshly fetched models in the catalog
+ * An empty result usually means the provider could not be reached (adapters return no models on errors),
+ * so the cached models are kept and the list stays stale to be fetched again next time.
+ * @returns A new catalog
+ */
+export function updateModelCatalog(
+  catalog: ModelCatalog,
+  provider: string,
+  models: ModelInfo[],
+  now: Date
+): ModelCatalog {
+  if (models.length === 0 && catalog[provider]?.models.length) {
+    return catalog;
+  }
+
+  return { ...catalog, [provider]: { fetchedAt: now.toISOString(), models } };
+}
+
+/**
+ * List the model IDs of the catalog
+ * @param providers - Only list models of these providers, in this order
+ */
+export function getCatalogModelIds(catalog: ModelCatalog, providers: string[] = Object.keys(catalog)): string[] {
+  return providers.flatMap((provider) => catalog[provider]?.models.map((model) => model.id) ?? []);
+}
+
+/**
+ * Find a model in the catalog by its ID with provider prefix
+ */
+export function findCatalogModel(catalog: ModelCatalog, modelId: string): ModelInfo | undefined {
+  for (const list of Object.values(catalog)) {
+    const model = list.models.find((item) => item.id === modelId);
+    if (model) return model;
+  }
+  return undefined;
+}
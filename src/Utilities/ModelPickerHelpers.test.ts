@@ -0,0 +1,113 @@
+import { MAX_RECENT_MODELS } from "src/Constants";
+import {
+  addRecentModel,
+  buildModelSuggestions,
+  formatContextLength,
+  formatModelPricing,
+  ModelPickerEntry,
+  parseModelQuery,
+  toggleFavoriteModel,
+} from "./ModelPickerHelpers";
+
+const entry = (id: string, supportsTools = false, supportsVision = false): ModelPickerEntry => ({
+  id,
+  provider: id.split("@")[0],
+  supportsTools,
+  supportsVision,
+});
+
+const entries = [
+  entry("ollama@llama3.2"),
+  entry("openai@gpt-4o", true, true),
+  entry("openai@gpt-4o-mini", true, true),
+  entry("openai@o3-mini", true),
+  entry("anthropic@claude-sonnet-4-5", true, true),
+];
+
+const listed = (suggestions: ReturnType<typeof buildModelSuggestions>) =>
+  suggestions.map((suggestion) => `${suggestion.groupStart ? "# " : ""}${suggestion.group}: ${suggestion.id}`);
+
+describe("parseModelQuery", () => {
+  it("separates filters from the search text", () => {
+    expect(parseModelQuery("GPT #tools 4o #Vision")).toEqual({ text: "gpt 4o", filters: ["tools", "vision"] });
+  });
+
+  it("searches for unknown filters", () => {
+    expect(parseModelQuery("#free")).toEqual({ text: "#free", filters: [] });
+  });
+});
+
+describe("buildModelSuggestions", () => {
+  it("groups models by provider", () => {
+    expect(listed(buildModelSuggestions(entries, "", [], []))).toEqual([
+      "# ollama: ollama@llama3.2",
+      "# openai: openai@gpt-4o",
+      "openai: openai@gpt-4o-mini",
+      "openai: openai@o3-mini",
+      "# anthropic: anthropic@claude-sonnet-4-5",
+    ]);
+  });
+
+  it("lists favorites and then recent models first", () => {
+    const suggestions = buildModelSuggestions(
+      entries,
+      "",
+      ["anthropic@claude-sonnet-4-5"],
+      ["openai@o3-mini", "anthropic@claude-sonnet-4-5", "openai@gpt-5"]
+    );
+
+    expect(listed(suggestions)).toEqual([
+      "# Favorites: anthropic@claude-sonnet-4-5",
+      "# Recent: openai@o3-mini",
+      "# ollama: ollama@llama3.2",
+      "# openai: openai@gpt-4o",
+      "openai: openai@gpt-4o-mini",
+    ]);
+    expect(suggestions[0].favorite).toBe(true);
+    expect(suggestions[1].favorite).toBe(false);
+  });
+
+  it("filters by text and capability", () => {
+    expect(buildModelSuggestions(entries, "mini #tools", [], []).map((item) => item.id)).toEqual([
+      "openai@gpt-4o-mini",
+      "openai@o3-mini",
+    ]);
+    expect(buildModelSuggestions(entries, "openai #vision", [], []).map((item) => item.id)).toEqual([
+      "openai@gpt-4o",
+      "openai@gpt-4o-mini",
+    ]);
+    expect(buildModelSuggestions(entries, "#favorites", ["ollama@llama3.2"], []).map((item) => item.id)).toEqual([
+      "ollama@llama3.2",
+    ]);
+  });
+});
+
+describe("favorites and recent models", () => {
+  it("toggles favorites", () => {
+    expect(toggleFavoriteModel(["a@1"], "b@2")).toEqual(["a@1", "b@2"]);
+    expect(toggleFavoriteModel(["a@1", "b@2"], "a@1")).toEqual(["b@2"]);
+  });
+
+  it("moves the selected model to the front of the recent models", () => {
+    expect(addRecentModel(["a@1", "b@2"], "b@2")).toEqual(["b@2", "a@1"]);
+
+    const recents = Array.from({ length: MAX_RECENT_MODELS }, (_, index) => `a@${index}`);
+    expect(addRecentModel(recents, "b@2")).toEqual(["b@2", ...recents.slice(0, MAX_RECENT_MODELS - 1)]);
+  });
+});
+
+describe("formatting", () => {
+  it("formats context lengths", () => {
+    expect(formatContextLength(8192)).toBe("8k");
+    expect(formatContextLength(128000)).toBe("128k");
+    expect(formatContextLength(1048576)).toBe("1M");
+    expect(formatContextLength(2000000)).toBe("2M");
+    expect(formatContextLength(512)).toBe("512");
+  });
+
+  it("formats prices per million tokens", () => {
+    expect(formatModelPricing({ input: 2.5, output: 10 })).toBe("$2.5 / $10 per 1M");
+    expect(formatModelPricing({ input: 0.075, output: 0.3 })).toBe("$0.075 / $0.3 per 1M");
+    expect(formatModelPricing({ input: 0, output: 0 })).toBe("Free");
+  });
+});
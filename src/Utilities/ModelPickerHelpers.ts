@@ -0,0 +1,145 @@
+import { MAX_RECENT_MODELS } from "src/Constants";
+import { ModelInfo } from "src/Models/ModelCatalog";
+import { ModelPricing } from "src/Models/Usage";
+
+/**
+ * Utility functions for the model picker
+ */
+
+/**
+ * Query filters, typed as "#tools", "#vision" or "#favorites" in the model picker
+ */
+export type ModelFilter = "tools" | "vision" | "favorites";
+
+const MODEL_FILTERS: ModelFilter[] = ["tools", "vision", "favorites"];
+
+/**
+ * A model offered in the model picker
+ *
+ * @property id - Model ID with provider prefix (e.g., "openai@gpt-4o")
+ * @property provider - Provider the model is grouped under
+ * @property info - Catalog metadata, omitted for models that are not in the catalog
+ * @property supportsTools - Whether tools are sent to the model
+ * @property supportsVision - Whether the model accepts images
+ */
+export interface ModelPickerEntry {
+  id: string;
+  provider: string;
+  info?: ModelInfo;
+  supportsTools: boolean;
+  supportsVision: boolean;
+}
+
+/**
+ * A model as listed in the model picker
+ *
+ * @property group - "Favorites", "Recent" or the provider
+ * @property groupStart - Whether the model is the first of its group, which renders the group heading
+ * @property favorite - Whether the model is starred
+ */
+export interface ModelSuggestion extends ModelPickerEntry {
+  group: string;
+  groupStart: boolean;
+  favorite: boolean;
+}
+
+/**
+ * Split a model picker query into search text and filters
+ * Unknown "#" words are searched for like any other text
+ */
+export function parseModelQuery(query: string): { text: string; filters: ModelFilter[] } {
+  const filters: ModelFilter[] = [];
+  const words: string[] = [];
+
+  for (const word of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const filter = word.substring(1) as ModelFilter;
+    if (word.startsWith("#") && MODEL_FILTERS.includes(filter)) {
+      filters.push(filter);
+    } else {
+      words.push(word);
+    }
+  }
+
+  return { text: words.join(" "), filters };
+}
+
+function matchesFilter(entry: ModelPickerEntry, filter: ModelFilter, favoriteIds: Set<string>): boolean {
+  switch (filter) {
+    case "tools":
+      return entry.supportsTools;
+    case "vision":
+      return entry.supportsVision;
+    case "favorites":
+      return favoriteIds.has(entry.id);
+  }
+}
+
+/**
+ * List the models matching a query: favorites first, then recently used models, then the other models by provider
+ * @param favorites - Starred model IDs
+ * @param recents - Recently selected model IDs, most recent first
+ */
+export function buildModelSuggestions(
+  entries: ModelPickerEntry[],
+  query: string,
+  favorites: string[],
+  recents: string[]
+): ModelSuggestion[] {
+  const { text, filters } = parseModelQuery(query);
+  const favoriteIds = new Set(favorites);
+  const matching = entries.filter(
+    (entry) =>
+      entry.id.toLowerCase().includes(text) && filters.every((filter) => matchesFilter(entry, filter, favoriteIds))
+  );
+
+  const byId = new Map(matching.map((entry) => [entry.id, entry]));
+  const pinnedFavorites = favorites.filter((id) => byId.has(id));
+  const pinnedRecents = recents.filter((id) => byId.has(id) && !favoriteIds.has(id));
+  const pinned = new Set([...pinnedFavorites, ...pinnedRecents]);
+
+  const groups = new Map<string, ModelPickerEntry[]>([
+    ["Favorites", pinnedFavorites.map((id) => byId.get(id)!)],
+    ["Recent", pinnedRecents.map((id) => byId.get(id)!)],
+  ]);
+  for (const entry of matching.filter((item) => !pinned.has(item.id))) {
+    groups.set(entry.provider, [...(groups.get(entry.provider) ?? []), entry]);
+  }
+
+  return [...groups].flatMap(([group, items]) =>
+    items.map((entry, index) => ({ ...entry, group, groupStart: index === 0, favorite: favoriteIds.has(entry.id) }))
+  );
+}
+
+/**
+ * Star or unstar a model
+ * @returns The new favorites
+ */
+export function toggleFavoriteModel(favorites: string[], modelId: string): string[] {
+  return favorites.includes(modelId) ? favorites.filter((id) => id !== modelId) : [...favorites, modelId];
+}
+
+/**
+ * Move a model to the front of the recently used models
+ * @returns The new recently used models, at most MAX_RECENT_MODELS
+ */
+export function addRecentModel(recents: string[], modelId: string): string[] {
+  return [modelId, ...recents.filter((id) => id !== modelId)].slice(0, MAX_RECENT_MODELS);
+}
+
+/**
+ * Format a context length for display (e.g., 128000 → "128k", 1048576 → "1M")
+ */
+export function formatContextLength(tokens: number): string {
+  if (tokens >= 1_000_000) return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+  return String(tokens);
+}
+
+/**
+ * Format model prices for display (e.g., "$2.5 / $10 per 1M")
+ */
+export function formatModelPricing(pricing: ModelPricing): string {
+  if (pricing.input === 0 && pricing.output === 0) return "Free";
+  const format = (price: number) => `$${Number(price.toPrecision(3))}`;
+  return `${format(pricing.input)} / ${format(pricing.output)} per 1M`;
+}
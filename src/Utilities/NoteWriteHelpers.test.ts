@@ -0,0 +1,46 @@
+import { getAppendSeparator, getContentTail, getParentFolders, normalizeNotePath } from "./NoteWriteHelpers";
+
+describe("normalizeNotePath", () => {
+  it("normalizes paths inside the vault", () => {
+    expect(normalizeNotePath("Notes/Ideas")).toEqual({ path: "Notes/Ideas.md" });
+    expect(normalizeNotePath(" /Notes\\Ideas.md ")).toEqual({ path: "Notes/Ideas.md" });
+    expect(normalizeNotePath("./Ideas.MD")).toEqual({ path: "Ideas.MD" });
+  });
+
+  it("rejects empty paths and paths leaving the vault", () => {
+    expect(normalizeNotePath("  ")).toEqual({ error: "The path is empty" });
+    expect(normalizeNotePath("../Outside")).toHaveProperty("error");
+    expect(normalizeNotePath("Notes/../../Outside")).toHaveProperty("error");
+    expect(normalizeNotePath("Notes//Ideas")).toHaveProperty("error");
+  });
+
+  it("rejects hidden folders and invalid characters", () => {
+    expect(normalizeNotePath(".obsidian/plugins/data.json")).toHaveProperty("error");
+    expect(normalizeNotePath("Notes/.hidden")).toHaveProperty("error");
+    expect(normalizeNotePath("Notes/What? Why")).toHaveProperty("error");
+    expect(normalizeNotePath("Notes/[[Link]]")).toHaveProperty("error");
+  });
+});
+
+describe("getParentFolders", () => {
+  it("lists the folders from the top", () => {
+    expect(getParentFolders("a/b/c.md")).toEqual(["a", "a/b"]);
+    expect(getParentFolders("c.md")).toEqual([]);
+  });
+});
+
+describe("getAppendSeparator", () => {
+  it("starts appended text on a new paragraph", () => {
+    expect(getAppendSeparator("")).toBe("");
+    expect(getAppendSeparator("Text")).toBe("\n\n");
+    expect(getAppendSeparator("Text\n")).toBe("\n");
+    expect(getAppendSeparator("Text\n\n")).toBe("");
+  });
+});
+
+describe("getContentTail", () => {
+  it("returns the last lines without trailing newlines", () => {
+    expect(getContentTail("1\n2\n3\n4\n\n", 2)).toBe("3\n4");
+    expect(getContentTail("1", 5)).toBe("1");
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Utility functions for the note_create and note_append tools
+ */
+
+// Characters Obsidian does not allow in file names, or that break links to the note
+const INVALID_PATH_CHARACTERS = /[*"<>:|?#^[\]]/;
+
+/**
+ * Normalize a note path proposed by the model and check that it stays inside the vault
+ * Backslashes become slashes, leading slashes and "./" are removed and ".md" is added when missing.
+ * @returns The vault path, or an error for paths leaving the vault, hidden folders and invalid characters
+ */
+export function normalizeNotePath(path: string): { path: string } | { error: string } {
+  const segments = (path ?? "")
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^(\.?\/)+/, "")
+    .split("/")
+    .map((segment) => segment.trim());
+
+  if (segments.length === 1 && !segments[0]) {
+    return { error: "The path is empty" };
+  }
+  if (segments.some((segment) => !segment || segment === "." || segment === "..")) {
+    return { error: "The path must be a note inside the vault, without empty, '.' or '..' parts" };
+  }
+  if (segments.some((segment) => segment.startsWith("."))) {
+    return { error: "Hidden folders and files (starting with '.') cannot be written" };
+  }
+  if (segments.some((segment) => INVALID_PATH_CHARACTERS.test(segment))) {
+    return { error: `The path contains characters that are not allowed: * " < > : | ? # ^ [ ]` };
+  }
+
+  const normalized = segments.join("/");
+  return { path: normalized.toLowerCase().endsWith(".md") ? normalized : `${normalized}.md` };
+}
+
+/**
+ * Folders that contain a note, from the top (e.g., "a/b/c.md" → ["a", "a/b"])
+ */
+export function getParentFolders(path: string): string[] {
+  const segments = path.split("/").slice(0, -1);
+  return segments.map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+/**
+ * Text inserted between a note and appended text, so the addition starts a new paragraph
+ */
+export function getAppendSeparator(existingContent: string): string {
+  if (!existingContent || existingContent.endsWith("\n\n")) return "";
+  return existingContent.endsWith("\n") ? "\n" : "\n\n";
+}
+
+/**
+ * Last lines of a note, shown above appended text in the approval modal
+ */
+export function getContentTail(content: string, lines: number): string {
+  return content.replace(/\n+$/, "").split("\n").slice(-lines).join("\n");
+}
@@ -1,6 +1,7 @@
 import { isValidApiKey } from "src/Services/ApiAuthService";
 import {
   AI_SERVICE_ANTHROPIC,
+  AI_SERVICE_AZURE,
   AI_SERVICE_GEMINI,
   AI_SERVICE_LMSTUDIO,
   AI_SERVICE_OLLAMA,
@@ -11,15 +12,20 @@ import {
 
 /**
  * Determine the AI provider from a model string
- * Handles explicit provider prefixes and URL-based detection
+ * Handles explicit provider prefixes (including custom providers) and URL-based detection
  */
-export const aiProviderFromUrl = (url?: string, model?: string): string | undefined => {
+export const aiProviderFromUrl = (
+  url?: string,
+  model?: string,
+  customProviderNames: string[] = []
+): string | undefined => {
   if (!model) {
     return undefined;
   }
 
   // Canonical: Check explicit provider prefixes
   const prefixMap: [string, string][] = [
+    ...customProviderNames.map((name): [string, string] => [`${name}@`, name]),
     ["openai@", AI_SERVICE_OPENAI],
     ["anthropic@", AI_SERVICE_ANTHROPIC],
     ["gemini@", AI_SERVICE_GEMINI],
@@ -27,6 +33,7 @@ export const aiProviderFromUrl = (url?: string, model?: string): string | undefi
     ["lmstudio@", AI_SERVICE_LMSTUDIO],
     ["openrouter@", AI_SERVICE_OPENROUTER],
     ["zai@", AI_SERVICE_ZAI],
+    ["azure@", AI_SERVICE_AZURE],
     ["local@", AI_SERVICE_OLLAMA], // backward compatibility
   ];
 
@@ -78,7 +85,7 @@ export const aiProviderFromUrl = (url?: string, model?: string): string | undefi
 
 /**
  * Determine the AI provider from available API keys
- * Uses a priority order: OpenAI > Anthropic > Gemini > OpenRouter > Z.AI
+ * Uses a priority order: OpenAI > Anthropic > Gemini > OpenRouter > Z.AI > Azure OpenAI
  */
 export const aiProviderFromKeys = (config: Record<string, any>): string | null => {
   const hasOpenRouterKey = isValidApiKey(config.openrouterApiKey);
@@ -86,8 +93,9 @@ export const aiProviderFromKeys = (config: Record<string, any>): string | null =
   const hasAnthropicKey = isValidApiKey(config.anthropicApiKey);
   const hasGeminiKey = isValidApiKey(config.geminiApiKey);
   const hasZaiKey = isValidApiKey(config.zaiApiKey);
+  const hasAzureKey = isValidApiKey(config.azureApiKey);
 
-  // Priority order: OpenAI > Anthropic > Gemini > OpenRouter > Z.AI
+  // Priority order: OpenAI > Anthropic > Gemini > OpenRouter > Z.AI > Azure OpenAI
   if (hasOpenAIKey) {
     return AI_SERVICE_OPENAI;
   } else if (hasAnthropicKey) {
@@ -98,6 +106,8 @@ export const aiProviderFromKeys = (config: Record<string, any>): string | null =
     return AI_SERVICE_OPENROUTER;
   } else if (hasZaiKey) {
     return AI_SERVICE_ZAI;
+  } else if (hasAzureKey) {
+    return AI_SERVICE_AZURE;
   }
 
   return null;
@@ -0,0 +1,30 @@
+import {
+  formatThinkingCallout,
+  formatThinkingDelta,
+  removeThinkingCallouts,
+  startThinkingCallout,
+  THINKING_CALLOUT_END,
+} from "./ReasoningHelpers";
+
+describe("thinking callout", () => {
+  it("renders reasoning as a collapsed callout", () => {
+    expect(formatThinkingCallout("First step\n\nSecond step")).toBe(
+      "> [!thinking]-\n> First step\n> \n> Second step\n\n"
+    );
+  });
+
+  it("starts on a new paragraph after text", () => {
+    expect(startThinkingCallout("")).toBe("> [!thinking]-\n> ");
+    expect(startThinkingCallout("Answer")).toBe("\n\n> [!thinking]-\n> ");
+  });
+
+  it("builds the same callout from streamed deltas", () => {
+    const streamed = startThinkingCallout("") + ["First ", "step\n", "\nSecond step"].map(formatThinkingDelta).join("");
+    expect(streamed + THINKING_CALLOUT_END).toBe(formatThinkingCallout("First step\n\nSecond step"));
+  });
+
+  it("is removed from message content", () => {
+    const message = `${formatThinkingCallout("Reasoning\nmore")}The answer\n\n> a quote`;
+    expect(removeThinkingCallouts(message)).toBe("The answer\n\n> a quote");
+  });
+});
@@ -0,0 +1,47 @@
+import { THINKING_CALLOUT_TYPE } from "src/Constants";
+
+/**
+ * Utility functions for reasoning (thinking) written into chat notes
+ * Reasoning is shown as a collapsed callout above the answer:
+ *
+ * > [!thinking]-
+ * > First, ...
+ *
+ * The callout is removed from messages before they are sent back to the model.
+ */
+
+const THINKING_CALLOUT_HEADER = `> [!${THINKING_CALLOUT_TYPE}]-`;
+const THINKING_CALLOUT = new RegExp(`^> \\[!${THINKING_CALLOUT_TYPE}\\][^\\n]*(?:\\n>[^\\n]*)*\\n*`, "gm");
+
+/**
+ * Separator written between the callout and the answer that follows it
+ */
+export const THINKING_CALLOUT_END = "\n\n";
+
+/**
+ * Start a thinking callout, on a new paragraph if text was already written
+ */
+export function startThinkingCallout(precedingText: string): string {
+  return `${precedingText.trim() ? "\n\n" : ""}${THINKING_CALLOUT_HEADER}\n> `;
+}
+
+/**
+ * Format a streamed reasoning delta so it continues the callout
+ */
+export function formatThinkingDelta(delta: string): string {
+  return delta.replace(/\n/g, "\n> ");
+}
+
+/**
+ * Render complete reasoning as a thinking callout followed by the separator
+ */
+export function formatThinkingCallout(reasoning: string): string {
+  return `${startThinkingCallout("")}${formatThinkingDelta(reasoning.trim())}${THINKING_CALLOUT_END}`;
+}
+
+/**
+ * Remove thinking callouts from message content
+ */
+export function removeThinkingCallouts(text: string): string {
+  return text.replace(THINKING_CALLOUT, "");
+}
@@ -1,4 +1,4 @@
-import { Editor } from "obsidian";
+import { Editor, EditorPosition } from "obsidian";
 import {
   AI_SERVICE_ANTHROPIC,
   AI_SERVICE_GEMINI,
@@ -7,6 +7,7 @@ import {
   AI_SERVICE_OPENAI,
   AI_SERVICE_OPENROUTER,
   ROLE_ASSISTANT,
+  ROLE_IDENTIFIER,
   TRUNCATION_ERROR_FULL,
   TRUNCATION_ERROR_PARTIAL,
 } from "src/Constants";
@@ -43,6 +44,22 @@ export function insertAssistantHeader(
   return { initialCursor, newCursor };
 }
 
+/**
+ * Append text to the first assistant header at or after a position
+ * Used to annotate a response once it has been written
+ * @returns Whether a header was found
+ */
+export function appendToAssistantHeader(editor: Editor, from: EditorPosition, text: string): boolean {
+  for (let line = from.line; line <= editor.lastLine(); line++) {
+    const content = editor.getLine(line);
+    if (content.includes(`${ROLE_IDENTIFIER}${ROLE_ASSISTANT}`)) {
+      editor.replaceRange(text, { line, ch: content.length });
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Handle choices with finish_reason validation
  * Returns appropriate content based on whether responses were truncated
@@ -0,0 +1,134 @@
+import {
+  formatRetryStatus,
+  getBackoffDelay,
+  getRetryAfterDelay,
+  getRetryDelay,
+  getRetryPolicy,
+  parseRateLimitReset,
+  RetryPolicy,
+} from "./RetryHelpers";
+
+const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000, jitter: 0.2 };
+const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+describe("getRetryPolicy", () => {
+  it("converts settings to milliseconds", () => {
+    expect(getRetryPolicy({ retryMaxAttempts: 5, retryBaseDelay: 0.5, retryMaxDelay: 30 })).toEqual({
+      maxAttempts: 5,
+      baseDelayMs: 500,
+      maxDelayMs: 30000,
+      jitter: 0.2,
+    });
+  });
+
+  it("uses defaults for invalid values", () => {
+    expect(getRetryPolicy({ retryMaxAttempts: 0, retryMaxDelay: -1 })).toEqual({
+      maxAttempts: 3,
+      baseDelayMs: 2000,
+      maxDelayMs: 60000,
+      jitter: 0.2,
+    });
+  });
+});
+
+describe("parseRateLimitReset", () => {
+  it("parses seconds", () => {
+    expect(parseRateLimitReset("30", now)).toBe(30000);
+    expect(parseRateLimitReset("0.5", now)).toBe(500);
+  });
+
+  it("parses durations", () => {
+    expect(parseRateLimitReset("6m0s", now)).toBe(360000);
+    expect(parseRateLimitReset("1h2m3.5s", now)).toBe(3723500);
+    expect(parseRateLimitReset("20ms", now)).toBe(20);
+  });
+
+  it("parses timestamps and dates", () => {
+    expect(parseRateLimitReset(String(now + 5000), now)).toBe(5000);
+    expect(parseRateLimitReset(String(now / 1000 + 10), now)).toBe(10000);
+    expect(parseRateLimitReset("2025-01-01T12:00:42Z", now)).toBe(42000);
+    expect(parseRateLimitReset("Wed, 01 Jan 2025 12:01:00 GMT", now)).toBe(60000);
+  });
+
+  it("returns undefined for missing or invalid values", () => {
+    expect(parseRateLimitReset(undefined, now)).toBeUndefined();
+    expect(parseRateLimitReset("soon", now)).toBeUndefined();
+  });
+});
+
+describe("getRetryAfterDelay", () => {
+  it("prefers retry-after-ms and Retry-After", () => {
+    expect(getRetryAfterDelay({ statusCode: 429, responseHeaders: { "retry-after-ms": "1500" } }, [], now)).toBe(1500);
+    expect(getRetryAfterDelay({ statusCode: 503, responseHeaders: { "Retry-After": "7" } }, [], now)).toBe(7000);
+  });
+
+  it("uses the longest provider reset for rate limits", () => {
+    const error = {
+      statusCode: 429,
+      responseHeaders: { "x-ratelimit-reset-requests": "2s", "x-ratelimit-reset-tokens": "12s" },
+    };
+    expect(getRetryAfterDelay(error, ["x-ratelimit-reset-requests", "x-ratelimit-reset-tokens"], now)).toBe(12000);
+  });
+
+  it("reads Gemini's retryDelay from the response body", () => {
+    const error = { statusCode: 429, responseBody: '{"error":{"details":[{"retryDelay": "37s"}]}}' };
+    expect(getRetryAfterDelay(error, [], now)).toBe(37000);
+  });
+
+  it("unwraps retry errors", () => {
+    const error = { name: "AI_RetryError", lastError: { statusCode: 429, responseHeaders: { "retry-after": "3" } } };
+    expect(getRetryAfterDelay(error, [], now)).toBe(3000);
+  });
+
+  it("returns undefined without provider delay", () => {
+    expect(getRetryAfterDelay({ statusCode: 500, responseHeaders: {} }, [], now)).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelay", () => {
+  it("doubles the delay for each retry", () => {
+    expect(getBackoffDelay(1, policy, 0.5)).toBe(1000);
+    expect(getBackoffDelay(3, policy, 0.5)).toBe(4000);
+  });
+
+  it("spreads delays by the jitter", () => {
+    expect(getBackoffDelay(1, policy, 0)).toBe(800);
+    expect(getBackoffDelay(1, policy, 1)).toBe(1200);
+  });
+
+  it("caps delays at the maximum", () => {
+    expect(getBackoffDelay(10, policy, 0.5)).toBe(60000);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("retries rate limits, server errors and network errors", () => {
+    expect(getRetryDelay({ statusCode: 429 }, 1, policy, [], now, 0.5)).toBe(1000);
+    expect(getRetryDelay({ statusCode: 502 }, 2, policy, [], now, 0.5)).toBe(2000);
+    expect(getRetryDelay(new TypeError("Failed to fetch"), 1, policy, [], now, 0.5)).toBe(1000);
+  });
+
+  it("waits for the provider delay", () => {
+    const error = { statusCode: 429, responseHeaders: { "retry-after": "20" } };
+    expect(getRetryDelay(error, 1, policy, [], now, 0.5)).toBe(20000);
+  });
+
+  it("does not wait longer than the maximum delay", () => {
+    const error = { statusCode: 429, responseHeaders: { "retry-after": "3600" } };
+    expect(getRetryDelay(error, 1, policy, [], now, 0.5)).toBeUndefined();
+  });
+
+  it("does not retry other errors", () => {
+    expect(getRetryDelay({ statusCode: 401, message: "Invalid API key" }, 1, policy, [], now)).toBeUndefined();
+    expect(getRetryDelay({ statusCode: 400, message: "maximum context length" }, 1, policy, [], now)).toBeUndefined();
+    expect(getRetryDelay({ name: "AbortError", message: "aborted" }, 1, policy, [], now)).toBeUndefined();
+  });
+});
+
+describe("formatRetryStatus", () => {
+  it("shows the remaining seconds and attempt", () => {
+    expect(formatRetryStatus("openai@gpt-4o", "rate limited (429)", 4200, 2, 3)).toBe(
+      "openai@gpt-4o rate limited (429), retrying in 5s (attempt 2 of 3)"
+    );
+  });
+});
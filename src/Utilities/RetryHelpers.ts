@@ -0,0 +1,169 @@
+import {
+  DEFAULT_RETRY_BASE_DELAY,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY,
+  RETRY_JITTER,
+} from "src/Constants";
+import { CONTEXT_LENGTH_EXCEEDED, getFallbackReason, getRootError } from "./FallbackHelpers";
+
+/**
+ * Utility functions for retrying rate-limited and failed requests
+ */
+
+/**
+ * How often and how long to retry a failed request
+ */
+export interface RetryPolicy {
+  /** Attempts per model, including the first request */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry */
+  baseDelayMs: number;
+  /** Longest delay in milliseconds; a longer Retry-After is not waited for */
+  maxDelayMs: number;
+  /** Random spread of backoff delays as a fraction (0.2 = ±20%) */
+  jitter: number;
+}
+
+// Duration format of OpenAI reset headers, e.g. "1s", "6m0s", "1h2m3.5s", "20ms"
+const DURATION_PATTERN = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/;
+// Retry delay in Gemini error bodies, e.g. "retryDelay": "37s"
+const RETRY_DELAY_BODY_PATTERN = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/;
+
+/**
+ * Read the retry policy from settings, using defaults for missing or invalid values
+ */
+export function getRetryPolicy(settings: {
+  retryMaxAttempts?: number;
+  retryBaseDelay?: number;
+  retryMaxDelay?: number;
+}): RetryPolicy {
+  const maxAttempts = Number(settings.retryMaxAttempts);
+  const baseDelay = Number(settings.retryBaseDelay);
+  const maxDelay = Number(settings.retryMaxDelay);
+
+  return {
+    maxAttempts: Number.isInteger(maxAttempts) && maxAttempts > 0 ? maxAttempts : DEFAULT_RETRY_MAX_ATTEMPTS,
+    baseDelayMs: (baseDelay >= 0 ? baseDelay : DEFAULT_RETRY_BASE_DELAY) * 1000,
+    maxDelayMs: (maxDelay > 0 ? maxDelay : DEFAULT_RETRY_MAX_DELAY) * 1000,
+    jitter: RETRY_JITTER,
+  };
+}
+
+/**
+ * Parse a rate limit reset value into milliseconds from now
+ * Accepts seconds ("30"), Unix timestamps in seconds or milliseconds, durations ("6m0s", "20ms") and dates
+ * @returns Milliseconds to wait, or undefined if the value cannot be parsed
+ */
+export function parseRateLimitReset(value: string | undefined, now: number = Date.now()): number | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = Number(text);
+    if (number > 1e12) return Math.max(0, number - now);
+    if (number > 1e9) return Math.max(0, number * 1000 - now);
+    return number * 1000;
+  }
+
+  const duration = text.match(DURATION_PATTERN);
+  if (duration) {
+    const [hours, minutes, seconds, milliseconds] = duration.slice(1).map((part) => Number(part ?? 0));
+    return ((hours * 60 + minutes) * 60 + seconds) * 1000 + milliseconds;
+  }
+
+  const date = Date.parse(text);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Get the delay the provider asked for in a failed response
+ * Reads retry-after-ms and Retry-After, then for rate limits the provider's reset headers and Gemini's retryDelay
+ * @param resetHeaders - Provider-specific rate limit reset headers, the longest reset is used
+ * @returns Milliseconds to wait, or undefined if the response does not say
+ */
+export function getRetryAfterDelay(err: unknown, resetHeaders: string[], now: number = Date.now()): number | undefined {
+  const root = getRootError(err);
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(root?.responseHeaders ?? {})) {
+    headers[key.toLowerCase()] = String(value);
+  }
+
+  const retryAfterMs = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = parseRateLimitReset(headers["retry-after"], now);
+  if (retryAfter !== undefined) return retryAfter;
+
+  return Number(root?.statusCode ?? root?.status) === 429
+    ? getRateLimitResetDelay(headers, root?.responseBody, resetHeaders, now)
+    : undefined;
+}
+
+/**
+ * Get the delay until a rate limit resets, from the provider's reset headers or Gemini's retryDelay
+ */
+function getRateLimitResetDelay(
+  headers: Record<string, string>,
+  responseBody: unknown,
+  resetHeaders: string[],
+  now: number
+): number | undefined {
+  const resets = resetHeaders
+    .map((header) => parseRateLimitReset(headers[header.toLowerCase()], now))
+    .filter((delay): delay is number => delay !== undefined);
+  if (resets.length > 0) return Math.max(...resets);
+
+  const retryDelay = String(responseBody ?? "").match(RETRY_DELAY_BODY_PATTERN);
+  return retryDelay ? Number(retryDelay[1]) * 1000 : undefined;
+}
+
+/**
+ * Exponential backoff delay with jitter
+ * @param retry - Number of the retry, starting at 1
+ * @param random - Random number between 0 and 1
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy, random: number = Math.random()): number {
+  const delay = policy.baseDelayMs * Math.pow(2, retry - 1);
+  const jittered = delay * (1 + policy.jitter * (2 * random - 1));
+  return Math.round(Math.min(policy.maxDelayMs, jittered));
+}
+
+/**
+ * Get how long to wait before retrying a failed request with the same model
+ * Network errors, rate limits (429) and server errors (5xx) are retried, other errors such as an exceeded context
+ * length or an invalid API key are not. A provider delay longer than the policy's maximum is not waited for.
+ * @param retry - Number of the retry, starting at 1
+ * @returns Milliseconds to wait, or undefined if the request should not be retried
+ */
+export function getRetryDelay(
+  err: unknown,
+  retry: number,
+  policy: RetryPolicy,
+  resetHeaders: string[],
+  now: number = Date.now(),
+  random: number = Math.random()
+): number | undefined {
+  const reason = getFallbackReason(err);
+  if (!reason || reason === CONTEXT_LENGTH_EXCEEDED) return undefined;
+
+  const providerDelay = getRetryAfterDelay(err, resetHeaders, now);
+  if (providerDelay !== undefined) {
+    return providerDelay <= policy.maxDelayMs ? providerDelay : undefined;
+  }
+
+  return getBackoffDelay(retry, policy, random);
+}
+
+/**
+ * Status bar text while waiting for a retry
+ */
+export function formatRetryStatus(
+  model: string,
+  reason: string,
+  remainingMs: number,
+  attempt: number,
+  maxAttempts: number
+): string {
+  const seconds = Math.ceil(remainingMs / 1000);
+  return `${model} ${reason}, retrying in ${seconds}s (attempt ${attempt} of ${maxAttempts})`;
+}
@@ -0,0 +1,105 @@
+import {
+  buildStructuredOutputInstruction,
+  createResponseFormat,
+  extractSchemaSource,
+  formatStructuredResponse,
+  getSchemaLinkTarget,
+  parseJsonResponse,
+  validateStructuredResponse,
+} from "./StructuredOutputHelpers";
+
+const personSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    age: { type: "integer", minimum: 0 },
+  },
+  required: ["name", "age"],
+};
+
+describe("getSchemaLinkTarget", () => {
+  it("reads wiki links, markdown links and unquoted wiki links", () => {
+    expect(getSchemaLinkTarget("[[Schemas/Person]]")).toBe("Schemas/Person");
+    expect(getSchemaLinkTarget("[[Person|person schema]]")).toBe("Person");
+    expect(getSchemaLinkTarget("[Person](Schemas/Person%20v2.md)")).toBe("Schemas/Person v2.md");
+    expect(getSchemaLinkTarget([["Person"]])).toBe("Person");
+  });
+
+  it("returns undefined for other values", () => {
+    expect(getSchemaLinkTarget("json")).toBeUndefined();
+    expect(getSchemaLinkTarget(personSchema)).toBeUndefined();
+  });
+});
+
+describe("extractSchemaSource", () => {
+  it("uses the first code block", () => {
+    expect(extractSchemaSource('# Person\n\n```json\n{"type": "object"}\n```\n\n```yaml\ntype: string\n```')).toBe(
+      '{"type": "object"}'
+    );
+  });
+
+  it("uses the note without frontmatter when there is no code block", () => {
+    expect(extractSchemaSource("---\ntags: schema\n---\ntype: object\n")).toBe("type: object");
+  });
+});
+
+describe("createResponseFormat", () => {
+  it("keeps the schema and its name", () => {
+    expect(createResponseFormat(personSchema, "Person")).toEqual({ schema: personSchema, name: "Person" });
+  });
+
+  it("reduces the name to characters accepted as schema name", () => {
+    expect(createResponseFormat(personSchema, "Person schema (v2)").name).toBe("Person_schema_v2_");
+  });
+
+  it("rejects values that are not a schema object", () => {
+    expect(() => createResponseFormat("text")).toThrow("Invalid response_format");
+    expect(() => createResponseFormat({ type: "nonsense" })).toThrow("Invalid response_format");
+  });
+});
+
+describe("parseJsonResponse", () => {
+  it("parses JSON with or without a code fence", () => {
+    expect(parseJsonResponse('{"a": 1}')).toEqual({ value: { a: 1 } });
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 } });
+  });
+
+  it("returns null for invalid JSON", () => {
+    expect(parseJsonResponse("Sure! Here is the data")).toBeNull();
+  });
+});
+
+describe("validateStructuredResponse", () => {
+  const format = { schema: personSchema };
+
+  it("accepts valid responses and any JSON without a schema", () => {
+    expect(validateStructuredResponse({ name: "Ada", age: 36 }, format)).toEqual([]);
+    expect(validateStructuredResponse([1, 2], {})).toEqual([]);
+  });
+
+  it("reports errors with their path", () => {
+    const errors = validateStructuredResponse({ name: 1, age: -1 }, format);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^name: /);
+    expect(errors[1]).toMatch(/^age: /);
+  });
+});
+
+describe("formatStructuredResponse", () => {
+  it("wraps the JSON in a code block", () => {
+    expect(formatStructuredResponse('{\n  "a": 1\n}', [])).toBe('```json\n{\n  "a": 1\n}\n```');
+  });
+
+  it("adds an error callout listing validation errors", () => {
+    expect(formatStructuredResponse("{}", ["name: Required"])).toBe(
+      "```json\n{}\n```\n\n> [!error] Response does not match response_format\n> - name: Required"
+    );
+  });
+});
+
+describe("buildStructuredOutputInstruction", () => {
+  it("includes the schema when there is one", () => {
+    expect(buildStructuredOutputInstruction({})).not.toContain("JSON Schema");
+    expect(buildStructuredOutputInstruction({ schema: personSchema })).toContain('"required":["name","age"]');
+  });
+});
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { ResponseFormat } from "src/Models/StructuredOutput";
+import { ErrorMessages } from "./ErrorMessageFormatter";
+import { removeYAMLFrontMatter } from "./YamlHelpers";
+
+/**
+ * Utility functions for structured output requested with the response_format frontmatter
+ */
+
+type JsonSchema = Parameters<typeof z.fromJSONSchema>[0];
+
+/**
+ * Get the target of a schema note link
+ * Accepts wiki links ("[[Schema]]"), markdown links ("[Schema](Schema.md)") and unquoted wiki links,
+ * which YAML reads as a nested list
+ * @returns Link target, or undefined if the value is not a link
+ */
+export function getSchemaLinkTarget(value: unknown): string | undefined {
+  if (Array.isArray(value) && value.length === 1 && Array.isArray(value[0]) && value[0].length === 1) {
+    return typeof value[0][0] === "string" ? value[0][0].trim() : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const text = value.trim();
+  const wikiLink = text.match(/^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/);
+  if (wikiLink) return wikiLink[1].trim();
+
+  const markdownLink = text.match(/^\[[^\]]*\]\(([^)]+)\)$/);
+  return markdownLink ? decodeURIComponent(markdownLink[1].trim()) : undefined;
+}
+
+/**
+ * Get the schema source from a schema note
+ * Uses the first code block, or the whole note without frontmatter
+ */
+export function extractSchemaSource(content: string): string {
+  const codeBlock = content.match(/```[\w-]*[ \t]*\n([\s\S]*?)\n```/);
+  return (codeBlock ? codeBlock[1] : (removeYAMLFrontMatter(content) ?? "")).trim();
+}
+
+/**
+ * Create a response format from a JSON Schema
+ * The name is reduced to the characters providers accept in schema names
+ * @throws If the schema is not an object or cannot be turned into a validator
+ */
+export function createResponseFormat(schema: unknown, name?: string): ResponseFormat {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error(ErrorMessages.STRUCTURED_OUTPUT.INVALID_SCHEMA("expected json or a JSON Schema object"));
+  }
+
+  try {
+    z.fromJSONSchema(schema as JsonSchema);
+  } catch (error) {
+    throw new Error(
+      ErrorMessages.STRUCTURED_OUTPUT.INVALID_SCHEMA(error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  return { schema: schema as Record<string, unknown>, name: name?.replace(/[^\w-]+/g, "_") };
+}
+
+/**
+ * Parse a JSON response, ignoring a surrounding code fence
+ * @returns The parsed value, or null if the text is not valid JSON
+ */
+export function parseJsonResponse(text: string): { value: unknown } | null {
+  const unfenced = text.trim().replace(/^```[\w-]*[ \t]*\n([\s\S]*?)\n?```$/, "$1");
+  try {
+    return { value: JSON.parse(unfenced) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a response against the schema of a response format
+ * @returns Validation errors as "path: message", empty when the response is valid
+ */
+export function validateStructuredResponse(value: unknown, format: ResponseFormat): string[] {
+  if (!format.schema) return [];
+
+  const result = z.fromJSONSchema(format.schema as JsonSchema).safeParse(value);
+  if (result.success) return [];
+
+  return result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Format a structured response for the note
+ * The JSON goes in a code block, validation errors in an error callout below it
+ */
+export function formatStructuredResponse(json: string, errors: string[]): string {
+  const codeBlock = `\`\`\`json\n${json}\n\`\`\``;
+  if (errors.length === 0) return codeBlock;
+
+  const callout = ["> [!error] Response does not match response_format", ...errors.map((error) => `> - ${error}`)];
+  return `${codeBlock}\n\n${callout.join("\n")}`;
+}
+
+/**
+ * Instruction asking for JSON, for providers without structured outputs
+ */
+export function buildStructuredOutputInstruction(format: ResponseFormat): string {
+  const instruction = "Respond only with valid JSON, without explanations or code fences.";
+  return format.schema
+    ? `${instruction} The JSON must match this JSON Schema:\n${JSON.stringify(format.schema)}`
+    : instruction;
+}
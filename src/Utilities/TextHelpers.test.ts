@@ -44,6 +44,12 @@ describe("extractRoleAndMessage", () => {
     expect(result.content).toBe("Line 1\nLine 2\nLine 3");
   });
 
+  it("extracts system role", () => {
+    const result = extractRoleAndMessage("role::system\nSummary");
+    expect(result.role).toBe("system");
+    expect(result.content).toBe("Summary");
+  });
+
   it("throws error for invalid role", () => {
     expect(() => extractRoleAndMessage("role::invalid\nMessage")).toThrow();
   });
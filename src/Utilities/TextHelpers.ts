@@ -5,13 +5,14 @@ import {
   ROLE_ASSISTANT,
   ROLE_DEVELOPER,
   ROLE_IDENTIFIER,
+  ROLE_SYSTEM,
   ROLE_USER,
 } from "src/Constants";
 
 const cleanupRole = (role: string): string => {
   const trimmedRole = role.trim().toLowerCase();
 
-  const roles = [ROLE_USER, ROLE_ASSISTANT, ROLE_DEVELOPER];
+  const roles = [ROLE_USER, ROLE_ASSISTANT, ROLE_DEVELOPER, ROLE_SYSTEM];
 
   const foundRole = roles.find((r) => trimmedRole.includes(r));
 
@@ -56,8 +57,10 @@ export const getHeadingPrefix = (headingLevel: number) => {
   return "#".repeat(headingLevel) + " ";
 };
 
+export const getModelLabel = (model?: string) => (model ? `<span style="font-size: small;"> (${model})</span>` : ``);
+
 export const getHeaderRole = (headingPrefix: string, role: string, model?: string) =>
-  `${NEWLINE}${HORIZONTAL_LINE_MD}${NEWLINE}${headingPrefix}${ROLE_IDENTIFIER}${role}${model ? `<span style="font-size: small;"> (${model})</span>` : ``}${NEWLINE}`;
+  `${NEWLINE}${HORIZONTAL_LINE_MD}${NEWLINE}${headingPrefix}${ROLE_IDENTIFIER}${role}${getModelLabel(model)}${NEWLINE}`;
 
 // Re-export from YamlHelpers for backward compatibility
 export { parseSettingsFrontmatter } from "./YamlHelpers";
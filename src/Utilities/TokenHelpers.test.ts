@@ -0,0 +1,36 @@
+import { estimateMessageTokens, estimateMessagesTokens, estimateTokens, IMAGE_TOKEN_ESTIMATE } from "./TokenHelpers";
+
+describe("estimateTokens", () => {
+  it("estimates four characters per token", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+
+  it("returns 0 for empty text", () => {
+    expect(estimateTokens("")).toBe(0);
+  });
+});
+
+describe("estimateMessageTokens", () => {
+  it("adds per-message overhead", () => {
+    expect(estimateMessageTokens({ role: "user", content: "abcd" })).toBe(5);
+  });
+
+  it("counts attached images", () => {
+    const image = { type: "image" as const, image: "", mediaType: "image/png", path: "a.png" };
+    expect(estimateMessageTokens({ role: "user", content: "", images: [image] })).toBe(IMAGE_TOKEN_ESTIMATE + 4);
+  });
+
+  it("counts persisted tool calls", () => {
+    const toolCall = { id: "call_1", name: "file_read", input: "ab", output: "abcd" };
+    expect(estimateMessageTokens({ role: "assistant", content: "", toolCalls: [toolCall] })).toBe(2 + 4);
+  });
+
+  it("sums messages", () => {
+    const messages = [
+      { role: "user", content: "abcd" },
+      { role: "assistant", content: "abcd" },
+    ];
+    expect(estimateMessagesTokens(messages)).toBe(10);
+  });
+});
@@ -0,0 +1,47 @@
+import { Message } from "src/Models/Message";
+
+/**
+ * Utility functions for estimating token counts
+ * Estimates are provider-agnostic and intentionally conservative
+ */
+
+/**
+ * Average number of characters per token for English text across common tokenizers
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * Rough token cost of an attached image (varies by provider and resolution)
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+/**
+ * Per-message overhead for role and formatting tokens
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimate the number of tokens a message uses in the request
+ */
+export function estimateMessageTokens(message: Message): number {
+  const imageTokens = (message.images?.length ?? 0) * IMAGE_TOKEN_ESTIMATE;
+  const toolTokens = (message.toolCalls ?? []).reduce(
+    (sum, call) => sum + estimateTokens(JSON.stringify(call.input ?? null)) + estimateTokens(call.output),
+    0
+  );
+  return estimateTokens(message.content) + imageTokens + toolTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimate the number of tokens of a list of messages
+ */
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
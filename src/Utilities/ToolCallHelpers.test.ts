@@ -0,0 +1,65 @@
+import { ToolCallRecord } from "src/Models/Message";
+import {
+  formatToolCallCallout,
+  formatToolCallCallouts,
+  parseToolCallCallout,
+  splitToolCallMessages,
+} from "./ToolCallHelpers";
+
+const search: ToolCallRecord = {
+  id: "call_1",
+  name: "vault_search",
+  input: { query: "meeting notes" },
+  output: "[vault_search result]\n\nFile: Notes/Meeting.md\n\nAgenda\n\n> quoted",
+};
+const read: ToolCallRecord = { id: "call_2", name: "file_read", input: { filePaths: ["a.md"] }, output: "Content" };
+
+describe("tool call callout", () => {
+  it("renders a collapsed callout with the call as JSON and the result", () => {
+    expect(formatToolCallCallout(read)).toBe(
+      '> [!tool]- file_read\n> ```json\n> {"id":"call_2","input":{"filePaths":["a.md"]}}\n> ```\n> Content'
+    );
+  });
+
+  it("round-trips tool calls", () => {
+    expect(parseToolCallCallout(formatToolCallCallout(search))).toEqual(search);
+  });
+
+  it("returns null for callouts without the call JSON", () => {
+    expect(parseToolCallCallout("> [!tool]- vault_search\n> no json here")).toBeNull();
+    expect(parseToolCallCallout("> [!tool]- vault_search\n> ```json\n> {broken\n> ```")).toBeNull();
+  });
+});
+
+describe("splitToolCallMessages", () => {
+  it("leaves messages without tool calls unchanged", () => {
+    const message = { role: "assistant", content: "Hello" };
+    expect(splitToolCallMessages(message)).toEqual([message]);
+  });
+
+  it("ignores tool callouts in user messages", () => {
+    const message = { role: "user", content: formatToolCallCallout(read) };
+    expect(splitToolCallMessages(message)).toEqual([message]);
+  });
+
+  it("attaches tool calls to the preceding text and splits off the continuation", () => {
+    const content = `Let me search.\n\n${formatToolCallCallouts([search, read])}\n\nHere is what I found.`;
+    expect(splitToolCallMessages({ role: "assistant", content })).toEqual([
+      { role: "assistant", content: "Let me search.", toolCalls: [search, read] },
+      { role: "assistant", content: "Here is what I found." },
+    ]);
+  });
+
+  it("supports tool calls without text before them", () => {
+    const content = `${formatToolCallCallout(read)}\n\nDone`;
+    expect(splitToolCallMessages({ role: "assistant", content })).toEqual([
+      { role: "assistant", content: "", toolCalls: [read] },
+      { role: "assistant", content: "Done" },
+    ]);
+  });
+
+  it("keeps callouts that cannot be parsed as text", () => {
+    const content = "Intro\n\n> [!tool]- custom\n> edited by hand";
+    expect(splitToolCallMessages({ role: "assistant", content })).toEqual([{ role: "assistant", content }]);
+  });
+});
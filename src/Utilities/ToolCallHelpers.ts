@@ -0,0 +1,103 @@
+import { ROLE_ASSISTANT, TOOL_CALL_CALLOUT_TYPE } from "src/Constants";
+import { Message, ToolCallRecord } from "src/Models/Message";
+
+/**
+ * Utility functions for tool calls persisted in chat notes
+ * Each tool call is written into the assistant message as a collapsed callout:
+ *
+ * > [!tool]- vault_search
+ * > ```json
+ * > {"id":"call_1","input":{"query":"meeting notes"}}
+ * > ```
+ * > [vault_search result]
+ * > ...
+ *
+ * The JSON line holds the call ID and arguments, everything after it is the result shared with the model.
+ */
+
+const TOOL_CALL_CALLOUT = new RegExp(`^> \\[!${TOOL_CALL_CALLOUT_TYPE}\\][^\\n]*(?:\\n>[^\\n]*)*`, "gm");
+const TOOL_CALL_TITLE = new RegExp(`^> \\[!${TOOL_CALL_CALLOUT_TYPE}\\]-?\\s*(.*)$`);
+const JSON_FENCE_START = "```json";
+const FENCE_END = "```";
+
+/**
+ * Render a tool call and its result as a collapsed callout
+ */
+export function formatToolCallCallout(record: ToolCallRecord): string {
+  return [
+    `> [!${TOOL_CALL_CALLOUT_TYPE}]- ${record.name}`,
+    `> ${JSON_FENCE_START}`,
+    `> ${JSON.stringify({ id: record.id, input: record.input ?? {} })}`,
+    `> ${FENCE_END}`,
+    ...record.output.split("\n").map((line) => `> ${line}`.trimEnd()),
+  ].join("\n");
+}
+
+/**
+ * Render several tool calls, separated by blank lines so each callout stays separate
+ */
+export function formatToolCallCallouts(records: ToolCallRecord[]): string {
+  return records.map(formatToolCallCallout).join("\n\n");
+}
+
+/**
+ * Parse a callout written by formatToolCallCallout
+ * Returns null if the callout does not follow the format
+ */
+export function parseToolCallCallout(callout: string): ToolCallRecord | null {
+  const [titleLine, ...bodyLines] = callout.split("\n");
+  const title = titleLine.match(TOOL_CALL_TITLE);
+  const lines = bodyLines.map((line) => line.replace(/^>\s?/, ""));
+  if (!title || lines[0] !== JSON_FENCE_START || lines[2] !== FENCE_END) {
+    return null;
+  }
+
+  try {
+    const { id, input } = JSON.parse(lines[1]);
+    return { id: String(id), name: title[1].trim(), input, output: lines.slice(3).join("\n").trim() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split an assistant message with tool call callouts into messages carrying their tool calls
+ * Text before and between the callouts becomes the content of the message that made the calls,
+ * text after the last callout becomes a new assistant message
+ */
+export function splitToolCallMessages(message: Message): Message[] {
+  if (message.role !== ROLE_ASSISTANT || !message.content.includes(`[!${TOOL_CALL_CALLOUT_TYPE}]`)) {
+    return [message];
+  }
+
+  const messages: Message[] = [];
+  let current: Message = { role: ROLE_ASSISTANT, content: "" };
+
+  const addText = (text: string) => {
+    if (!text.trim()) return;
+    if (current.toolCalls) {
+      messages.push(current);
+      current = { role: ROLE_ASSISTANT, content: "" };
+    }
+    current.content = current.content ? `${current.content}\n\n${text.trim()}` : text.trim();
+  };
+
+  let lastIndex = 0;
+  for (const match of message.content.matchAll(TOOL_CALL_CALLOUT)) {
+    addText(message.content.substring(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    const record = parseToolCallCallout(match[0]);
+    if (record) {
+      current.toolCalls = [...(current.toolCalls ?? []), record];
+    } else {
+      addText(match[0]);
+    }
+  }
+  addText(message.content.substring(lastIndex));
+
+  if (current.content || current.toolCalls) {
+    messages.push(current);
+  }
+  return messages;
+}
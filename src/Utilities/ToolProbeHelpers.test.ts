@@ -0,0 +1,89 @@
+import { ToolProbeResult, ToolProbeResults } from "src/Models/ToolProbe";
+import {
+  formatToolProbeSummary,
+  getProbedToolSupport,
+  getUnprobedModels,
+  isToolsUnsupportedError,
+  toFailedProbeResult,
+} from "./ToolProbeHelpers";
+
+const probedAt = "2026-10-01T00:00:00.000Z";
+
+const results: ToolProbeResults = {
+  "openai@gpt-4o": { status: "supported", probedAt },
+  "ollama@gemma2": { status: "unsupported", probedAt },
+  "openrouter@foo/bar": { status: "error", probedAt, error: "fetch failed" },
+};
+
+const apiError = (statusCode: number, message: string, responseBody?: string) =>
+  Object.assign(new Error(message), { name: "AI_APICallError", statusCode, responseBody });
+
+describe("getProbedToolSupport", () => {
+  it("uses supported and unsupported results", () => {
+    expect(getProbedToolSupport("openai@gpt-4o", results)).toBe(true);
+    expect(getProbedToolSupport("ollama@gemma2", results)).toBe(false);
+  });
+
+  it("leaves failed and missing probes to the whitelist", () => {
+    expect(getProbedToolSupport("openrouter@foo/bar", results)).toBeUndefined();
+    expect(getProbedToolSupport("openai@gpt-5", results)).toBeUndefined();
+    expect(getProbedToolSupport("openai@gpt-4o", undefined)).toBeUndefined();
+  });
+
+  it("lists models without a conclusive result", () => {
+    expect(
+      getUnprobedModels(["openai@gpt-4o", "ollama@gemma2", "openrouter@foo/bar", "openai@gpt-5"], results)
+    ).toEqual(["openrouter@foo/bar", "openai@gpt-5"]);
+  });
+});
+
+describe("isToolsUnsupportedError", () => {
+  it("detects providers rejecting tools", () => {
+    expect(
+      isToolsUnsupportedError(apiError(400, "registry.ollama.ai/library/gemma2:latest does not support tools"))
+    ).toBe(true);
+    expect(isToolsUnsupportedError(apiError(404, "No endpoints found that support tool use."))).toBe(true);
+    expect(
+      isToolsUnsupportedError(apiError(400, "Bad Request", '{"error":{"message":"tool_choice is not supported"}}'))
+    ).toBe(true);
+  });
+
+  it("unwraps AI SDK retry errors", () => {
+    const error = { name: "AI_RetryError", lastError: apiError(400, "This model does not support function calling") };
+    expect(isToolsUnsupportedError(error)).toBe(true);
+  });
+
+  it("ignores other failures", () => {
+    expect(isToolsUnsupportedError(apiError(401, "Invalid API key for tools"))).toBe(false);
+    expect(isToolsUnsupportedError(apiError(429, "Rate limit reached"))).toBe(false);
+    expect(isToolsUnsupportedError(apiError(400, "Invalid model"))).toBe(false);
+    expect(isToolsUnsupportedError(new Error("fetch failed"))).toBe(false);
+  });
+});
+
+describe("toFailedProbeResult", () => {
+  const now = new Date(probedAt);
+
+  it("records rejected tools as unsupported", () => {
+    expect(toFailedProbeResult(apiError(400, "model does not support tools"), now)).toEqual({
+      status: "unsupported",
+      probedAt,
+    });
+  });
+
+  it("records other failures as errors", () => {
+    expect(toFailedProbeResult(new Error("fetch failed"), now)).toEqual({
+      status: "error",
+      probedAt,
+      error: "fetch failed",
+    });
+  });
+});
+
+describe("formatToolProbeSummary", () => {
+  it("counts the results", () => {
+    const probes: ToolProbeResult[] = Object.values(results);
+    expect(formatToolProbeSummary(probes)).toBe("1 supports tools, 1 does not, 1 failed");
+    expect(formatToolProbeSummary([probes[0], probes[0]])).toBe("2 support tools, 0 do not");
+  });
+});
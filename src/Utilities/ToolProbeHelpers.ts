@@ -0,0 +1,68 @@
+import { ToolProbeResult, ToolProbeResults } from "src/Models/ToolProbe";
+import { getRootError } from "./FallbackHelpers";
+
+/**
+ * Utility functions for tool support probes
+ */
+
+const TOOLS_ERROR_PATTERN = /\btools?\b|tool[ _-]?(use|choice|call)|function[ _-]?call/i;
+
+/**
+ * Tool support of a model as measured by a probe
+ * @returns true or false for supported and unsupported results, undefined when the model was not probed or the
+ * probe failed, in which case the whitelist decides
+ */
+export function getProbedToolSupport(modelId: string, results: ToolProbeResults | undefined): boolean | undefined {
+  const result = results?.[modelId];
+  if (result?.status === "supported") return true;
+  if (result?.status === "unsupported") return false;
+  return undefined;
+}
+
+/**
+ * Whether a failed probe means the model does not support tools
+ * Providers reject tools with a client error mentioning them, e.g. "does not support tools" (Ollama) or
+ * "No endpoints found that support tool use" (OpenRouter)
+ */
+export function isToolsUnsupportedError(err: unknown): boolean {
+  const root = getRootError(err);
+  const status = Number(root?.statusCode ?? root?.status ?? root?.error?.status);
+  const text = `${root?.message ?? ""} ${root?.responseBody ?? ""}`;
+
+  return [400, 404, 422].includes(status) && TOOLS_ERROR_PATTERN.test(text);
+}
+
+/**
+ * Build the result of a probe that threw an error
+ */
+export function toFailedProbeResult(err: unknown, now: Date): ToolProbeResult {
+  if (isToolsUnsupportedError(err)) {
+    return { status: "unsupported", probedAt: now.toISOString() };
+  }
+
+  const root = getRootError(err);
+  return { status: "error", probedAt: now.toISOString(), error: String(root?.message ?? root) };
+}
+
+/**
+ * Models without a supported or unsupported probe result, including models whose probe failed
+ */
+export function getUnprobedModels(models: string[], results: ToolProbeResults | undefined): string[] {
+  return models.filter((model) => getProbedToolSupport(model, results) === undefined);
+}
+
+/**
+ * Summarize probe results for a notice (e.g., "2 support tools, 1 does not, 1 failed")
+ */
+export function formatToolProbeSummary(results: ToolProbeResult[]): string {
+  const count = (status: ToolProbeResult["status"]) => results.filter((result) => result.status === status).length;
+  const supported = count("supported");
+  const unsupported = count("unsupported");
+  const failed = count("error");
+
+  return [
+    `${supported} ${supported === 1 ? "supports" : "support"} tools`,
+    `${unsupported} ${unsupported === 1 ? "does" : "do"} not`,
+    ...(failed > 0 ? [`${failed} failed`] : []),
+  ].join(", ");
+}
@@ -0,0 +1,194 @@
+import {
+  addUsage,
+  calculateCost,
+  findModelPricing,
+  formatBudgetStatus,
+  formatComparisonLabel,
+  formatCost,
+  formatLatency,
+  formatUsageLabel,
+  getBudgetState,
+  parseBudget,
+  parsePriceTable,
+  parseProviderBudgets,
+  sumLedgerCost,
+} from "./UsageHelpers";
+
+describe("parsePriceTable", () => {
+  it("parses one model pattern per line", () => {
+    expect(parsePriceTable("gpt-4o: 2.5, 10\n# comment\n\nclaude-*: 3,15")).toEqual([
+      { pattern: "gpt-4o", pricing: { input: 2.5, output: 10 } },
+      { pattern: "claude-*", pricing: { input: 3, output: 15 } },
+    ]);
+  });
+
+  it("keeps colons in model IDs", () => {
+    expect(parsePriceTable("ollama@llama3:8b: 0, 0")[0].pattern).toBe("ollama@llama3:8b");
+  });
+
+  it("skips invalid lines", () => {
+    expect(parsePriceTable("gpt-4o\ngpt-4o: cheap, 1\n: 1, 2")).toEqual([]);
+  });
+});
+
+describe("findModelPricing", () => {
+  const table = parsePriceTable("openrouter@openai/*: 1, 2\ngpt-4o-mini: 0.15, 0.6\ngpt-4o*: 2.5, 10");
+
+  it("matches model names without provider prefix", () => {
+    expect(findModelPricing("openai@gpt-4o-mini", table)).toEqual({ input: 0.15, output: 0.6 });
+  });
+
+  it("matches wildcards against the full model ID", () => {
+    expect(findModelPricing("openrouter@openai/gpt-4o", table)).toEqual({ input: 1, output: 2 });
+  });
+
+  it("uses the first matching entry", () => {
+    expect(findModelPricing("gpt-4o-2024-08-06", table)).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(findModelPricing("claude-sonnet-4", table)).toBeUndefined();
+  });
+});
+
+describe("cost", () => {
+  it("calculates cost from prices per million tokens", () => {
+    expect(calculateCost({ inputTokens: 1000, outputTokens: 500 }, { input: 2.5, output: 10 })).toBe(0.0075);
+  });
+
+  it("formats small and large costs", () => {
+    expect(formatCost(0.0075)).toBe("$0.0075");
+    expect(formatCost(1.234)).toBe("$1.23");
+  });
+});
+
+describe("usage", () => {
+  it("adds usages", () => {
+    expect(addUsage({ inputTokens: 1, outputTokens: 2 }, { inputTokens: 3, outputTokens: 4 })).toEqual({
+      inputTokens: 4,
+      outputTokens: 6,
+    });
+  });
+
+  it("formats a header label", () => {
+    expect(formatUsageLabel({ inputTokens: 1200, outputTokens: 300 }, 0.0075)).toBe(
+      '<span class="chatgpt-md-usage" style="font-size: small;"> · 1200 in · 300 out · $0.0075</span>'
+    );
+  });
+});
+
+describe("parseBudget", () => {
+  it("parses numbers and numeric strings", () => {
+    expect(parseBudget(5)).toBe(5);
+    expect(parseBudget("2.5")).toBe(2.5);
+  });
+
+  it("treats missing, invalid and zero budgets as disabled", () => {
+    expect(parseBudget(undefined)).toBeUndefined();
+    expect(parseBudget("")).toBeUndefined();
+    expect(parseBudget("lots")).toBeUndefined();
+    expect(parseBudget(0)).toBeUndefined();
+  });
+});
+
+describe("parseProviderBudgets", () => {
+  it("parses one provider budget per line", () => {
+    expect(parseProviderBudgets("# provider: USD\nOpenAI: 50\n\nanthropic: 20.5")).toEqual({
+      openai: 50,
+      anthropic: 20.5,
+    });
+  });
+
+  it("skips invalid lines", () => {
+    expect(parseProviderBudgets("openai\ngemini: free\n: 10\nollama: 0")).toEqual({});
+  });
+});
+
+describe("sumLedgerCost", () => {
+  const entries = [
+    {
+      timestamp: "2026-03-01T10:00:00.000Z",
+      chat: "a.md",
+      provider: "openai",
+      model: "gpt-4o",
+      tokens_in: 1,
+      tokens_out: 1,
+      cost_usd: 1,
+    },
+    {
+      timestamp: "2026-03-02T10:00:00.000Z",
+      chat: "a.md",
+      provider: "openai",
+      model: "gpt-4o",
+      tokens_in: 1,
+      tokens_out: 1,
+      cost_usd: 0.25,
+    },
+    {
+      timestamp: "2026-03-02T11:00:00.000Z",
+      chat: "b.md",
+      provider: "anthropic",
+      model: "claude",
+      tokens_in: 1,
+      tokens_out: 1,
+      cost_usd: 2,
+    },
+    {
+      timestamp: "2026-03-02T12:00:00.000Z",
+      chat: "b.md",
+      provider: "ollama",
+      model: "llama3",
+      tokens_in: 1,
+      tokens_out: 1,
+    },
+  ];
+
+  it("sums costs since a point in time", () => {
+    expect(sumLedgerCost(entries, new Date("2026-03-02T00:00:00.000Z"))).toBe(2.25);
+  });
+
+  it("filters by provider", () => {
+    expect(sumLedgerCost(entries, new Date(0), "OpenAI")).toBe(1.25);
+  });
+});
+
+describe("getBudgetState", () => {
+  it("is ok below the warning threshold", () => {
+    expect(getBudgetState(3, 5, 80)).toBe("ok");
+  });
+
+  it("warns at the threshold", () => {
+    expect(getBudgetState(4, 5, 80)).toBe("warning");
+  });
+
+  it("is exceeded once spending reaches the budget", () => {
+    expect(getBudgetState(5, 5, 80)).toBe("exceeded");
+  });
+});
+
+describe("formatBudgetStatus", () => {
+  it("shows spending against the budget", () => {
+    expect(formatBudgetStatus({ name: "Daily budget", spent: 4.2, limit: 5, state: "warning" })).toBe(
+      "Daily budget: $4.20 of $5.00"
+    );
+  });
+});
+
+describe("formatLatency", () => {
+  it("uses milliseconds below a second and seconds above", () => {
+    expect(formatLatency(850.4)).toBe("850 ms");
+    expect(formatLatency(2345)).toBe("2.3 s");
+  });
+});
+
+describe("formatComparisonLabel", () => {
+  it("includes latency, tokens and cost", () => {
+    expect(formatComparisonLabel(1200, { inputTokens: 10, outputTokens: 5 }, 0.5)).toBe(
+      '<span class="chatgpt-md-usage" style="font-size: small;"> · 1.2 s · 10 in · 5 out · $0.50</span>'
+    );
+  });
+
+  it("shows only the latency without usage", () => {
+    expect(formatComparisonLabel(300)).toContain("> · 300 ms</span>");
+  });
+});
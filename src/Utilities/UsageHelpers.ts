@@ -0,0 +1,175 @@
+import {
+  BudgetState,
+  BudgetStatus,
+  ModelPricing,
+  PriceTableEntry,
+  TokenUsage,
+  UsageLedgerEntry,
+} from "src/Models/Usage";
+
+/**
+ * Utility functions for token usage and cost calculation
+ */
+
+/**
+ * Convert AI SDK usage, where counts may be missing, into token usage
+ */
+export function toTokenUsage(usage: { inputTokens?: number; outputTokens?: number } | undefined): TokenUsage {
+  return { inputTokens: usage?.inputTokens ?? 0, outputTokens: usage?.outputTokens ?? 0 };
+}
+
+/**
+ * Whether any tokens were counted
+ */
+export function hasUsage(usage: TokenUsage): boolean {
+  return usage.inputTokens > 0 || usage.outputTokens > 0;
+}
+
+/**
+ * Add two token usages
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+/**
+ * Parse the Model Prices setting
+ * One "model-pattern: input, output" entry per line, prices in USD per million tokens
+ * Empty lines, comments (#) and invalid lines are skipped
+ */
+export function parsePriceTable(text: string): PriceTableEntry[] {
+  return (text || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .flatMap((line) => {
+      const separator = line.lastIndexOf(":");
+      if (separator <= 0) return [];
+
+      const [input, output] = line
+        .substring(separator + 1)
+        .split(",")
+        .map((value) => Number(value.trim()));
+      if (!Number.isFinite(input) || !Number.isFinite(output)) return [];
+
+      return [{ pattern: line.substring(0, separator).trim(), pricing: { input, output } }];
+    });
+}
+
+/**
+ * Find the price of a model in the price table
+ * Patterns match the full model ID (e.g., "openai@gpt-4o") or the model name without provider prefix,
+ * a trailing "*" matches any suffix. The first matching entry wins.
+ */
+export function findModelPricing(modelId: string, priceTable: PriceTableEntry[]): ModelPricing | undefined {
+  const candidates = [modelId, modelId.substring(modelId.indexOf("@") + 1)];
+  const matches = (pattern: string) =>
+    candidates.some((candidate) =>
+      pattern.endsWith("*") ? candidate.startsWith(pattern.slice(0, -1)) : candidate === pattern
+    );
+
+  return priceTable.find((entry) => matches(entry.pattern))?.pricing;
+}
+
+/**
+ * Calculate the cost of token usage in USD
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return roundCost((usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000);
+}
+
+/**
+ * Round a cost in USD to millionths of a dollar to avoid floating point noise in totals
+ */
+export function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Format a cost in USD for display
+ */
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Label appended to an assistant header with the usage and cost of the response
+ * Uses its own class so it is not mistaken for the model label
+ */
+export function formatUsageLabel(usage: TokenUsage, cost?: number): string {
+  const costText = cost === undefined ? "" : ` · ${formatCost(cost)}`;
+  return `<span class="chatgpt-md-usage" style="font-size: small;"> · ${usage.inputTokens} in · ${usage.outputTokens} out${costText}</span>`;
+}
+
+/**
+ * Parse a budget in USD from a setting or frontmatter value
+ * @returns The budget, or undefined if it is missing, invalid or not above zero (disabled)
+ */
+export function parseBudget(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const budget = Number(value);
+  return Number.isFinite(budget) && budget > 0 ? budget : undefined;
+}
+
+/**
+ * Parse the Provider Budgets setting into budgets in USD keyed by lowercase provider
+ * Format: one "provider: amount" entry per line, lines starting with "#" are comments
+ */
+export function parseProviderBudgets(text: string): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const line of (text || "").split("\n").map((value) => value.trim())) {
+    if (!line || line.startsWith("#")) continue;
+
+    const separator = line.lastIndexOf(":");
+    const budget = parseBudget(line.substring(separator + 1).trim());
+    if (separator <= 0 || budget === undefined) continue;
+
+    budgets[line.substring(0, separator).trim().toLowerCase()] = budget;
+  }
+  return budgets;
+}
+
+/**
+ * Sum the cost of ledger entries recorded at or after a point in time
+ * @param provider - Only count entries of this provider (case-insensitive)
+ */
+export function sumLedgerCost(entries: UsageLedgerEntry[], since: Date, provider?: string): number {
+  const total = entries
+    .filter((entry) => new Date(entry.timestamp).getTime() >= since.getTime())
+    .filter((entry) => !provider || entry.provider?.toLowerCase() === provider.toLowerCase())
+    .reduce((sum, entry) => sum + (Number(entry.cost_usd) || 0), 0);
+  return roundCost(total);
+}
+
+/**
+ * Get the state of a budget
+ * @param warningThreshold - Percentage of the budget at which to warn
+ */
+export function getBudgetState(spent: number, limit: number, warningThreshold: number): BudgetState {
+  if (spent >= limit) return "exceeded";
+  return spent >= (limit * warningThreshold) / 100 ? "warning" : "ok";
+}
+
+/**
+ * Describe the spending against a budget (e.g., "Daily budget: $4.20 of $5.00")
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  return `${status.name}: ${formatCost(status.spent)} of ${formatCost(status.limit)}`;
+}
+
+/**
+ * Format a duration for display (e.g., "850 ms", "2.3 s")
+ */
+export function formatLatency(milliseconds: number): string {
+  return milliseconds < 1000 ? `${Math.round(milliseconds)} ms` : `${(milliseconds / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Label appended to an assistant header of a model comparison with the latency, usage and cost of the answer
+ */
+export function formatComparisonLabel(latencyMs: number, usage?: TokenUsage, cost?: number): string {
+  const parts = [formatLatency(latencyMs)];
+  if (usage) parts.push(`${usage.inputTokens} in`, `${usage.outputTokens} out`);
+  if (cost !== undefined) parts.push(formatCost(cost));
+  return `<span class="chatgpt-md-usage" style="font-size: small;"> · ${parts.join(" · ")}</span>`;
+}
@@ -39,6 +39,15 @@ export function removeYAMLFrontMatter(note: string | undefined): string | undefi
     .trim();
 }
 
+/**
+ * Get the offset where the content after the YAML frontmatter starts
+ * Returns 0 when the note has no frontmatter
+ */
+export function getYAMLFrontMatterEnd(note: string): number {
+  const match = note.match(/^\s*---\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/);
+  return match ? match[0].length : 0;
+}
+
 /**
  * Parse YAML frontmatter string into key-value object
  * Handles inline arrays, multi-line arrays, booleans, numbers, and strings
@@ -2,9 +2,28 @@ import { App, Editor, Notice, SuggestModal } from "obsidian";
 import { EditorService } from "../Services/EditorService";
 import { ChatGPT_MDSettings } from "src/Models/Config";
 import { isModelWhitelisted } from "src/Services/ToolSupportDetector";
+import { getProbedToolSupport } from "src/Utilities/ToolProbeHelpers";
+import { ModelCatalogService } from "src/Services/ModelCatalogService";
+import { SettingsService } from "src/Services/SettingsService";
+import {
+  addRecentModel,
+  buildModelSuggestions,
+  formatContextLength,
+  formatModelPricing,
+  ModelPickerEntry,
+  ModelSuggestion,
+  toggleFavoriteModel,
+} from "src/Utilities/ModelPickerHelpers";
 
-export class AiModelSuggestModal extends SuggestModal<string> {
+/**
+ * Model picker
+ * Lists favorites and recently used models first, then the other models grouped by provider, with their
+ * context length, price and capabilities from the model catalog. "#tools", "#vision" and "#favorites" in the
+ * query filter the list.
+ */
+export class AiModelSuggestModal extends SuggestModal<ModelSuggestion> {
   private modelNames: string[];
+  private entries: ModelPickerEntry[];
   private editor: Editor;
   private editorService: EditorService;
   private settings: ChatGPT_MDSettings;
@@ -14,44 +33,81 @@ export class AiModelSuggestModal extends SuggestModal<string> {
     editor: Editor,
     editorService: EditorService,
     modelNames: string[] = [],
-    settings: ChatGPT_MDSettings
+    settings: ChatGPT_MDSettings,
+    private settingsService: SettingsService,
+    modelCatalogService: ModelCatalogService
   ) {
     super(app);
     this.modelNames = modelNames;
     this.editor = editor;
     this.editorService = editorService;
     this.settings = settings;
+    this.entries = modelNames.map((model) => this.createEntry(model, modelCatalogService));
     this.limit = this.modelNames.length;
     if (this.modelNames.length > 0) {
       this.setPlaceholder("Select Large Language Model");
     } else {
       this.setPlaceholder("Loading available models...");
     }
+    this.setInstructions([
+      { command: "#tools #vision #favorites", purpose: "to filter" },
+      { command: "☆", purpose: "to star a model" },
+    ]);
   }
 
-  getSuggestions(query: string): string[] {
-    return this.modelNames.filter((model) => model.toLowerCase().includes(query.toLowerCase()));
+  getSuggestions(query: string): ModelSuggestion[] {
+    return buildModelSuggestions(this.entries, query, this.settings.favoriteModels, this.settings.recentModels);
   }
 
-  renderSuggestion(model: string, el: HTMLElement) {
+  renderSuggestion(suggestion: ModelSuggestion, el: HTMLElement) {
+    if (suggestion.groupStart) {
+      el.createEl("div", { cls: "ai-model-group-heading", text: suggestion.group });
+    }
+
     const container = el.createEl("div", { cls: "ai-model-suggestion" });
     container.style.display = "flex";
     container.style.alignItems = "center";
     container.style.gap = "8px";
 
-    container.createEl("span", { text: model });
+    const star = container.createEl("span", { cls: "ai-model-favorite", text: suggestion.favorite ? "★" : "☆" });
+    star.title = suggestion.favorite ? "Remove from favorites" : "Add to favorites";
+    star.addEventListener("click", (event) => {
+      // Keep the modal open instead of choosing the model
+      event.preventDefault();
+      event.stopPropagation();
+      void this.toggleFavorite(suggestion.id);
+    });
+
+    container.createEl("span", { text: suggestion.id });
+
+    const details = [
+      suggestion.info?.contextLength ? formatContextLength(suggestion.info.contextLength) : undefined,
+      suggestion.info?.pricing ? formatModelPricing(suggestion.info.pricing) : undefined,
+    ].filter(Boolean);
+    if (details.length > 0) {
+      container.createEl("span", { cls: "ai-model-details", text: details.join(" · ") });
+    }
 
     // Enhanced tool indicator badge if tool calling is enabled and model supports tools
-    if (this.settings?.enableToolCalling && isModelWhitelisted(model, this.settings.toolEnabledModels)) {
+    if (this.settings?.enableToolCalling && suggestion.supportsTools) {
       const badge = container.createEl("span", {
         cls: "ai-model-tool-badge",
         text: "Tools",
       });
       badge.title = "This model supports tool calling (vault search, file read, web search)";
     }
+
+    if (suggestion.supportsVision) {
+      const badge = container.createEl("span", {
+        cls: "ai-model-vision-badge",
+        text: "Vision",
+      });
+      badge.title = "This model accepts images";
+    }
   }
 
-  async onChooseSuggestion(modelName: string, evt: MouseEvent | KeyboardEvent) {
+  async onChooseSuggestion(suggestion: ModelSuggestion, evt: MouseEvent | KeyboardEvent) {
+    const modelName = suggestion.id;
     if (this.modelNames.indexOf(modelName) === -1 || this.modelNames.length === 0) {
       return;
     }
@@ -59,9 +115,39 @@ export class AiModelSuggestModal extends SuggestModal<string> {
     new Notice(`Selected model: ${modelName}`);
     try {
       await this.editorService.setModel(this.editor, modelName);
+      await this.saveModelLists({ recentModels: addRecentModel(this.settings.recentModels, modelName) });
     } catch (error) {
       console.error("[ChatGPT MD] Error setting model in frontmatter:", error);
       new Notice(`Error setting model: ${error.message}`);
     }
   }
+
+  /**
+   * Describe a model with its catalog metadata
+   * Tool support follows the probe results and the tool-enabled models setting, so changes to them apply before the
+   * catalog is refreshed
+   */
+  private createEntry(model: string, modelCatalogService: ModelCatalogService): ModelPickerEntry {
+    const info = modelCatalogService.getModel(model);
+    return {
+      id: model,
+      provider: info?.provider ?? model.split("@")[0],
+      info,
+      supportsTools:
+        getProbedToolSupport(model, this.settings.toolProbeResults) ??
+        (isModelWhitelisted(model, this.settings.toolEnabledModels) || !!info?.supportsTools),
+      supportsVision: !!info?.modalities.includes("image"),
+    };
+  }
+
+  private async toggleFavorite(model: string): Promise<void> {
+    await this.saveModelLists({ favoriteModels: toggleFavoriteModel(this.settings.favoriteModels, model) });
+    // Render the suggestions again with the new favorites
+    this.inputEl.dispatchEvent(new Event("input"));
+  }
+
+  private async saveModelLists(lists: Pick<Partial<ChatGPT_MDSettings>, "favoriteModels" | "recentModels">) {
+    this.settingsService.updateSettings(lists);
+    await this.settingsService.saveSettings();
+  }
 }
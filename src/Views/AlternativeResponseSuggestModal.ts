@@ -0,0 +1,44 @@
+import { App, SuggestModal } from "obsidian";
+import { AlternativeResponse } from "src/Utilities/AlternativeResponseHelpers";
+
+interface AlternativeItem {
+  index: number;
+  alternative: AlternativeResponse;
+}
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Modal for choosing an alternative response to promote
+ */
+export class AlternativeResponseSuggestModal extends SuggestModal<AlternativeItem> {
+  private items: AlternativeItem[];
+
+  constructor(
+    app: App,
+    alternatives: AlternativeResponse[],
+    private onChoose: (index: number) => void
+  ) {
+    super(app);
+    this.items = alternatives.map((alternative, index) => ({ index, alternative }));
+    this.limit = this.items.length;
+    this.setPlaceholder("Select the response to promote");
+  }
+
+  getSuggestions(query: string): AlternativeItem[] {
+    if (!query) return this.items;
+    return this.items.filter((item) => item.alternative.content.toLowerCase().includes(query.toLowerCase()));
+  }
+
+  renderSuggestion(item: AlternativeItem, el: HTMLElement): void {
+    const preview = item.alternative.content.replace(/\s+/g, " ").trim();
+    el.createEl("div", { text: `${item.index + 1}. ${item.alternative.model || "Response"}` });
+    el.createEl("small", {
+      text: preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH - 3)}...` : preview,
+    });
+  }
+
+  onChooseSuggestion(item: AlternativeItem): void {
+    this.onChoose(item.index);
+  }
+}
@@ -0,0 +1,63 @@
+import { App, Modal, Setting } from "obsidian";
+import { BudgetStatus } from "src/Models/Usage";
+import { formatBudgetStatus } from "src/Utilities/UsageHelpers";
+
+/**
+ * Asks whether to send a request although a spending budget is exceeded
+ * Resolves to false when the modal is closed without confirming
+ */
+export class BudgetOverrideModal extends Modal {
+  private result = false;
+  private modalPromise: Promise<boolean>;
+  private resolveModalPromise: (value: boolean) => void;
+
+  constructor(
+    app: App,
+    private exceededBudgets: BudgetStatus[]
+  ) {
+    super(app);
+    this.modalPromise = new Promise((resolve) => {
+      this.resolveModalPromise = resolve;
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: "[ChatGPT MD] Spending budget reached" });
+
+    const list = contentEl.createEl("ul");
+    for (const budget of this.exceededBudgets) {
+      list.createEl("li", { text: formatBudgetStatus(budget) });
+    }
+
+    contentEl.createEl("p", {
+      text: "Send this request anyway? Its cost is added to the totals above.",
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText("Cancel").onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText("Send anyway")
+          .setWarning()
+          .onClick(() => {
+            this.result = true;
+            this.close();
+          })
+      );
+  }
+
+  waitForModalValue(): Promise<boolean> {
+    return this.modalPromise;
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolveModalPromise(this.result);
+  }
+}
@@ -1,8 +1,16 @@
-import { App, Plugin, PluginSettingTab, Setting } from "obsidian";
-import { ChatGPT_MDSettings } from "src/Models/Config";
-import { DEFAULT_DATE_FORMAT, ROLE_IDENTIFIER, ROLE_USER } from "src/Constants";
+import { App, Plugin, PluginSettingTab, Setting, TextAreaComponent, TextComponent } from "obsidian";
+import { ChatGPT_MDSettings, CustomProviderConfig } from "src/Models/Config";
+import {
+  DEFAULT_AZURE_API_VERSION,
+  DEFAULT_CUSTOM_PROVIDER_MODELS_ENDPOINT,
+  DEFAULT_CUSTOM_PROVIDER_PATH_SUFFIX,
+  DEFAULT_DATE_FORMAT,
+  ROLE_IDENTIFIER,
+  ROLE_USER,
+} from "src/Constants";
 import {
   DEFAULT_ANTHROPIC_CONFIG,
+  DEFAULT_AZURE_CONFIG,
   DEFAULT_GEMINI_CONFIG,
   DEFAULT_LMSTUDIO_CONFIG,
   DEFAULT_OLLAMA_CONFIG,
@@ -26,6 +34,54 @@ interface SettingsProvider {
   saveSettings: () => Promise<void>;
 }
 
+// Fields of a custom provider, rendered in its collapsible section
+const CUSTOM_PROVIDER_FIELDS: {
+  key: keyof CustomProviderConfig;
+  name: string;
+  description: string;
+  placeholder: string;
+  multiline?: boolean;
+}[] = [
+  {
+    key: "name",
+    name: "Name",
+    description: "Used as model prefix (name@model). Lowercase letters, digits, - and _.",
+    placeholder: "groq",
+  },
+  {
+    key: "url",
+    name: "Base URL",
+    description: "Base URL of the API, without the path suffix",
+    placeholder: "https://api.groq.com/openai",
+  },
+  {
+    key: "pathSuffix",
+    name: "Path Suffix",
+    description: "Path appended to the base URL for chat requests. Leave empty if the base URL already includes it.",
+    placeholder: DEFAULT_CUSTOM_PROVIDER_PATH_SUFFIX,
+  },
+  {
+    key: "apiKey",
+    name: "API Key",
+    description: "Sent as Bearer token. Leave empty if the provider does not need a key.",
+    placeholder: "your API key",
+  },
+  {
+    key: "headers",
+    name: "Extra Headers",
+    description: "Headers sent with every request, one 'Name: value' entry per line",
+    placeholder: "X-Team: research",
+    multiline: true,
+  },
+  {
+    key: "modelsEndpoint",
+    name: "Models Endpoint",
+    description:
+      "Path of the model list relative to the base URL, for the model picker. Leave empty to not list models.",
+    placeholder: DEFAULT_CUSTOM_PROVIDER_MODELS_ENDPOINT,
+  },
+];
+
 // Groups that should be collapsible (provider-specific settings)
 const COLLAPSIBLE_GROUPS = [
   "OpenAI",
@@ -33,6 +89,7 @@ const COLLAPSIBLE_GROUPS = [
   "Gemini",
   "OpenRouter",
   "Z.AI",
+  "Azure OpenAI",
   "Ollama (Local)",
   "LM Studio (Local)",
 ];
@@ -100,6 +157,14 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
         placeholder: "your Z.AI API Key",
         group: "API Keys",
       },
+      {
+        id: "azureApiKey",
+        name: "Azure OpenAI API Key",
+        description: "API Key of your Azure OpenAI resource (Keys and Endpoint in the Azure portal)",
+        type: "text",
+        placeholder: "your Azure OpenAI API Key",
+        group: "API Keys",
+      },
 
       // Chat Behavior
       {
@@ -140,6 +205,54 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
         type: "toggle",
         group: "Chat Behavior",
       },
+      {
+        id: "archiveOnResend",
+        name: "Archive Messages on Resend",
+        description:
+          "When resending an edited message, keep the removed later messages in a comment block instead of deleting them",
+        type: "toggle",
+        group: "Chat Behavior",
+      },
+      {
+        id: "fallbackModels",
+        name: "Fallback Models",
+        description:
+          "Comma-separated models to try in order when a request fails with a network error, rate limit (429), " +
+          "server error (5xx) or exceeded context length. Override per note with fallback_models in frontmatter.",
+        type: "text",
+        placeholder: "openrouter@openai/gpt-4o-mini, ollama@llama3.2",
+        group: "Chat Behavior",
+      },
+      {
+        id: "retryMaxAttempts",
+        name: "Retry Attempts",
+        description:
+          "Attempts per model when a request fails with a network error, rate limit (429) or server error (5xx), " +
+          "including the first request. Set to 1 to turn off retries.",
+        type: "text",
+        placeholder: "3",
+        group: "Chat Behavior",
+      },
+      {
+        id: "retryBaseDelay",
+        name: "Retry Delay",
+        description:
+          "Seconds to wait before the first retry, doubled for each further retry. " +
+          "When the provider sends Retry-After or rate limit reset headers, their delay is used instead.",
+        type: "text",
+        placeholder: "2",
+        group: "Chat Behavior",
+      },
+      {
+        id: "retryMaxDelay",
+        name: "Max Retry Delay",
+        description:
+          "Longest wait before a retry in seconds. When the provider asks to wait longer, the request fails " +
+          "(or falls back to the next model) instead.",
+        type: "text",
+        placeholder: "60",
+        group: "Chat Behavior",
+      },
       {
         id: "inferTitleLanguage",
         name: "Infer Title Language",
@@ -159,6 +272,28 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
         group: "Chat Behavior",
       },
 
+      // Model List
+      {
+        id: "modelCatalogTtlHours",
+        name: "Model List Refresh Interval (hours)",
+        description:
+          "Model lists and their metadata are saved in the plugin data, so the model picker opens instantly and works offline. " +
+          "Providers are asked for their models again after this many hours, or with the 'Refresh model list' command.",
+        type: "text",
+        placeholder: "24",
+        group: "Model List",
+      },
+      {
+        id: "modelCatalogProviderTtls",
+        name: "Provider Refresh Intervals",
+        description:
+          "Refresh intervals overriding the one above. Format: one 'provider: hours' entry per line. " +
+          "0 fetches the models every time the model picker opens.",
+        type: "textarea",
+        placeholder: "ollama: 0\nlmstudio: 0",
+        group: "Model List",
+      },
+
       // OpenAI Defaults
       {
         id: "openaiUrl",
@@ -329,6 +464,57 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
         group: "Z.AI",
       },
 
+      // Azure OpenAI Defaults
+      {
+        id: "azureUrl",
+        name: "Resource URL",
+        description: "Endpoint of your Azure OpenAI resource, e.g. https://my-resource.openai.azure.com",
+        type: "text",
+        placeholder: "https://my-resource.openai.azure.com",
+        group: "Azure OpenAI",
+      },
+      {
+        id: "azureApiVersion",
+        name: "API Version",
+        description: `api-version of Azure OpenAI requests\nDefault: ${DEFAULT_AZURE_API_VERSION}`,
+        type: "text",
+        placeholder: DEFAULT_AZURE_API_VERSION,
+        group: "Azure OpenAI",
+      },
+      {
+        id: "azureDeployments",
+        name: "Deployments",
+        description:
+          "Your deployments and the models behind them, one 'deployment: model' entry per line. Used as model list and to detect tool and image support. Deployments of the resource are also listed automatically.",
+        type: "textarea",
+        placeholder: "my-gpt4o: gpt-4o\nreasoning: o4-mini",
+        group: "Azure OpenAI",
+      },
+      {
+        id: "azureDefaultModel",
+        name: "Default Model",
+        description: "Default deployment for Azure OpenAI chats (e.g., azure@my-gpt4o)",
+        type: "text",
+        placeholder: DEFAULT_AZURE_CONFIG.model,
+        group: "Azure OpenAI",
+      },
+      {
+        id: "azureDefaultTemperature",
+        name: "Default Temperature",
+        description: "Default temperature for Azure OpenAI chats (0.0 to 2.0)",
+        type: "text",
+        placeholder: "0.7",
+        group: "Azure OpenAI",
+      },
+      {
+        id: "azureDefaultMaxTokens",
+        name: "Default Max Tokens",
+        description: "Default max tokens for Azure OpenAI chats",
+        type: "text",
+        placeholder: "400",
+        group: "Azure OpenAI",
+      },
+
       // Ollama Defaults (Local)
       {
         id: "ollamaUrl",
@@ -410,13 +596,22 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
       // Tool Calling
       {
         id: "enableToolCalling",
-        name: "Enable AI Tool Calling (Experimental, read only)",
+        name: "Enable AI Tool Calling (Experimental)",
         description:
           "Privacy Focus: All tool calls require your explicit approval before the LLM sees the data. " +
           "Allow the AI to use tools: Search files, Read file contents, Web Search (Privacy focused Brave Search API). ",
         type: "toggle",
         group: "Tool Calling",
       },
+      {
+        id: "enableNoteWriteTools",
+        name: "Allow Note Writing",
+        description:
+          "Let the AI create new notes and append text to existing notes. You review and can edit the exact content " +
+          "and path before anything is written. Run 'Undo last note change' to revert a write.",
+        type: "toggle",
+        group: "Tool Calling",
+      },
       {
         id: "toolEnabledModels",
         name: "Tool-Enabled Models",
@@ -424,11 +619,22 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
           "Models allowed to use tools (vault search, file read, web search).\n\n" +
           "Format: One model pattern per line. Supports wildcards (*).\n" +
           "Examples: 'gpt-4o', 'claude-*', 'gemini-1.5*'\n\n" +
-          "Only tested models are included by default.",
+          "Only tested models are included by default. Models checked with the 'Probe tool support' commands " +
+          "use the probe result instead.",
         type: "textarea",
         placeholder: "gpt-5.2\ngpt-5.2-chat-latest\no3\nclaude-opus-4-5",
         group: "Tool Calling",
       },
+      {
+        id: "maxToolSteps",
+        name: "Max Tool Steps",
+        description:
+          "Maximum rounds of tool calls per response, so the AI can search, read and search again. " +
+          "Each step still requires your approval. Override per note with max_tool_steps in frontmatter.",
+        type: "text",
+        placeholder: "5",
+        group: "Tool Calling",
+      },
 
       // Web Search configuration
       {
@@ -473,6 +679,63 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
         type: "toggle",
         group: "Tool Calling",
       },
+
+      // Usage & Costs
+      {
+        id: "showUsageInHeader",
+        name: "Show Usage in Headers",
+        description: "Append the tokens and cost of each response to its assistant header.",
+        type: "toggle",
+        group: "Usage & Costs",
+      },
+      {
+        id: "usageLedgerPath",
+        name: "Usage Ledger",
+        description:
+          "Vault path of a JSON file that records the tokens and cost of every response across all chats. Leave empty to disable.",
+        type: "text",
+        placeholder: "ChatGPT_MD/usage-ledger.json",
+        group: "Usage & Costs",
+      },
+      {
+        id: "modelPrices",
+        name: "Model Prices",
+        description:
+          "Prices in USD per million tokens, used to calculate cost_usd. Format: one 'model: input, output' entry per line. " +
+          "Supports wildcards (*). OpenRouter prices are read from the model list when a model is not listed here.",
+        type: "textarea",
+        placeholder: "# model: input, output\n# gpt-4o: 2.5, 10",
+        group: "Usage & Costs",
+      },
+      {
+        id: "dailyBudget",
+        name: "Daily Budget (USD)",
+        description:
+          "Spending limit per calendar day across all chats, based on the usage ledger (requires a Usage Ledger path). " +
+          "Requests are blocked once it is reached unless you confirm an override. 0 to disable.",
+        type: "text",
+        placeholder: "0",
+        group: "Usage & Costs",
+      },
+      {
+        id: "providerBudgets",
+        name: "Provider Budgets (USD per month)",
+        description:
+          "Spending limits per calendar month for each AI service, based on the usage ledger (requires a Usage Ledger path). " +
+          "Format: one 'provider: amount' entry per line (e.g., openai, anthropic, openrouter). " +
+          "Set a limit per chat with budget_usd in frontmatter.",
+        type: "textarea",
+        placeholder: "# provider: amount\n# openai: 50",
+        group: "Usage & Costs",
+      },
+      {
+        id: "budgetWarningThreshold",
+        name: "Budget Warning Threshold (%)",
+        description: "Show a warning once spending reaches this percentage of a budget.",
+        type: "text",
+        placeholder: "80",
+        group: "Usage & Costs",
+      },
     ];
 
     // Group settings by category
@@ -534,6 +797,8 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
       containerEl.createEl("hr");
     }
 
+    this.renderCustomProviders(containerEl);
+
     // Render remaining regular groups
     Object.entries(regularGroups).forEach(([group, settings]) => {
       this.renderGroupHeader(containerEl, group);
@@ -555,13 +820,27 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
    * Render a collapsible group using details/summary elements
    */
   private renderCollapsibleGroup(container: HTMLElement, group: string, settings: SettingDefinition[]): void {
+    const { content } = this.createCollapsibleSection(container, group);
+
+    settings.forEach((setting) => {
+      this.createSettingElement(content, setting);
+    });
+  }
+
+  /**
+   * Create a collapsible section using details/summary elements
+   */
+  private createCollapsibleSection(
+    container: HTMLElement,
+    title: string
+  ): { details: HTMLDetailsElement; summary: HTMLElement; content: HTMLElement } {
     const details = container.createEl("details", { cls: "chatgpt-md-collapsible-group" });
     details.style.marginBottom = "10px";
     details.style.border = "1px solid var(--background-modifier-border)";
     details.style.borderRadius = "5px";
     details.style.padding = "0";
 
-    const summary = details.createEl("summary", { text: group });
+    const summary = details.createEl("summary", { text: title });
     summary.style.padding = "10px 15px";
     summary.style.cursor = "pointer";
     summary.style.fontWeight = "600";
@@ -572,9 +851,82 @@ export class ChatGPT_MDSettingsTab extends PluginSettingTab {
     const content = details.createEl("div", { cls: "chatgpt-md-collapsible-content" });
     content.style.padding = "10px 15px";
 
-    settings.forEach((setting) => {
-      this.createSettingElement(content, setting);
+    return { details, summary, content };
+  }
+
+  /**
+   * Render the custom OpenAI-compatible providers in collapsible sections, with a button to add one
+   */
+  private renderCustomProviders(container: HTMLElement): void {
+    this.renderGroupHeader(container, "Custom Providers");
+    const note = container.createEl("p", {
+      text:
+        "Add OpenAI-compatible providers such as a vLLM gateway, Groq, DeepSeek or Mistral and use their models " +
+        "as name@model. Providers with an invalid or duplicate name or without a base URL are ignored.",
+      cls: "setting-item-description",
     });
+    note.style.marginTop = "-10px";
+    note.style.marginBottom = "15px";
+
+    const providers = this.settingsProvider.settings.customProviders ?? [];
+    providers.forEach((provider, index) => this.renderCustomProvider(container, provider, index));
+
+    new Setting(container).addButton((button) =>
+      button.setButtonText("Add provider").onClick(async () => {
+        const provider: CustomProviderConfig = {
+          name: "",
+          url: "",
+          pathSuffix: DEFAULT_CUSTOM_PROVIDER_PATH_SUFFIX,
+          apiKey: "",
+          headers: "",
+          modelsEndpoint: DEFAULT_CUSTOM_PROVIDER_MODELS_ENDPOINT,
+        };
+        this.updateSetting("customProviders", [...providers, provider]);
+        await this.settingsProvider.saveSettings();
+        this.display();
+      })
+    );
+
+    container.createEl("hr");
+  }
+
+  /**
+   * Render the settings of one custom provider
+   */
+  private renderCustomProvider(container: HTMLElement, provider: CustomProviderConfig, index: number): void {
+    const { details, summary, content } = this.createCollapsibleSection(container, provider.name || "New provider");
+    details.open = !provider.name;
+
+    for (const field of CUSTOM_PROVIDER_FIELDS) {
+      const setting = new Setting(content).setName(field.name).setDesc(field.description);
+      const configure = (input: TextComponent | TextAreaComponent) => {
+        input
+          .setPlaceholder(field.placeholder)
+          .setValue(provider[field.key] ?? "")
+          .onChange(async (value) => {
+            provider[field.key] = field.key === "name" ? value.trim() : value;
+            if (field.key === "name") summary.setText(value.trim() || "New provider");
+            await this.settingsProvider.saveSettings();
+          });
+        input.inputEl.style.width = "300px";
+      };
+      if (field.multiline) setting.addTextArea(configure);
+      else setting.addText(configure);
+    }
+
+    new Setting(content).addButton((button) =>
+      button
+        .setButtonText("Remove provider")
+        .setWarning()
+        .onClick(async () => {
+          this.updateSetting(
+            "customProviders",
+            this.settingsProvider.settings.customProviders.filter((_, position) => position !== index)
+          );
+          await this.settingsProvider.saveSettings();
+          this.display();
+        })
+    );
   }
 
   createSettingElement(container: HTMLElement, schema: SettingDefinition) {
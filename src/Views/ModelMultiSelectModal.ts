@@ -0,0 +1,111 @@
+import { App, Modal, Setting } from "obsidian";
+
+// Models listed at once; narrow the list with the filter
+const MAX_LISTED_MODELS = 50;
+
+/**
+ * Modal for picking several models, e.g. to compare their answers
+ * Resolves to the selected models in the order they were picked, or an empty list when cancelled
+ */
+export class ModelMultiSelectModal extends Modal {
+  private selected: string[] = [];
+  private confirmed = false;
+  private query = "";
+  private listEl: HTMLElement;
+  private confirmButton?: HTMLButtonElement;
+  private modalPromise: Promise<string[]>;
+  private resolveModalPromise: (value: string[]) => void;
+
+  constructor(
+    app: App,
+    private modelNames: string[]
+  ) {
+    super(app);
+    this.modalPromise = new Promise((resolve) => {
+      this.resolveModalPromise = resolve;
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl("h2", { text: "Compare models" });
+
+    new Setting(contentEl).setName("Filter").addSearch((search) =>
+      search.setPlaceholder("Type to filter models").onChange((value) => {
+        this.query = value.toLowerCase();
+        this.renderModels();
+      })
+    );
+
+    this.listEl = contentEl.createDiv({ cls: "chatgpt-md-model-multi-select" });
+    this.listEl.style.maxHeight = "300px";
+    this.listEl.style.overflowY = "auto";
+    this.renderModels();
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText("Cancel").onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((btn) => {
+        this.confirmButton = btn.buttonEl;
+        btn
+          .setButtonText("Compare")
+          .setCta()
+          .onClick(() => {
+            this.confirmed = true;
+            this.close();
+          });
+      });
+    this.updateConfirmButton();
+  }
+
+  waitForModalValue(): Promise<string[]> {
+    return this.modalPromise;
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolveModalPromise(this.confirmed ? this.selected : []);
+  }
+
+  /**
+   * Render the selected models first, followed by the models matching the filter
+   */
+  private renderModels(): void {
+    this.listEl.empty();
+
+    const matching = this.modelNames.filter(
+      (model) => !this.selected.includes(model) && model.toLowerCase().includes(this.query)
+    );
+    const models = [...this.selected, ...matching.slice(0, MAX_LISTED_MODELS)];
+
+    for (const model of models) {
+      new Setting(this.listEl).setName(model).addToggle((toggle) =>
+        toggle.setValue(this.selected.includes(model)).onChange((enabled) => {
+          this.selected = enabled ? [...this.selected, model] : this.selected.filter((name) => name !== model);
+          this.updateConfirmButton();
+        })
+      );
+    }
+
+    if (matching.length > MAX_LISTED_MODELS) {
+      this.listEl.createEl("p", {
+        text: `${matching.length - MAX_LISTED_MODELS} more models, type to filter`,
+        cls: "setting-item-description",
+      });
+    }
+  }
+
+  private updateConfirmButton(): void {
+    if (!this.confirmButton) return;
+    this.confirmButton.disabled = this.selected.length === 0;
+    this.confirmButton.setText(
+      this.selected.length > 0
+        ? `Compare ${this.selected.length} model${this.selected.length === 1 ? "" : "s"}`
+        : "Select models to compare"
+    );
+  }
+}
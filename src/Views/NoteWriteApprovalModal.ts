@@ -0,0 +1,164 @@
+import { App } from "obsidian";
+import { NoteWriteApprovalDecision, NoteWriteMode } from "src/Models/Tool";
+import { NoteWriteService } from "src/Services/NoteWriteService";
+import { getAppendSeparator, getContentTail } from "src/Utilities/NoteWriteHelpers";
+import { BaseApprovalModal } from "./BaseApprovalModal";
+
+// Lines of the existing note shown above appended text
+const PREVIEW_CONTEXT_LINES = 5;
+
+/**
+ * Modal for approving the note_create and note_append tools
+ * Shows the target path and the exact content, both editable. The path is validated against the vault as it is
+ * typed, and for appends a preview shows the end of the note with the added lines marked.
+ */
+export class NoteWriteApprovalModal extends BaseApprovalModal<NoteWriteApprovalDecision> {
+  private path: string;
+  private content: string;
+  private existingContent?: string;
+  private pathError?: string;
+  private errorEl: HTMLElement | null = null;
+  private previewEl: HTMLElement | null = null;
+  private approveBtn: HTMLButtonElement | null = null;
+
+  constructor(
+    app: App,
+    private mode: NoteWriteMode,
+    path: string,
+    content: string,
+    private noteWriteService: NoteWriteService,
+    modelName: string = "AI"
+  ) {
+    super(app, modelName);
+    this.path = path;
+    this.content = content;
+  }
+
+  protected getModalTitle(): string {
+    return this.mode === "create" ? "ChatGPT MD - Create Note" : "ChatGPT MD - Append to Note";
+  }
+
+  protected getCssClass(): string {
+    return "note-write-approval-modal";
+  }
+
+  protected getDescription(): string {
+    return this.mode === "create"
+      ? `'${this.modelName}' requests to create a new note. Review and edit it before it is written.`
+      : `'${this.modelName}' requests to add text to the end of a note. Review and edit it before it is written.`;
+  }
+
+  protected renderSelectionItems(container: HTMLElement): void {
+    this.renderLabel(container, this.mode === "create" ? "New note:" : "Note:");
+    const pathInput = container.createEl("input", { type: "text", cls: "note-write-path" });
+    pathInput.value = this.path;
+    pathInput.addEventListener("input", () => {
+      this.path = pathInput.value;
+      void this.updateTarget();
+    });
+
+    this.errorEl = container.createEl("div", { cls: "note-write-error" });
+
+    this.renderLabel(container, this.mode === "create" ? "Content:" : "Text to append:");
+    const contentTextarea = container.createEl("textarea", { cls: "note-write-content" });
+    contentTextarea.value = this.content;
+    contentTextarea.addEventListener("input", () => {
+      this.content = contentTextarea.value;
+      this.renderPreview();
+      this.validateApproveButton();
+    });
+
+    if (this.mode === "append") {
+      this.renderLabel(container, "Preview:");
+      this.previewEl = container.createEl("pre", { cls: "note-write-preview" });
+    }
+
+    void this.updateTarget();
+  }
+
+  /**
+   * No selections to make, the content is edited instead
+   */
+  protected override renderSelectAllButtons(): void {}
+
+  protected getControlNoteText(): string {
+    return "Nothing is written until you approve. Run 'Undo last note change' to revert the change afterwards.";
+  }
+
+  protected getCancelText(): string {
+    return "Cancel";
+  }
+
+  protected getApproveText(): string {
+    return this.mode === "create" ? "Create Note" : "Append to Note";
+  }
+
+  protected override renderActionButtons(container: HTMLElement): void {
+    super.renderActionButtons(container);
+    this.approveBtn = container.querySelector<HTMLButtonElement>("button:last-of-type");
+    this.validateApproveButton();
+  }
+
+  protected buildApprovedResult(): NoteWriteApprovalDecision {
+    return { approved: true, path: this.path, content: this.content };
+  }
+
+  protected buildCancelledResult(): NoteWriteApprovalDecision {
+    return { approved: false, path: this.path, content: this.content };
+  }
+
+  private renderLabel(container: HTMLElement, text: string): void {
+    const label = container.createEl("label", { text });
+    label.style.display = "block";
+    label.style.marginBottom = "8px";
+    label.style.fontWeight = "500";
+    label.style.opacity = "0.7";
+  }
+
+  /**
+   * Validate the path and load the note that text is appended to
+   */
+  private async updateTarget(): Promise<void> {
+    const path = this.path;
+    const result = this.noteWriteService.validatePath(path, this.mode);
+    const existingContent =
+      "error" in result || this.mode === "create" ? undefined : await this.noteWriteService.readNote(result.path);
+
+    // Ignore results for a path that was changed in the meantime
+    if (path !== this.path) return;
+
+    this.pathError = "error" in result ? result.error : undefined;
+    this.existingContent = existingContent;
+    this.errorEl?.setText(this.pathError ?? "");
+    this.renderPreview();
+    this.validateApproveButton();
+  }
+
+  /**
+   * Show the end of the note followed by the appended lines, marked with "+"
+   */
+  private renderPreview(): void {
+    if (!this.previewEl) return;
+    this.previewEl.empty();
+    if (this.existingContent === undefined) return;
+
+    const tail = getContentTail(this.existingContent, PREVIEW_CONTEXT_LINES);
+    if (tail) {
+      this.previewEl.createEl("div", { cls: "note-write-context", text: tail });
+    }
+
+    const added = getAppendSeparator(this.existingContent).replace(/^\n/, "") + this.content;
+    for (const line of added.split("\n")) {
+      this.previewEl.createEl("div", { cls: "note-write-added", text: `+ ${line}` });
+    }
+  }
+
+  private validateApproveButton(): void {
+    if (!this.approveBtn) return;
+
+    const isValid = !this.pathError && this.content.trim().length > 0;
+    this.approveBtn.disabled = !isValid;
+    this.approveBtn.style.opacity = isValid ? "1" : "0.5";
+    this.approveBtn.style.cursor = isValid ? "pointer" : "not-allowed";
+  }
+}
@@ -0,0 +1,73 @@
+import { App, Modal, Setting } from "obsidian";
+import { BudgetStatus } from "src/Models/Usage";
+import { formatBudgetStatus } from "src/Utilities/UsageHelpers";
+
+/**
+ * Asks whether to probe the tool support of a list of models, as each probe is a billed request
+ * Lists the spending budgets the probes count against that are near or over their limit.
+ * Resolves to false when the modal is closed without confirming
+ */
+export class ToolProbeConfirmModal extends Modal {
+  private result = false;
+  private modalPromise: Promise<boolean>;
+  private resolveModalPromise: (value: boolean) => void;
+
+  constructor(
+    app: App,
+    private modelCount: number,
+    private budgets: BudgetStatus[]
+  ) {
+    super(app);
+    this.modalPromise = new Promise((resolve) => {
+      this.resolveModalPromise = resolve;
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const exceeded = this.budgets.some((budget) => budget.state === "exceeded");
+
+    contentEl.createEl("h2", { text: "[ChatGPT MD] Probe tool support" });
+
+    contentEl.createEl("p", {
+      text:
+        `This sends a short request to each of the ${this.modelCount} models not probed yet. ` +
+        "Paid providers bill these requests. Run the command again to stop the probes.",
+    });
+
+    if (this.budgets.length > 0) {
+      contentEl.createEl("p", { text: exceeded ? "Spending budget reached:" : "Approaching spending budget:" });
+      const list = contentEl.createEl("ul");
+      for (const budget of this.budgets) {
+        list.createEl("li", { text: formatBudgetStatus(budget) });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText("Cancel").onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((btn) => {
+        btn.setButtonText(exceeded ? "Probe anyway" : `Probe ${this.modelCount} models`).onClick(() => {
+          this.result = true;
+          this.close();
+        });
+        if (exceeded) {
+          btn.setWarning();
+        } else {
+          btn.setCta();
+        }
+      });
+  }
+
+  waitForModalValue(): Promise<boolean> {
+    return this.modalPromise;
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolveModalPromise(this.result);
+  }
+}
@@ -1,6 +1,7 @@
 import { App, Plugin } from "obsidian";
 import { FileService } from "src/Services/FileService";
 import { MessageService } from "src/Services/MessageService";
+import { LinkContentService } from "src/Services/LinkContentService";
 import { TemplateService } from "src/Services/TemplateService";
 import { FrontmatterManager } from "src/Services/FrontmatterManager";
 import { EditorService } from "src/Services/EditorService";
@@ -14,6 +15,12 @@ import { ToolService } from "src/Services/ToolService";
 import { VaultSearchService } from "src/Services/VaultSearchService";
 import { WebSearchService } from "src/Services/WebSearchService";
 import { AgentService } from "src/Services/AgentService";
+import { ContextService } from "src/Services/ContextService";
+import { UsageService } from "src/Services/UsageService";
+import { ModelCatalogService } from "src/Services/ModelCatalogService";
+import { ToolProbeService } from "src/Services/ToolProbeService";
+import { NoteWriteService } from "src/Services/NoteWriteService";
+import { getCustomProviders } from "src/Utilities/CustomProviderHelpers";
 
 /**
  * Simple service container with readonly service instances.
@@ -38,6 +45,7 @@ export class ServiceContainer {
 
   // Content services
   readonly fileService: FileService;
+  readonly linkContentService: LinkContentService;
   readonly frontmatterManager: FrontmatterManager;
   readonly messageService: MessageService;
   readonly templateService: TemplateService;
@@ -45,6 +53,10 @@ export class ServiceContainer {
 
   // AI services
   readonly aiProviderService: () => AiProviderService;
+  readonly contextService: ContextService;
+  readonly usageService: UsageService;
+  readonly modelCatalogService: ModelCatalogService;
+  readonly toolProbeService: ToolProbeService;
 
   // Settings (now includes frontmatter operations)
   readonly settingsService: SettingsService;
@@ -55,6 +67,7 @@ export class ServiceContainer {
   // Tool services (consolidated into single ToolService)
   readonly vaultSearchService: VaultSearchService;
   readonly webSearchService: WebSearchService;
+  readonly noteWriteService: NoteWriteService;
   readonly toolService: ToolService;
 
   private constructor(
@@ -65,15 +78,21 @@ export class ServiceContainer {
     apiService: ApiService,
     apiAuthService: ApiAuthService,
     fileService: FileService,
+    linkContentService: LinkContentService,
     frontmatterManager: FrontmatterManager,
     messageService: MessageService,
     templateService: TemplateService,
     editorService: EditorService,
     aiProviderService: () => AiProviderService,
+    contextService: ContextService,
+    usageService: UsageService,
+    modelCatalogService: ModelCatalogService,
+    toolProbeService: ToolProbeService,
     settingsService: SettingsService,
     agentService: AgentService,
     vaultSearchService: VaultSearchService,
     webSearchService: WebSearchService,
+    noteWriteService: NoteWriteService,
     toolService: ToolService
   ) {
     this.app = app;
@@ -83,15 +102,21 @@ export class ServiceContainer {
     this.apiService = apiService;
     this.apiAuthService = apiAuthService;
     this.fileService = fileService;
+    this.linkContentService = linkContentService;
     this.frontmatterManager = frontmatterManager;
     this.messageService = messageService;
     this.templateService = templateService;
     this.editorService = editorService;
     this.aiProviderService = aiProviderService;
+    this.contextService = contextService;
+    this.usageService = usageService;
+    this.modelCatalogService = modelCatalogService;
+    this.toolProbeService = toolProbeService;
     this.settingsService = settingsService;
     this.agentService = agentService;
     this.vaultSearchService = vaultSearchService;
     this.webSearchService = webSearchService;
+    this.noteWriteService = noteWriteService;
     this.toolService = toolService;
   }
 
@@ -111,8 +136,9 @@ export class ServiceContainer {
 
     // === Content services ===
     const fileService = new FileService(app);
+    const linkContentService = new LinkContentService(app);
     const frontmatterManager = new FrontmatterManager(app);
-    const messageService = new MessageService(fileService, notificationService);
+    const messageService = new MessageService(fileService, notificationService, linkContentService);
 
     // === Settings service (now includes frontmatter operations) ===
     const settingsService = new SettingsService(plugin, frontmatterManager, notificationService, errorService);
@@ -138,7 +164,14 @@ export class ServiceContainer {
 
     // === AI service factory ===
     // Using a factory function to create new instances when needed
-    const aiProviderService = () => new AiProviderService();
+    const aiProviderService = () => {
+      const settings = settingsService.getSettings();
+      return new AiProviderService(getCustomProviders(settings), settings);
+    };
+    const contextService = new ContextService(notificationService);
+    const usageService = new UsageService(app, frontmatterManager);
+    const modelCatalogService = new ModelCatalogService(settingsService, apiAuthService, aiProviderService);
+    const toolProbeService = new ToolProbeService(settingsService, apiAuthService, aiProviderService);
 
     // Set the save settings callback for AI services
     AiProviderService.setSaveSettingsCallback(settingsService.saveSettings.bind(settingsService));
@@ -146,13 +179,15 @@ export class ServiceContainer {
     // === Tool services (consolidated) ===
     const vaultSearchService = new VaultSearchService(app, fileService);
     const webSearchService = new WebSearchService(notificationService);
+    const noteWriteService = new NoteWriteService(app);
     const toolService = new ToolService(
       app,
       fileService,
       notificationService,
       settingsService.getSettings(),
       vaultSearchService,
-      webSearchService
+      webSearchService,
+      noteWriteService
     );
 
     // === Create container ===
@@ -164,15 +199,21 @@ export class ServiceContainer {
       apiService,
       apiAuthService,
       fileService,
+      linkContentService,
       frontmatterManager,
       messageService,
       templateService,
       editorService,
       aiProviderService,
+      contextService,
+      usageService,
+      modelCatalogService,
+      toolProbeService,
       settingsService,
       agentService,
       vaultSearchService,
       webSearchService,
+      noteWriteService,
       toolService
     );
   }
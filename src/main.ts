@@ -1,12 +1,27 @@
 import { MarkdownView, Plugin } from "obsidian";
 import { ServiceContainer } from "./core/ServiceContainer";
 import { ChatHandler } from "./Commands/ChatHandler";
-import { ModelSelectHandler } from "./Commands/ModelSelectHandler";
+import { ModelSelectHandler, RefreshModelsHandler } from "./Commands/ModelSelectHandler";
 import { AddCommentBlockHandler, AddDividerHandler } from "./Commands/SimpleHandlers";
 import { StopStreamingHandler } from "./Commands/StopStreamingHandler";
 import { InferTitleHandler } from "./Commands/InferTitleHandler";
-import { ChooseChatTemplateHandler, ClearChatHandler, MoveToNewChatHandler } from "./Commands/RemainingHandlers";
+import {
+  ChooseChatTemplateHandler,
+  ClearChatHandler,
+  CompactChatHandler,
+  ForkChatHandler,
+  MoveToNewChatHandler,
+} from "./Commands/RemainingHandlers";
 import { ChooseAgentHandler, CreateAgentHandler } from "./Commands/AgentHandlers";
+import {
+  NextAlternativeHandler,
+  PromoteAlternativeHandler,
+  RegenerateResponseHandler,
+} from "./Commands/AlternativeResponseHandlers";
+import { ResendMessageHandler } from "./Commands/ResendMessageHandler";
+import { CompareModelsHandler } from "./Commands/CompareModelsHandler";
+import { ProbeAllToolSupportHandler, ProbeToolSupportHandler } from "./Commands/ToolProbeHandlers";
+import { UndoNoteWriteHandler } from "./Commands/UndoNoteWriteHandler";
 import { CommandRegistrar } from "./Commands/CommandRegistrar";
 
 export default class ChatGPT_MD extends Plugin {
@@ -60,6 +75,17 @@ export default class ChatGPT_MD extends Plugin {
       },
     });
 
+    // Alternative response commands
+    registrar.registerEditorViewCommand(new RegenerateResponseHandler(this.services, this.chatHandler));
+    registrar.registerEditorCommand(new NextAlternativeHandler());
+    registrar.registerEditorCommand(new PromoteAlternativeHandler(this.services));
+
+    // Resend message command
+    registrar.registerEditorViewCommand(new ResendMessageHandler(this.services, this.chatHandler));
+
+    // Compare models command
+    registrar.registerEditorViewCommand(new CompareModelsHandler(this.services, this.modelSelectHandler));
+
     // Select model command
     this.addCommand({
       ...ModelSelectHandler.getCommand(),
@@ -70,6 +96,16 @@ export default class ChatGPT_MD extends Plugin {
       },
     });
 
+    // Refresh model list command
+    registrar.registerCallbackCommand(new RefreshModelsHandler(this.modelSelectHandler));
+
+    // Tool support probe commands
+    registrar.registerEditorViewCommand(new ProbeToolSupportHandler(this.services));
+    registrar.registerCallbackCommand(new ProbeAllToolSupportHandler(this.services, this.modelSelectHandler));
+
+    // Undo note write command
+    registrar.registerCallbackCommand(new UndoNoteWriteHandler(this.services));
+
     // Add divider command
     registrar.registerEditorCommand(new AddDividerHandler(this.services));
 
@@ -91,6 +127,12 @@ export default class ChatGPT_MD extends Plugin {
     // Clear chat command
     registrar.registerEditorCommand(new ClearChatHandler(this.services));
 
+    // Compact chat command
+    registrar.registerEditorViewCommand(new CompactChatHandler(this.services));
+
+    // Fork chat command
+    registrar.registerEditorViewCommand(new ForkChatHandler(this.services));
+
     // Agent commands
     registrar.registerCallbackCommand(new ChooseAgentHandler(this.services));
     registrar.registerCallbackCommand(new CreateAgentHandler(this.services, this.modelSelectHandler));